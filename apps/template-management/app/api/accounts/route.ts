@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getWabaId, getWabaIds, graphClient, toErrorResponse } from '@/lib/server/graphApi';
+
+export async function GET() {
+  try {
+    // Fails early when no account or token is configured
+    getWabaId();
+
+    const accounts = await Promise.all(
+      getWabaIds().map(async (id) => {
+        try {
+          const response = await graphClient.get(`/${id}`, { params: { fields: 'id,name' } });
+          return { id, name: response.data?.name as string | undefined };
+        } catch {
+          // An account name is only cosmetic, list the account by its ID instead
+          return { id };
+        }
+      })
+    );
+    return NextResponse.json({ data: accounts });
+  } catch (error) {
+    return toErrorResponse(error, 'fetching business accounts');
+  }
+}
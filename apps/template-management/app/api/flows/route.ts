@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWabaId, graphClient, toErrorResponse } from '@/lib/server/graphApi';
+
+export async function GET(request: NextRequest) {
+  try {
+    const wabaId = getWabaId(request);
+    const response = await graphClient.get(`/${wabaId}/flows`, {
+      params: { fields: 'id,name,status' },
+    });
+    return NextResponse.json(response.data, { status: response.status });
+  } catch (error) {
+    return toErrorResponse(error, 'fetching flows');
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assertTemplateOfWaba, getWabaId, graphClient, toErrorResponse } from '@/lib/server/graphApi';
+
+// Fields the status watcher needs to report a review result
+const TEMPLATE_FIELDS = 'name,category,status,id,language,components,rejected_reason,quality_score,previous_category';
+// Fields Meta lets an edit change, anything else in the body is dropped
+const EDITABLE_FIELDS = ['components', 'category', 'message_send_ttl_seconds'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    // Only proxy reads of templates of a configured WABA
+    const wabaId = getWabaId(request);
+    const { templateId } = await params;
+    await assertTemplateOfWaba(wabaId, templateId);
+
+    const response = await graphClient.get(`/${templateId}`, {
+      params: { fields: TEMPLATE_FIELDS },
+    });
+    return NextResponse.json(response.data, { status: response.status });
+  } catch (error) {
+    return toErrorResponse(error, 'fetching template');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    // Only proxy edits of templates of a configured WABA
+    const wabaId = getWabaId(request);
+    const { templateId } = await params;
+    await assertTemplateOfWaba(wabaId, templateId);
+
+    const body = await request.json();
+    const editPayload: Record<string, unknown> = {};
+    EDITABLE_FIELDS.forEach((key) => {
+      if (body?.[key] !== undefined) editPayload[key] = body[key];
+    });
+
+    const response = await graphClient.post(`/${templateId}`, editPayload);
+    return NextResponse.json(response.data, { status: response.status });
+  } catch (error) {
+    return toErrorResponse(error, 'editing template');
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWabaIds } from '@/lib/server/graphApi';
+import { subscribeToTemplateEvents } from '@/lib/server/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 25000;
+
+/**
+ * Server-sent events stream of template webhooks for one WABA.
+ * EventSource can't send headers, so the account is picked with ?waba_id= instead of X-WABA-ID.
+ */
+export async function GET(request: NextRequest) {
+  const wabaIds = getWabaIds();
+  const wabaId = request.nextUrl.searchParams.get('waba_id') || wabaIds[0];
+  if (!wabaId || !wabaIds.includes(wabaId)) {
+    return NextResponse.json({ error: { message: `WhatsApp Business Account ${wabaId} is not configured.` } }, { status: 403 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToTemplateEvents((event) => {
+        if (event.wabaId === wabaId) {
+          send(`data: ${JSON.stringify(event)}\n\n`);
+        }
+      });
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send('retry: 5000\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
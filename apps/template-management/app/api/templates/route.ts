@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWabaId, graphClient, toErrorResponse } from '@/lib/server/graphApi';
+
+// Query parameters the browser may forward to the template list endpoint, paging and filters
+const LIST_PARAMS = ['fields', 'limit', 'after', 'before', 'name', 'status', 'category', 'language', 'quality_score'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const wabaId = getWabaId(request);
+    const params: Record<string, string> = {};
+    LIST_PARAMS.forEach((key) => {
+      const value = request.nextUrl.searchParams.get(key);
+      if (value) params[key] = value;
+    });
+
+    const response = await graphClient.get(`/${wabaId}/message_templates`, { params });
+    return NextResponse.json(response.data, { status: response.status });
+  } catch (error) {
+    return toErrorResponse(error, 'fetching templates');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const wabaId = getWabaId(request);
+    const metaPayload = await request.json();
+
+    const response = await graphClient.post(`/${wabaId}/message_templates`, metaPayload);
+    return NextResponse.json(response.data, { status: response.status });
+  } catch (error) {
+    return toErrorResponse(error, 'creating template');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const wabaId = getWabaId(request);
+    const name = request.nextUrl.searchParams.get('name');
+    const hsmId = request.nextUrl.searchParams.get('hsm_id');
+    if (!name) {
+      return NextResponse.json({ error: { message: 'Template name is required.' } }, { status: 400 });
+    }
+
+    const response = await graphClient.delete(`/${wabaId}/message_templates`, {
+      params: { name, ...(hsmId ? { hsm_id: hsmId } : {}) },
+    });
+    return NextResponse.json(response.data, { status: response.status });
+  } catch (error) {
+    return toErrorResponse(error, 'deleting template');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWabaId, graphClient, toErrorResponse } from '@/lib/server/graphApi';
+
+// Step 2 of Meta's resumable upload: send the file bytes, Meta answers with the handle used in template examples
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    getWabaId(request);
+    const { sessionId } = await params;
+    // Only upload sessions, the token must not be usable to post to other Graph objects
+    if (!sessionId.startsWith('upload:')) {
+      return NextResponse.json({ error: { message: 'Invalid upload session.' } }, { status: 400 });
+    }
+    const fileData = Buffer.from(await request.arrayBuffer());
+
+    const response = await graphClient.post(`/${sessionId}`, fileData, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        file_offset: request.headers.get('file_offset') || '0',
+      },
+    });
+    return NextResponse.json(response.data, { status: response.status });
+  } catch (error) {
+    return toErrorResponse(error, 'uploading file');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAppId, getWabaId, graphClient, toErrorResponse } from '@/lib/server/graphApi';
+
+// The upload service asks for the app ID first, it is not a secret
+export async function GET() {
+  try {
+    return NextResponse.json({ meta_app_id: getAppId() });
+  } catch (error) {
+    return toErrorResponse(error, 'reading upload configuration');
+  }
+}
+
+// Step 1 of Meta's resumable upload: open a session for a media sample
+export async function POST(request: NextRequest) {
+  try {
+    getWabaId(request);
+    const { fileName, fileType, fileLength } = await request.json();
+
+    const response = await graphClient.post(`/${getAppId()}/uploads`, null, {
+      params: { file_name: fileName, file_type: fileType, file_length: fileLength },
+    });
+    return NextResponse.json(response.data, { status: response.status });
+  } catch (error) {
+    return toErrorResponse(error, 'creating upload session');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseTemplateWebhook } from '@workspace/ui-template-management/lib/templateWebhooks';
+import { getWabaIds } from '@/lib/server/graphApi';
+import {
+  handleVerificationRequest,
+  publishTemplateEvents,
+  SIGNATURE_HEADER,
+  verifyWebhookSignature,
+} from '@/lib/server/webhooks';
+
+// Meta calls this with GET to verify the callback URL
+export async function GET(request: NextRequest) {
+  return handleVerificationRequest(request.nextUrl.searchParams);
+}
+
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+  if (!verifyWebhookSignature(rawBody, request.headers.get(SIGNATURE_HEADER))) {
+    return NextResponse.json({ error: { message: 'Invalid webhook signature.' } }, { status: 401 });
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: { message: 'Webhook body is not valid JSON.' } }, { status: 400 });
+  }
+
+  // Only relay events of accounts this server manages
+  const wabaIds = getWabaIds();
+  const events = parseTemplateWebhook(payload).filter(event => wabaIds.includes(event.wabaId));
+  publishTemplateEvents(events);
+
+  // Meta retries anything but a 200, so unrelated fields are acknowledged too
+  return NextResponse.json({ received: events.length }, { status: 200 });
+}
@@ -4,9 +4,17 @@ import type React from "react"
 import { useState, useEffect, useMemo, useCallback, useRef } from "react"
 import TemplateManager from "@workspace/ui-template-management/components/TemplateManager";
 import { ErrorDetails } from "@workspace/ui-template-management/components/TemplateErrorUI";
-import { CreateTemplatePayload, MessageTemplate, ResponseBodyComponent } from "@workspace/ui-template-management/types/templateTypes";
+import { CreateTemplatePayload, MessageTemplate, TemplateCategory, TemplateFilters, TemplateStatus, WhatsAppFlow } from "@workspace/ui-template-management/types/templateTypes";
 import { PaginationInfo } from "@workspace/ui-template-management/components/TemplateManager";
-import { templateApi } from "../lib/api/TemplateService";
+import WabaSwitcher from "@workspace/ui-template-management/components/WabaSwitcher";
+import { WabaAccount, WabaProvider, useWabaContext } from "@workspace/ui-template-management/context/WabaContext";
+import { TemplateStatusChange, templateStatusWatcher } from "@workspace/ui-template-management/lib/templateStatusWatcher";
+import { applyTemplateWebhookEvent } from "@workspace/ui-template-management/lib/templateWebhooks";
+import { setActiveWabaId, templateApi } from "../lib/api/TemplateService";
+import { TemplateEventStream } from "../lib/api/TemplateEvents";
+
+// Pending templates are polled through the template route handler until Meta reviews them
+templateStatusWatcher.configure({ fetchTemplate: templateApi.get_MessageTemplate })
 
 const getErrorDetails = (error: string): ErrorDetails => {
     const errorLower = error.toLowerCase();
@@ -57,16 +65,25 @@ const getErrorDetails = (error: string): ErrorDetails => {
   };
 
 type FilterStatus = 'all' | 'approved' | 'pending' | 'rejected';
+type PaginationMode = 'pages' | 'loadMore';
+
+interface TemplateWorkspaceProps {
+  paginationMode: PaginationMode;
+}
 
-const TemplateClient: React.FC = () => {
+const TemplateWorkspace: React.FC<TemplateWorkspaceProps> = ({ paginationMode }) => {
+  const { wabaId } = useWabaContext()
   const [allTemplates, setAllTemplates] = useState<MessageTemplate[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [deletingTemplateId, setDeletingTemplateId] = useState<string | null>(null)
   const [creatingTemplate, setCreatingTemplate] = useState(false)
+  const [updatingTemplate, setUpdatingTemplate] = useState(false)
+  const [flows, setFlows] = useState<WhatsAppFlow[]>([])
   const [searchQuery, setSearchQuery] = useState("")
   const [selectedCategory, setSelectedCategory] = useState("all")
-  const [selectedStatus, setSelectedStatus] = useState("all")
+  const [selectedLanguage, setSelectedLanguage] = useState("all")
   const [filterStatus, setFilterStatus] = useState<FilterStatus>('all')
   // Pagination state
   const [pagination, setPagination] = useState<PaginationInfo | undefined>(undefined)
@@ -75,17 +92,29 @@ const TemplateClient: React.FC = () => {
   const [totalTemplatesCount, setTotalTemplatesCount] = useState(0)
   const cursorHistoryRef = useRef<string[]>([]) // Ref to track history without causing re-renders
 
+  // Search, status tabs and dropdown filters are applied by the Graph API, so they reach every page and not just the loaded one
+  const filters = useMemo<TemplateFilters>(() => ({
+    name: searchQuery.trim() || undefined,
+    status: filterStatus === "all" ? undefined : filterStatus.toUpperCase() as TemplateStatus,
+    category: selectedCategory === "all" ? undefined : selectedCategory as TemplateCategory,
+    language: selectedLanguage === "all" ? undefined : selectedLanguage,
+  }), [searchQuery, filterStatus, selectedCategory, selectedLanguage])
+  const filtersRef = useRef<TemplateFilters>(filters)
+  filtersRef.current = filters
+
   // Keep ref in sync with state
   useEffect(() => {
     cursorHistoryRef.current = cursorHistory;
   }, [cursorHistory])
 
   const loadTemplates = useCallback(async (cursor?: string, append: boolean = false, direction: 'forward' | 'backward' = 'forward') => {
+    // Appending keeps the loaded templates on screen, only a fresh load shows the skeleton
+    const setBusy = append ? setLoadingMore : setLoading
     try {
-      setLoading(true)
+      setBusy(true)
       setError(null)
       
-      const response = await templateApi.get_MessageTemplates(cursor, 50, direction) as any;
+      const response = await templateApi.get_MessageTemplates(cursor, 50, direction, filtersRef.current) as any;
 
       let templates: MessageTemplate[] = [];
       let paginationInfo: PaginationInfo | undefined = undefined;
@@ -125,6 +154,7 @@ const TemplateClient: React.FC = () => {
 
       if (append) {
         setAllTemplates(prev => [...prev, ...templates]);
+        setTotalTemplatesCount(prev => prev + templates.length);
       } else {
         setAllTemplates(templates);
         setTotalTemplatesCount(templates.length);
@@ -140,42 +170,41 @@ const TemplateClient: React.FC = () => {
         stack: err instanceof Error ? err.stack : undefined
       });
     } finally {
-      setLoading(false)
+      setBusy(false)
     }
   }, [])
 
+  // Templates and cursors belong to one account and one set of filters, so start over whenever either changes
   useEffect(() => {
+    setActiveWabaId(wabaId)
+    setCursorHistory([])
+    setPagination(undefined)
     loadTemplates()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
+  }, [wabaId, filters])
 
-  const filteredBySearch = useMemo(() => {
-    if (!searchQuery && selectedCategory === 'all' && selectedStatus === 'all') {
-        return allTemplates;
-    }
-
-    return allTemplates.filter((template) => {
-        const bodyComponent = template.components?.find(c => c.type === 'BODY') as ResponseBodyComponent | undefined;
-        const bodyText = bodyComponent?.text || '';
+  // Flows are only needed by the Flow button picker, which falls back to a Flow ID input without them
+  useEffect(() => {
+    templateApi.get_Flows()
+      .then(setFlows)
+      .catch(() => setFlows([]))
+  }, [wabaId])
 
-        const matchesSearch =
-          !searchQuery ||
-          template.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          bodyText.toLowerCase().includes(searchQuery.toLowerCase())
-        
-        const matchesCategory = selectedCategory === "all" || template.category.toLowerCase() === selectedCategory
-        const matchesStatus = selectedStatus === "all" || template.status.toLowerCase() === selectedStatus
-    
-        return matchesSearch && matchesCategory && matchesStatus
-      })
-  }, [allTemplates, searchQuery, selectedCategory, selectedStatus]);
+  // Webhooks relayed by the server update cards live. Status results also go through the watcher,
+  // which shows the toast and slows its polling down to a safety net.
+  useEffect(() => {
+    const stream = new TemplateEventStream(wabaId)
+    const stopCardUpdates = stream.onEvent((event) => {
+      setAllTemplates(prev => prev.map(t => applyTemplateWebhookEvent(t, event)))
+    })
+    templateStatusWatcher.setSource(stream)
 
-  const finalFilteredTemplates = useMemo(() => {
-    if (filterStatus === 'all') {
-      return filteredBySearch;
+    return () => {
+      templateStatusWatcher.setSource(null)
+      stopCardUpdates()
+      stream.close()
     }
-    return filteredBySearch.filter(t => t.status.toLowerCase() === filterStatus);
-  }, [filteredBySearch, filterStatus]);
+  }, [wabaId])
 
   const stats = useMemo<{
     total: number | string;
@@ -221,6 +250,13 @@ const TemplateClient: React.FC = () => {
     }
   }
 
+  // Load more mode appends the next page, so the after cursor is all that's needed
+  const handleLoadMore = useCallback(() => {
+    if (pagination?.hasNextPage && pagination.cursors?.after) {
+      loadTemplates(pagination.cursors.after, true, 'forward');
+    }
+  }, [pagination, loadTemplates])
+
   const handlePreviousPage = () => {
     if (!pagination?.hasPreviousPage) return;
     
@@ -243,21 +279,40 @@ const TemplateClient: React.FC = () => {
       console.log("Submitting template:", payload);
       await templateApi.create_MessageTemplate(payload);
       await loadTemplates();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "An error occurred while creating the template");
+    } catch (err: any) {
       console.error("Error creating template:", err);
+      // Rethrow so the create form and the import dialog can show Meta's reason next to the template
+      const metaBody = err?.response?.data;
+      throw metaBody?.error ? new Error(`Error from META: ${JSON.stringify(metaBody)}`) : err;
     } finally {
       setCreatingTemplate(false);
     }
   };
 
-  const handlePreviewTemplate = (templateId: string) => {
-    console.log("Preview template:", templateId)
-  }
+  const handleUpdateTemplate = async (templateId: string, payload: CreateTemplatePayload) => {
+    try {
+      setUpdatingTemplate(true);
+      await templateApi.edit_MessageTemplate(templateId, payload);
+      await loadTemplates();
+    } catch (err: any) {
+      console.error("Error updating template:", err);
+      // Rethrow so the edit form stays open and shows Meta's reason, the list keeps showing the templates
+      const metaBody = err?.response?.data;
+      throw metaBody?.error ? new Error(`Error from META: ${JSON.stringify(metaBody)}`) : err;
+    } finally {
+      setUpdatingTemplate(false);
+    }
+  };
 
-  const handleEditTemplate = (templateId: string) => {
-    console.log("Edit template:", templateId)
-  }
+  // The copy lands in another account, so the loaded list stays as it is
+  const handleCopyToAccount = async (targetWabaId: string, payload: CreateTemplatePayload) => {
+    await templateApi.create_MessageTemplate(payload, targetWabaId);
+  };
+
+  // Reviewed templates are updated in place, the watcher already told the user
+  const handleStatusChange = (change: TemplateStatusChange) => {
+    setAllTemplates(prev => prev.map(t => t.id === change.template.id ? { ...t, ...change.template } : t));
+  };
 
   const handleCopyTemplate = async (templateBody: string) => {
     try {
@@ -285,8 +340,10 @@ const TemplateClient: React.FC = () => {
   }
 
   return (
-    <TemplateManager
-        templates={finalFilteredTemplates}
+    <div className="space-y-4">
+      <WabaSwitcher disabled={loading || creatingTemplate || updatingTemplate} />
+      <TemplateManager
+        templates={allTemplates}
         stats={stats}
         loading={loading}
         error={error}
@@ -294,15 +351,27 @@ const TemplateClient: React.FC = () => {
         totalTemplates={totalTemplatesCount}
         deletingTemplateId={deletingTemplateId}
         creatingTemplate={creatingTemplate}
+        updatingTemplate={updatingTemplate}
+        flows={flows}
         currentFilter={filterStatus}
         pagination={pagination}
+        paginationMode={paginationMode}
+        loadingMore={loadingMore}
         onRetry={handleRetry}
         onSync={handleSyncTemplates}
         onCreate={handleCreateTemplate}
+        onFetchAllTemplates={() => templateApi.get_AllMessageTemplates(filters)}
         onFilterChange={(filter: string) => handleFilterChange(filter as FilterStatus)}
-        onPreview={handlePreviewTemplate}
-        onEdit={handleEditTemplate}
+        onUpdate={handleUpdateTemplate}
         onCopy={handleCopyTemplate}
+        onCopyToAccount={handleCopyToAccount}
+        onStatusChange={handleStatusChange}
+        searchQuery={searchQuery}
+        selectedCategory={selectedCategory}
+        selectedLanguage={selectedLanguage}
+        onSearchChange={setSearchQuery}
+        onCategoryChange={setSelectedCategory}
+        onLanguageChange={setSelectedLanguage}
         onDelete={(templateId) => {
           const template = allTemplates.find(t => t.id === templateId);
           if (template) {
@@ -311,7 +380,38 @@ const TemplateClient: React.FC = () => {
         }}
         onNextPage={handleNextPage}
         onPreviousPage={handlePreviousPage}
-    />
+        onLoadMore={handleLoadMore}
+      />
+    </div>
+  )
+}
+
+interface TemplateClientProps {
+  // "pages" (default) shows one page at a time with Previous/Next, "loadMore" appends pages to a virtualized grid
+  paginationMode?: PaginationMode;
+}
+
+const TemplateClient: React.FC<TemplateClientProps> = ({ paginationMode = 'pages' }) => {
+  const [accounts, setAccounts] = useState<WabaAccount[]>([])
+  const [accountsLoaded, setAccountsLoaded] = useState(false)
+
+  // Wait for the account list so templates are only fetched once, for the restored account.
+  // Without it the route handlers fall back to the server's default account.
+  useEffect(() => {
+    templateApi.get_WabaAccounts()
+      .then(setAccounts)
+      .catch(() => setAccounts([]))
+      .finally(() => setAccountsLoaded(true))
+  }, [])
+
+  if (!accountsLoaded) {
+    return null
+  }
+
+  return (
+    <WabaProvider accounts={accounts}>
+      <TemplateWorkspace paginationMode={paginationMode} />
+    </WabaProvider>
   )
 }
 
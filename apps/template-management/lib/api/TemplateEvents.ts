@@ -0,0 +1,57 @@
+import { TemplateStatusSource, TemplateStatusUpdate } from '@workspace/ui-template-management/lib/templateStatusWatcher';
+import { TemplateWebhookEvent } from '@workspace/ui-template-management/types/webhookTypes';
+
+type TemplateEventListener = (event: TemplateWebhookEvent) => void;
+
+/**
+ * Live template webhooks for one WABA, streamed by app/api/templates/events.
+ * One EventSource is shared by every listener and closed when the last one leaves.
+ * Also a push source for the status watcher, so webhook results show up as toasts without waiting for a poll.
+ */
+export class TemplateEventStream implements TemplateStatusSource {
+  private url: string;
+  private eventSource: EventSource | null = null;
+  private listeners: TemplateEventListener[] = [];
+
+  constructor(wabaId: string | null) {
+    this.url = wabaId ? `/api/templates/events?waba_id=${encodeURIComponent(wabaId)}` : '/api/templates/events';
+  }
+
+  onEvent(listener: TemplateEventListener): () => void {
+    this.listeners.push(listener);
+    this.connect();
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+      if (this.listeners.length === 0) this.close();
+    };
+  }
+
+  subscribe(onUpdate: (update: TemplateStatusUpdate) => void): () => void {
+    return this.onEvent((event) => {
+      if (event.type === 'message_template_status_update' && event.status) {
+        onUpdate({ id: event.templateId, status: event.status, reason: event.reason });
+      }
+    });
+  }
+
+  close(): void {
+    this.eventSource?.close();
+    this.eventSource = null;
+  }
+
+  private connect(): void {
+    if (this.eventSource || typeof EventSource === 'undefined') return;
+    // EventSource reconnects on its own after network errors
+    this.eventSource = new EventSource(this.url);
+    this.eventSource.onmessage = (message) => {
+      let event: TemplateWebhookEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch (error) {
+        console.error("Error parsing template event:", error);
+        return;
+      }
+      this.listeners.slice().forEach(listener => listener(event));
+    };
+  }
+}
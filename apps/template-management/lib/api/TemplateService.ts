@@ -1,20 +1,89 @@
 import axios from 'axios';
-import { CreateTemplatePayload, CreateTemplateResponse, GetAllTemplatesResponse, MessageTemplate } from '@workspace/ui-template-management/types/templateTypes';
+import { WabaAccount } from '@workspace/ui-template-management/context/WabaContext';
+import { CreateTemplatePayload, CreateTemplateResponse, GetAllTemplatesResponse, MessageTemplate, TemplateFilters, WhatsAppFlow } from '@workspace/ui-template-management/types/templateTypes';
 import { PaginationInfo } from '@workspace/ui-template-management/components/TemplateManager';
 import PayloadTransformer from '@workspace/ui-template-management/lib/payloadTransformer';
+import { fileUploadService } from '@workspace/ui-template-management/lib/fileUploadService';
 
-const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://graph.facebook.com/v23.0/';
-const WhatsappBusinessAccountId = process.env.NEXT_PUBLIC_WHATSAPP_BUSINESS_ACCOUNT_ID;
-const facebookAccessToken = process.env.NEXT_PUBLIC_FACEBOOK_ACCESS_TOKEN;
-
+// Calls go through the app's route handlers (app/api), which hold the Graph API token server-side
 const client = axios.create({
-  baseURL: BASE_URL,
+  baseURL: '/api',
   headers: {
-    'Authorization': `Bearer ${facebookAccessToken}`,
     'Content-Type': 'application/json',
   },
 });
 
+// Route handlers default to the server's first account when no WABA is selected
+let activeWabaId: string | null = null;
+
+client.interceptors.request.use((config) => {
+  // Calls made for another account (e.g. copying a template) set the header themselves
+  if (activeWabaId && !config.headers.has('X-WABA-ID')) {
+    config.headers.set('X-WABA-ID', activeWabaId);
+  }
+  return config;
+});
+
+/**
+ * Point every templateApi call at the given WhatsApp Business Account
+ */
+export const setActiveWabaId = (wabaId: string | null) => {
+  activeWabaId = wabaId;
+};
+
+/**
+ * Map list filters to the Graph API's query parameters, leaving out empty ones
+ */
+export const toTemplateFilterParams = (filters: TemplateFilters = {}): Record<string, string> => {
+  const params: Record<string, string> = {};
+  (Object.keys(filters) as (keyof TemplateFilters)[]).forEach((key) => {
+    const value = filters[key];
+    const values = (Array.isArray(value) ? value : [value]).map(v => v?.trim()).filter(Boolean);
+    if (values.length > 0) {
+      params[key] = values.join(',');
+    }
+  });
+  return params;
+};
+// Meta's user-facing message, the upload service shows the error message as is
+const toUploadError = (error: any): Error => {
+  const metaError = error?.response?.data?.error;
+  return new Error(metaError?.error_user_msg || metaError?.message || error?.message || String(error));
+};
+
+// Media samples go through the upload route handlers (app/api/uploads) as well
+fileUploadService.configure({
+  getPartnerConfig: async () => {
+    try {
+      const response = await client.get('/uploads');
+      return { partner_id: '', meta_app_id: response.data?.meta_app_id, meta_partner_config_id: '' };
+    } catch (error) {
+      throw toUploadError(error);
+    }
+  },
+  createUploadSession: async ({ fileName, fileType, fileLength, wabaId }) => {
+    try {
+      const response = await client.post('/uploads', { fileName, fileType, fileLength }, { headers: { 'X-WABA-ID': wabaId } });
+      return response.data;
+    } catch (error) {
+      throw toUploadError(error);
+    }
+  },
+  uploadFileData: async ({ wabaId, uploadSession, fileData, fileOffset }) => {
+    try {
+      const response = await client.post(`/uploads/${encodeURIComponent(uploadSession)}`, fileData, {
+        headers: {
+          'X-WABA-ID': wabaId,
+          'Content-Type': 'application/octet-stream',
+          file_offset: String(fileOffset || 0),
+        },
+      });
+      return response.data;
+    } catch (error) {
+      throw toUploadError(error);
+    }
+  },
+});
 
 interface ApiResponse {
   statuscode: number;
@@ -23,26 +92,14 @@ interface ApiResponse {
   paging?: PaginationInfo;
 }
 
-const getWabaId = (): string => {
-  if (!WhatsappBusinessAccountId) {
-    console.error("Missing WhatsApp Business Account ID in template-management.");
-    throw new Error("No WABA account available. Please ensure you have a WABA account configured.");
-  }
-  return WhatsappBusinessAccountId;
-};
-
 export const templateApi = {
-  get_MessageTemplates: async (cursor?: string, limit?: number, direction: 'forward' | 'backward' = 'forward'): Promise<GetAllTemplatesResponse | ApiResponse> => {
-    if (!WhatsappBusinessAccountId || !facebookAccessToken) {
-      console.error("Missing Facebook API credentials in template-management.");
-      throw new Error("Missing Facebook API credentials.");
-    }
-    
+  get_MessageTemplates: async (cursor?: string, limit?: number, direction: 'forward' | 'backward' = 'forward', filters?: TemplateFilters): Promise<GetAllTemplatesResponse | ApiResponse> => {
     try {
-      // Build query parameters
+      // Build query parameters, Meta applies the filters before paging so cursors stay valid for the filtered list
       const params: any = {
-        fields: 'name,category,status,id,language,components',
-        limit: limit || 50
+        fields: 'name,category,status,id,language,components,rejected_reason,quality_score,previous_category',
+        limit: limit || 50,
+        ...toTemplateFilterParams(filters)
       };
       
       if (cursor) {
@@ -54,7 +111,7 @@ export const templateApi = {
         }
       }
       
-      const response = await client.get(`/${WhatsappBusinessAccountId}/message_templates`, { params });
+      const response = await client.get('/templates', { params });
       
       // Safely extract data with fallbacks for different response structures
       const templates = response.data?.data?.data || response.data?.data || [];
@@ -82,13 +139,40 @@ export const templateApi = {
     }
   },
 
-  create_MessageTemplate: async (templateData: CreateTemplatePayload): Promise<CreateTemplateResponse | ApiResponse> => {
+  get_AllMessageTemplates: async (filters?: TemplateFilters): Promise<MessageTemplate[]> => {
+    const templates: MessageTemplate[] = [];
+    let cursor: string | undefined;
+
+    // Follow the after cursor until Meta stops returning a next page
+    do {
+      const page = await templateApi.get_MessageTemplates(cursor, 100, 'forward', filters) as ApiResponse;
+      templates.push(...(page.data || []));
+      cursor = page.paging?.next ? page.paging.cursors?.after : undefined;
+    } while (cursor);
+
+    return templates;
+  },
+
+  get_MessageTemplate: async (templateId: string): Promise<MessageTemplate> => {
+    try {
+      const response = await client.get(`/templates/${encodeURIComponent(templateId)}`);
+      return response.data;
+    } catch (error: any) {
+      console.error("Error fetching template via axios:", {
+        message: error?.message || String(error),
+        response: error?.response?.data,
+        status: error?.response?.status
+      });
+      throw error;
+    }
+  },
+
+  create_MessageTemplate: async (templateData: CreateTemplatePayload, wabaId?: string): Promise<CreateTemplateResponse | ApiResponse> => {
     try {
-      const wabaId = getWabaId();
       // Transform payload to Meta format
       const metaPayload = PayloadTransformer.transformToMeta(templateData);
       
-      const response = await client.post(`/${wabaId}/message_templates`, metaPayload);
+      const response = await client.post('/templates', metaPayload, wabaId ? { headers: { 'X-WABA-ID': wabaId } } : undefined);
       return {
         statuscode: response.status,
         response: response.data?.message || "Success",
@@ -105,10 +189,66 @@ export const templateApi = {
   },
 
 
+  edit_MessageTemplate: async (templateId: string, templateData: CreateTemplatePayload): Promise<{ success: boolean } | ApiResponse> => {
+    try {
+      // Transform payload to Meta format
+      const metaPayload = PayloadTransformer.transformToMeta(templateData);
+
+      // Name, language and category are fixed once a template exists, Meta only accepts new components
+      const editPayload: Record<string, any> = { components: metaPayload.components };
+      if (metaPayload.message_send_ttl_seconds !== undefined) {
+        editPayload.message_send_ttl_seconds = metaPayload.message_send_ttl_seconds;
+      }
+
+      const response = await client.post(`/templates/${encodeURIComponent(templateId)}`, editPayload);
+      return {
+        statuscode: response.status,
+        response: response.data?.message || "Success",
+        data: response.data?.data
+      };
+    } catch (error: any) {
+      console.error("Error editing template via axios:", {
+        message: error?.message || String(error),
+        response: error?.response?.data,
+        status: error?.response?.status
+      });
+      throw error;
+    }
+  },
+
+  get_Flows: async (): Promise<WhatsAppFlow[]> => {
+    try {
+      const response = await client.get('/flows');
+      const flows = response.data?.data || [];
+      return Array.isArray(flows) ? flows : [];
+    } catch (error: any) {
+      console.error("Error fetching flows via axios:", {
+        message: error?.message || String(error),
+        response: error?.response?.data,
+        status: error?.response?.status
+      });
+      throw error;
+    }
+  },
+
+  get_WabaAccounts: async (): Promise<WabaAccount[]> => {
+    try {
+      const response = await client.get('/accounts');
+      const accounts: { id: string; name?: string }[] = response.data?.data || [];
+      return accounts.map(account => ({ wabaId: account.id, name: account.name }));
+    } catch (error: any) {
+      console.error("Error fetching business accounts via axios:", {
+        message: error?.message || String(error),
+        response: error?.response?.data,
+        status: error?.response?.status
+      });
+      throw error;
+    }
+  },
+
   delete_MessageTemplate: async (templateName: string, templateId: string): Promise<{ success: boolean } | ApiResponse> => {
     try {
-      const wabaId = getWabaId();
-      const response = await client.delete(`/${wabaId}/message_templates`, {
+      const response = await client.delete('/templates', {
         params: {
           name: templateName,
           hsm_id: templateId,
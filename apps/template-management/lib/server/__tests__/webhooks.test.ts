@@ -0,0 +1,84 @@
+import { createHmac } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseTemplateWebhook } from '@workspace/ui-template-management/lib/templateWebhooks';
+import type { TemplateWebhookEvent } from '@workspace/ui-template-management/types/webhookTypes';
+import { verifyWebhookSignature } from '../webhooks';
+
+// The payloads scripts/replay-webhook.mjs posts to the webhook route
+const FIXTURES_DIR = new URL('../../../fixtures/webhooks/', import.meta.url);
+const SECRET = 'test-app-secret';
+
+const readFixture = (file: string) => readFileSync(new URL(file, FIXTURES_DIR), 'utf8');
+
+// Signed the way Meta signs a delivery, see verifyWebhookSignature
+const sign = (rawBody: string, secret = SECRET) => `sha256=${createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex')}`;
+
+const template = { wabaId: '102290129340398', templateId: '1689556908129832', name: 'order_confirmation', language: 'en_US' };
+
+const expectedEvents: Record<string, TemplateWebhookEvent[]> = {
+  'message_template_status_update.json': [
+    { type: 'message_template_status_update', ...template, timestamp: 1729243000, event: 'APPROVED', status: 'APPROVED' },
+  ],
+  'message_template_status_update_rejected.json': [
+    {
+      type: 'message_template_status_update',
+      ...template,
+      templateId: '1689556908129833',
+      name: 'summer_sale',
+      timestamp: 1729243120,
+      event: 'REJECTED',
+      status: 'REJECTED',
+      reason: 'INCORRECT_CATEGORY',
+    },
+  ],
+  'template_category_update.json': [
+    { type: 'template_category_update', ...template, timestamp: 1729243240, previousCategory: 'UTILITY', newCategory: 'MARKETING' },
+  ],
+  'message_template_quality_update.json': [
+    { type: 'message_template_quality_update', ...template, timestamp: 1729243360, previousQualityScore: 'GREEN', newQualityScore: 'YELLOW' },
+  ],
+};
+
+const fixtures = readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.json')).sort();
+
+describe('webhook fixtures', () => {
+  it('has expected events for every fixture', () => {
+    expect(fixtures).toEqual(Object.keys(expectedEvents).sort());
+  });
+
+  it.each(fixtures)('parses %s', (file) => {
+    expect(parseTemplateWebhook(JSON.parse(readFixture(file)))).toEqual(expectedEvents[file]);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  it.each(fixtures)('accepts the signature of %s', (file) => {
+    const rawBody = readFixture(file);
+    expect(verifyWebhookSignature(rawBody, sign(rawBody), SECRET)).toBe(true);
+  });
+
+  it.each(fixtures)('rejects a tampered %s', (file) => {
+    const rawBody = readFixture(file);
+    expect(verifyWebhookSignature(rawBody.replace('102290129340398', '102290129340399'), sign(rawBody), SECRET)).toBe(false);
+    // Re-serialized JSON is a different body, only the raw body matches
+    expect(verifyWebhookSignature(JSON.stringify(JSON.parse(rawBody)), sign(rawBody), SECRET)).toBe(false);
+  });
+
+  it('rejects a tampered header', () => {
+    const rawBody = readFixture(fixtures[0]!);
+    const signature = sign(rawBody);
+    const flipped = signature.slice(0, -1) + (signature.endsWith('0') ? '1' : '0');
+
+    expect(verifyWebhookSignature(rawBody, flipped, SECRET)).toBe(false);
+    expect(verifyWebhookSignature(rawBody, signature.slice(0, -1), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(rawBody, signature.replace('sha256=', 'sha1='), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(rawBody, sign(rawBody, 'another-secret'), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(rawBody, null, SECRET)).toBe(false);
+  });
+
+  it('rejects every request without an app secret', () => {
+    const rawBody = readFixture(fixtures[0]!);
+    expect(verifyWebhookSignature(rawBody, sign(rawBody), '')).toBe(false);
+  });
+});
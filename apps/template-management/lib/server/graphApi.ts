@@ -0,0 +1,131 @@
+import axios from 'axios';
+import { NextRequest, NextResponse } from 'next/server';
+import { MOCK_APP_ID, MOCK_WABA_ACCOUNTS, mockGraphAdapter } from './mockGraphApi';
+
+// Server-only configuration, never prefix these with NEXT_PUBLIC_ or the token ends up in the browser bundle
+const BASE_URL = process.env.GRAPH_API_BASE_URL || 'https://graph.facebook.com/v23.0/';
+const WhatsappBusinessAccountId = process.env.WHATSAPP_BUSINESS_ACCOUNT_ID;
+// Extra accounts the same token manages, comma separated
+const WhatsappBusinessAccountIds = process.env.WHATSAPP_BUSINESS_ACCOUNT_IDS;
+const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+// Meta app that owns the resumable upload sessions for media samples
+const appId = process.env.WHATSAPP_APP_ID;
+// Answer every Graph API call from an in-memory mock, so the app runs offline without credentials
+export const isGraphApiMocked = process.env.GRAPH_API_MOCK === 'true';
+
+export const graphClient = axios.create({
+  baseURL: BASE_URL,
+  headers: {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  },
+  ...(isGraphApiMocked ? { adapter: mockGraphAdapter } : {}),
+});
+
+/**
+ * Error raised before a Graph API call when the server is not configured
+ */
+export class GraphConfigurationError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 500) {
+    super(message);
+    this.name = 'GraphConfigurationError';
+    this.status = status;
+  }
+}
+
+// Header the browser uses to pick one of the configured accounts
+export const WABA_ID_HEADER = 'x-waba-id';
+
+/**
+ * All WABA IDs this server may act on, the default account first
+ */
+export const getWabaIds = (): string[] => {
+  const ids = [WhatsappBusinessAccountId, ...(WhatsappBusinessAccountIds || '').split(',')]
+    .map(id => id?.trim())
+    .filter((id): id is string => !!id);
+  if (ids.length === 0 && isGraphApiMocked) {
+    return MOCK_WABA_ACCOUNTS.map(account => account.id);
+  }
+  return ids.filter((id, index) => ids.indexOf(id) === index);
+};
+
+/**
+ * Resolve the WABA a request targets. Requests without the header use the default account,
+ * and only configured accounts are accepted so the token can't be pointed at arbitrary IDs.
+ */
+export const getWabaId = (request?: NextRequest): string => {
+  const wabaIds = getWabaIds();
+  if (wabaIds.length === 0 || (!accessToken && !isGraphApiMocked)) {
+    console.error("Missing WhatsApp Business Account ID or access token in template-management.");
+    throw new GraphConfigurationError("Missing Facebook API credentials.");
+  }
+
+  const requestedWabaId = request?.headers.get(WABA_ID_HEADER);
+  if (!requestedWabaId) {
+    return wabaIds[0]!;
+  }
+  if (!wabaIds.includes(requestedWabaId)) {
+    throw new GraphConfigurationError(`WhatsApp Business Account ${requestedWabaId} is not configured.`, 403);
+  }
+  return requestedWabaId;
+};
+
+// Graph object IDs are numeric, anything else (edges, upload sessions, paths) is rejected before a call
+const GRAPH_ID_PATTERN = /^\d+$/;
+
+/**
+ * Make sure an ID from the browser is a message template of the given WABA.
+ * Routes taking a template ID call this first, otherwise the server token could read or post to any Graph object.
+ */
+export const assertTemplateOfWaba = async (wabaId: string, templateId: string): Promise<void> => {
+  if (!GRAPH_ID_PATTERN.test(templateId)) {
+    throw new GraphConfigurationError('Invalid template ID.', 400);
+  }
+
+  // The name narrows the template list down to a few entries to look for the ID in
+  const { data: template } = await graphClient.get(`/${templateId}`, { params: { fields: 'id,name' } });
+  let after: string | undefined;
+  do {
+    const { data: page } = await graphClient.get(`/${wabaId}/message_templates`, {
+      params: { fields: 'id', name: template?.name, limit: 100, ...(after ? { after } : {}) },
+    });
+    if ((page?.data || []).some((entry: { id?: string }) => entry.id === templateId)) return;
+    after = page?.paging?.next ? page.paging.cursors?.after : undefined;
+  } while (after);
+
+  throw new GraphConfigurationError(`Template ${templateId} does not belong to WhatsApp Business Account ${wabaId}.`, 404);
+};
+
+/**
+ * Meta app ID for upload sessions
+ */
+export const getAppId = (): string => {
+  const id = appId || (isGraphApiMocked ? MOCK_APP_ID : undefined);
+  if (!id) {
+    throw new GraphConfigurationError("Missing WHATSAPP_APP_ID, media samples can't be uploaded.");
+  }
+  return id;
+};
+
+/**
+ * Turn a failed Graph API call into a response the browser can handle.
+ * Meta's error body and status are passed through so the UI can show error_user_title/error_user_msg.
+ */
+export const toErrorResponse = (error: any, action: string): NextResponse => {
+  if (error instanceof GraphConfigurationError) {
+    return NextResponse.json({ error: { message: error.message } }, { status: error.status });
+  }
+
+  console.error(`Error ${action} via Graph API:`, {
+    message: error?.message || String(error),
+    response: error?.response?.data,
+    status: error?.response?.status,
+  });
+
+  return NextResponse.json(
+    error?.response?.data || { error: { message: error?.message || String(error) } },
+    { status: error?.response?.status || 500 }
+  );
+};
@@ -0,0 +1,431 @@
+/**
+ * In-memory Graph API for offline development and tests, enabled with GRAPH_API_MOCK=true.
+ * Plugged into graphClient as an axios adapter, so the route handlers run unchanged.
+ * Templates live as long as the server process and submitted ones are "reviewed" after MOCK_REVIEW_DELAY_MS:
+ * approved, or rejected when the name contains "reject".
+ */
+
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export const MOCK_WABA_ACCOUNTS = [
+  { id: '100000000000001', name: 'Mock Business' },
+  { id: '100000000000002', name: 'Mock Business (Second)' },
+];
+export const MOCK_APP_ID = '200000000000001';
+
+const REVIEW_DELAY_MS = Number(process.env.MOCK_REVIEW_DELAY_MS) || 20000;
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9_]+$/;
+const CATEGORIES = ['MARKETING', 'UTILITY', 'AUTHENTICATION'];
+const EDITABLE_STATUSES = ['APPROVED', 'REJECTED', 'PAUSED'];
+const UPLOAD_FILE_TYPES = ['image/jpeg', 'image/png', 'video/mp4', 'application/pdf'];
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+interface MockTemplate {
+  id: string;
+  name: string;
+  language: string;
+  category: string;
+  status: string;
+  components: any[];
+  rejected_reason: string;
+  quality_score: { score: string; date?: number };
+  parameter_format?: string;
+  message_send_ttl_seconds?: number;
+  submittedAt: number;
+}
+
+interface MockUploadSession {
+  fileName: string;
+  fileType: string;
+  fileLength: number;
+  fileOffset: number;
+}
+
+interface MockState {
+  templates: Record<string, MockTemplate[]>;
+  uploads: Record<string, MockUploadSession>;
+  nextId: number;
+}
+
+// Kept on globalThis so dev reloads of the route modules share one store
+const globalForMock = globalThis as unknown as { mockGraphState?: MockState };
+const state: MockState = globalForMock.mockGraphState ?? { templates: {}, uploads: {}, nextId: 900000000000001 };
+globalForMock.mockGraphState = state;
+
+const createId = () => String(state.nextId++);
+
+// #region ERRORS
+class MockGraphError extends Error {
+  status: number;
+  body: Record<string, unknown>;
+
+  constructor(status: number, body: Record<string, unknown>) {
+    super(String(body.message));
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Error in the shape Meta returns, with the title and message the UI shows to the user
+ */
+const invalidParameter = (userTitle: string, userMessage: string, subcode?: number) =>
+  new MockGraphError(400, {
+    message: 'Invalid parameter',
+    type: 'OAuthException',
+    code: 100,
+    ...(subcode ? { error_subcode: subcode } : {}),
+    is_transient: false,
+    error_user_title: userTitle,
+    error_user_msg: userMessage,
+    fbtrace_id: `Mock${Date.now().toString(36)}`,
+  });
+
+const unknownObject = (id: string) =>
+  new MockGraphError(400, {
+    message: `Unsupported get request. Object with ID '${id}' does not exist, cannot be loaded due to missing permissions, or does not support this operation.`,
+    type: 'GraphMethodException',
+    code: 100,
+    error_subcode: 33,
+    fbtrace_id: `Mock${Date.now().toString(36)}`,
+  });
+// #endregion
+
+// #region SEED DATA
+const seedTemplates = (wabaId: string): MockTemplate[] => {
+  const approved = (name: string, category: string, components: any[], score = 'GREEN'): MockTemplate => ({
+    id: createId(),
+    name,
+    language: 'en_US',
+    category,
+    status: 'APPROVED',
+    components,
+    rejected_reason: 'NONE',
+    quality_score: { score },
+    parameter_format: 'positional',
+    submittedAt: 0,
+  });
+
+  return [
+    approved('order_confirmation', 'UTILITY', [
+      { type: 'HEADER', format: 'TEXT', text: 'Order confirmed' },
+      {
+        type: 'BODY',
+        text: 'Hi {{1}}, your order {{2}} is confirmed and will ship within {{3}} days.',
+        example: { body_text: [['Maria', '#10452', '2']] },
+      },
+      { type: 'FOOTER', text: 'Reply STOP to opt out' },
+      {
+        type: 'BUTTONS',
+        buttons: [{ type: 'URL', text: 'Track order', url: 'https://example.com/orders/{{1}}', example: ['https://example.com/orders/10452'] }],
+      },
+    ]),
+    approved('spring_sale', 'MARKETING', [
+      { type: 'BODY', text: 'Our spring sale starts today with up to 30% off. Use code {{1}} at checkout.', example: { body_text: [['SPRING30']] } },
+      { type: 'BUTTONS', buttons: [{ type: 'QUICK_REPLY', text: 'Stop promotions' }] },
+    ], 'YELLOW'),
+    approved('login_code', 'AUTHENTICATION', [
+      { type: 'BODY', text: '*{{1}}* is your verification code.', add_security_recommendation: true, example: { body_text: [['123456']] } },
+      { type: 'FOOTER', text: 'This code expires in 10 minutes.', code_expiration_minutes: 10 },
+      { type: 'BUTTONS', buttons: [{ type: 'OTP', otp_type: 'COPY_CODE', text: 'Copy code' }] },
+    ]),
+    {
+      id: createId(),
+      name: 'appointment_reminder',
+      language: 'en_US',
+      category: 'UTILITY',
+      status: 'REJECTED',
+      components: [{ type: 'BODY', text: '{{1}} see you tomorrow!', example: { body_text: [['Sam']] } }],
+      rejected_reason: 'INVALID_FORMAT',
+      quality_score: { score: 'UNKNOWN' },
+      submittedAt: 0,
+    },
+  ].map(template => ({ ...template, name: wabaId === MOCK_WABA_ACCOUNTS[0]!.id ? template.name : `${template.name}_b` }));
+};
+
+const getTemplates = (wabaId: string): MockTemplate[] => {
+  if (!state.templates[wabaId]) {
+    state.templates[wabaId] = seedTemplates(wabaId);
+  }
+  return state.templates[wabaId]!;
+};
+
+/**
+ * Finish the simulated review of templates submitted long enough ago
+ */
+const review = (template: MockTemplate): MockTemplate => {
+  if (template.status === 'PENDING' && Date.now() - template.submittedAt >= REVIEW_DELAY_MS) {
+    const rejected = template.name.includes('reject');
+    template.status = rejected ? 'REJECTED' : 'APPROVED';
+    template.rejected_reason = rejected ? 'INVALID_FORMAT' : 'NONE';
+  }
+  return template;
+};
+
+const findTemplate = (templateId: string) => {
+  const wabaIds = Object.keys(state.templates);
+  for (let i = 0; i < wabaIds.length; i++) {
+    const template = state.templates[wabaIds[i]!]!.find(t => t.id === templateId);
+    if (template) return review(template);
+  }
+  return undefined;
+};
+
+const toResponseTemplate = ({ submittedAt, ...template }: MockTemplate) => template;
+// #endregion
+
+// #region VALIDATION
+const countVariables = (text: string) => (text.match(/\{\{[^}]+\}\}/g) || []).length;
+
+/**
+ * The checks Meta most often fails a submission on, with its user-facing wording
+ */
+const validateComponents = (components: unknown) => {
+  if (!Array.isArray(components) || components.length === 0) {
+    throw invalidParameter('Missing template components', 'Add a body to your message template.');
+  }
+
+  const body = components.find((c: any) => c?.type === 'BODY');
+  if (!body?.text) {
+    throw invalidParameter('Message template body is missing', 'Add text to the body of your message template.');
+  }
+  if (body.text.length > 1024) {
+    throw invalidParameter('Body text is too long', 'The body of your message template can have up to 1,024 characters.');
+  }
+  const trimmed = body.text.trim();
+  if (/^\{\{[^}]+\}\}/.test(trimmed) || /\{\{[^}]+\}\}$/.test(trimmed)) {
+    throw invalidParameter(
+      'Variables can\'t be at the start or end of the template',
+      'Variables can\'t be at the start or end of your message template. Add text before and after each variable.'
+    );
+  }
+  const variables = countVariables(body.text);
+  if (variables > 0 && (body.example?.body_text?.[0]?.length || 0) < variables && !body.example?.body_text_named_params) {
+    throw invalidParameter(
+      'Missing variable samples',
+      `Your message template body has ${variables} variable(s). Add a sample value for each variable.`
+    );
+  }
+
+  const header = components.find((c: any) => c?.type === 'HEADER');
+  if (header?.format === 'TEXT' && (header.text || '').length > 60) {
+    throw invalidParameter('Header text is too long', 'The header of your message template can have up to 60 characters.');
+  }
+  const footer = components.find((c: any) => c?.type === 'FOOTER');
+  if (footer?.text && footer.text.length > 60) {
+    throw invalidParameter('Footer text is too long', 'The footer of your message template can have up to 60 characters.');
+  }
+  const buttons = components.find((c: any) => c?.type === 'BUTTONS');
+  if (buttons && (buttons.buttons || []).length > 10) {
+    throw invalidParameter('Too many buttons', 'Your message template can have up to 10 buttons.');
+  }
+};
+
+const validateCreatePayload = (wabaId: string, payload: any) => {
+  if (!payload?.name || !TEMPLATE_NAME_PATTERN.test(payload.name) || payload.name.length > 512) {
+    throw invalidParameter(
+      'Invalid template name',
+      'Template names can only contain lowercase letters, numbers and underscores.'
+    );
+  }
+  if (!payload.language) {
+    throw invalidParameter('Missing language', 'Select the language of your message template.');
+  }
+  if (!CATEGORIES.includes(payload.category)) {
+    throw invalidParameter('Invalid category', 'Select Marketing, Utility or Authentication as the category.');
+  }
+  if (getTemplates(wabaId).some(t => t.name === payload.name && t.language === payload.language)) {
+    throw invalidParameter(
+      'Content in This Language Already Exists',
+      `There is already ${payload.language} content for this template. Create a new template and try again.`,
+      2388024
+    );
+  }
+  validateComponents(payload.components);
+};
+// #endregion
+
+// #region HANDLERS
+const listTemplates = (wabaId: string, params: Record<string, any>) => {
+  const matches = (value: string, filter?: string) => !filter || filter.split(',').includes(value);
+  const templates = getTemplates(wabaId)
+    .map(review)
+    .filter(t => !params.name || t.name.includes(params.name))
+    .filter(t => matches(t.status, params.status))
+    .filter(t => matches(t.category, params.category))
+    .filter(t => matches(t.language, params.language))
+    .filter(t => matches(t.quality_score.score, params.quality_score));
+
+  // Cursors are opaque to the browser, here they are just the encoded position
+  const limit = Math.max(1, Math.min(Number(params.limit) || 25, 100));
+  const decode = (cursor: string) => Number(Buffer.from(cursor, 'base64').toString('utf8'));
+  const encode = (index: number) => Buffer.from(String(index), 'utf8').toString('base64');
+  const start = params.after
+    ? decode(params.after) + 1
+    : params.before
+      ? Math.max(0, decode(params.before) - limit)
+      : 0;
+  const page = templates.slice(start, start + limit);
+  const end = start + page.length - 1;
+
+  const pageUrl = (cursor: Record<string, string>) =>
+    `https://graph.facebook.com/mock/${wabaId}/message_templates?${new URLSearchParams({ ...params, ...cursor, limit: String(limit) })}`;
+
+  return {
+    data: page.map(toResponseTemplate),
+    paging: page.length > 0
+      ? {
+          cursors: { before: encode(start), after: encode(end) },
+          ...(end < templates.length - 1 ? { next: pageUrl({ after: encode(end) }) } : {}),
+          ...(start > 0 ? { previous: pageUrl({ before: encode(start) }) } : {}),
+        }
+      : { cursors: { before: '', after: '' } },
+  };
+};
+
+const createTemplate = (wabaId: string, payload: any) => {
+  validateCreatePayload(wabaId, payload);
+  const template: MockTemplate = {
+    id: createId(),
+    name: payload.name,
+    language: payload.language,
+    category: payload.category,
+    status: 'PENDING',
+    components: payload.components,
+    rejected_reason: 'NONE',
+    quality_score: { score: 'UNKNOWN' },
+    parameter_format: payload.parameter_format,
+    message_send_ttl_seconds: payload.message_send_ttl_seconds,
+    submittedAt: Date.now(),
+  };
+  getTemplates(wabaId).push(template);
+  return { id: template.id, status: template.status, category: template.category };
+};
+
+const editTemplate = (templateId: string, payload: any) => {
+  const template = findTemplate(templateId);
+  if (!template) throw unknownObject(templateId);
+  if (!EDITABLE_STATUSES.includes(template.status)) {
+    throw invalidParameter(
+      'Message template can\'t be edited',
+      `Templates with the status ${template.status} can't be edited. Wait until the review is finished and try again.`
+    );
+  }
+  validateComponents(payload?.components);
+
+  template.components = payload.components;
+  if (payload.message_send_ttl_seconds !== undefined) {
+    template.message_send_ttl_seconds = payload.message_send_ttl_seconds;
+  }
+  template.status = 'PENDING';
+  template.rejected_reason = 'NONE';
+  template.submittedAt = Date.now();
+  return { success: true };
+};
+
+const deleteTemplate = (wabaId: string, params: Record<string, any>) => {
+  const templates = getTemplates(wabaId);
+  const remaining = templates.filter(t => t.name !== params.name || (params.hsm_id && t.id !== params.hsm_id));
+  if (remaining.length === templates.length) {
+    throw invalidParameter('Message template not found', `There is no message template named ${params.name}.`);
+  }
+  state.templates[wabaId] = remaining;
+  return { success: true };
+};
+
+const createUploadSession = (params: Record<string, any>) => {
+  const fileLength = Number(params.file_length);
+  if (!UPLOAD_FILE_TYPES.includes(params.file_type)) {
+    throw invalidParameter('Unsupported file type', `Files of type ${params.file_type} can't be used as template samples.`);
+  }
+  if (!fileLength || fileLength > MAX_UPLOAD_BYTES) {
+    throw invalidParameter('Invalid file size', 'The sample file is empty or larger than 100 MB.');
+  }
+  const id = `upload:${Buffer.from(`mock:${createId()}`, 'utf8').toString('base64')}`;
+  state.uploads[id] = { fileName: params.file_name, fileType: params.file_type, fileLength, fileOffset: 0 };
+  return { id };
+};
+
+const uploadFileData = (sessionId: string, data: unknown, headers: AxiosHeaders) => {
+  const session = state.uploads[sessionId];
+  if (!session) throw unknownObject(sessionId);
+
+  const offset = Number(headers.get('file_offset') || 0);
+  if (offset !== session.fileOffset) {
+    throw invalidParameter('Invalid file offset', `The upload should resume at offset ${session.fileOffset}.`);
+  }
+  const length = Buffer.isBuffer(data) || data instanceof ArrayBuffer ? data.byteLength : String(data ?? '').length;
+  session.fileOffset += length;
+  if (session.fileOffset < session.fileLength) {
+    return { id: sessionId, file_offset: session.fileOffset };
+  }
+  return { h: `4::${Buffer.from(`${session.fileType}:${session.fileName}`, 'utf8').toString('base64')}:mock${createId()}` };
+};
+
+const route = (method: string, path: string[], params: Record<string, any>, data: any, headers: AxiosHeaders): unknown => {
+  const [id, edge] = path;
+  if (!id) throw unknownObject('');
+
+  if (edge === 'message_templates') {
+    if (method === 'get') return listTemplates(id, params);
+    if (method === 'post') return createTemplate(id, data);
+    if (method === 'delete') return deleteTemplate(id, params);
+  }
+  if (edge === 'flows' && method === 'get') {
+    return {
+      data: [
+        { id: `${id}1`, name: 'Appointment booking', status: 'PUBLISHED' },
+        { id: `${id}2`, name: 'Lead capture', status: 'DRAFT' },
+      ],
+    };
+  }
+  if (edge === 'uploads' && method === 'post') return createUploadSession(params);
+
+  if (!edge) {
+    if (id.startsWith('upload:')) {
+      if (method === 'post') return uploadFileData(id, data, headers);
+      if (method === 'get') return { id, file_offset: state.uploads[id]?.fileOffset ?? 0 };
+    }
+    const account = MOCK_WABA_ACCOUNTS.find(a => a.id === id);
+    if (account && method === 'get') return account;
+    if (method === 'get') {
+      const template = findTemplate(id);
+      if (template) return toResponseTemplate(template);
+    }
+    if (method === 'post') return editTemplate(id, data);
+  }
+  throw unknownObject(id);
+};
+// #endregion
+
+/**
+ * axios adapter answering graphClient requests from the in-memory store
+ */
+export const mockGraphAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  const method = (config.method || 'get').toLowerCase();
+  const path = (config.url || '').split('?')[0]!.split('/').filter(Boolean).map(decodeURIComponent);
+  let data = config.data;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      // Binary upload data sent as a string
+    }
+  }
+
+  const respond = (status: number, body: unknown): AxiosResponse => ({
+    data: body,
+    status,
+    statusText: status === 200 ? 'OK' : 'Bad Request',
+    headers: {},
+    config,
+  });
+
+  try {
+    return respond(200, route(method, path, config.params || {}, data, AxiosHeaders.from(config.headers)));
+  } catch (error) {
+    if (!(error instanceof MockGraphError)) throw error;
+    const response = respond(error.status, { error: error.body });
+    throw new AxiosError(error.message, AxiosError.ERR_BAD_REQUEST, config, null, response);
+  }
+};
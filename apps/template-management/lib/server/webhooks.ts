@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import type { TemplateWebhookEvent } from '@workspace/ui-template-management/types/webhookTypes';
+
+// Server-only configuration from the Meta app's WhatsApp webhook settings
+const appSecret = process.env.WHATSAPP_APP_SECRET;
+const verifyToken = process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN;
+
+export const SIGNATURE_HEADER = 'x-hub-signature-256';
+
+/**
+ * Check the X-Hub-Signature-256 header, an HMAC-SHA256 of the raw body keyed with the app secret.
+ * The raw body has to be used, re-serialized JSON won't match.
+ */
+export const verifyWebhookSignature = (rawBody: string, signature: string | null, secret: string | undefined = appSecret): boolean => {
+  if (!secret || !signature?.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex'), 'utf8');
+  const received = Buffer.from(signature.slice('sha256='.length), 'utf8');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+/**
+ * Answer Meta's subscription check: echo hub.challenge when hub.verify_token matches the configured token
+ */
+export const handleVerificationRequest = (searchParams: URLSearchParams, token: string | undefined = verifyToken): NextResponse => {
+  const mode = searchParams.get('hub.mode');
+  const challenge = searchParams.get('hub.challenge');
+
+  if (mode === 'subscribe' && token && searchParams.get('hub.verify_token') === token && challenge) {
+    return new NextResponse(challenge, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+  }
+  return NextResponse.json({ error: { message: 'Webhook verification failed.' } }, { status: 403 });
+};
+
+// #region EVENT HUB
+type TemplateEventListener = (event: TemplateWebhookEvent) => void;
+
+// Kept on globalThis so dev reloads of this module share listeners with open streams.
+// Events only reach clients connected to the same server instance.
+const globalForEvents = globalThis as unknown as { templateEventListeners?: Set<TemplateEventListener> };
+const listeners = globalForEvents.templateEventListeners ?? new Set<TemplateEventListener>();
+globalForEvents.templateEventListeners = listeners;
+
+export const publishTemplateEvents = (events: TemplateWebhookEvent[]): void => {
+  events.forEach((event) => {
+    listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error delivering template event:', error);
+      }
+    });
+  });
+};
+
+export const subscribeToTemplateEvents = (listener: TemplateEventListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+// #endregion
@@ -0,0 +1,23 @@
+// Post a recorded webhook payload to the local webhook route, signed like Meta signs it.
+// Usage: WHATSAPP_APP_SECRET=... node scripts/replay-webhook.mjs <fixture.json> [url]
+import { createHmac } from "crypto"
+import { readFileSync } from "fs"
+import process from "process"
+
+const [fixture, url = "http://localhost:3000/api/webhooks"] = process.argv.slice(2)
+const secret = process.env.WHATSAPP_APP_SECRET
+
+if (!fixture || !secret) {
+  console.error("Usage: WHATSAPP_APP_SECRET=... node scripts/replay-webhook.mjs <fixture.json> [url]")
+  process.exit(1)
+}
+
+const body = readFileSync(fixture, "utf8")
+const signature = `sha256=${createHmac("sha256", secret).update(body, "utf8").digest("hex")}`
+
+const response = await fetch(url, {
+  method: "POST",
+  headers: { "Content-Type": "application/json", "X-Hub-Signature-256": signature },
+  body,
+})
+console.log(response.status, await response.text())
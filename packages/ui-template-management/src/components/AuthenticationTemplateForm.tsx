@@ -32,6 +32,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@workspace/ui-core/components/select";
+import { fieldPath, fieldPathProps } from "../lib/fieldPaths";
 
 const validatePackageName = (name: string, dict: any): string | undefined => {
   if (name.length > 224) return dict.validation.maxCharacters;
@@ -50,9 +51,13 @@ const validateSignatureHash = (hash: string, dict: any): string | undefined => {
   return undefined;
 };
 
+const buttonPath = (index: number, ...segments: (string | number)[]) =>
+  fieldPath("components", "BUTTONS", "buttons", index, ...segments);
+
 interface AuthenticationTemplateFormProps {
   onChange: (components: AuthTemplateComponent[], isValid: boolean) => void;
   dictionary?: any;
+  initialComponents?: AuthTemplateComponent[]; // Pre-fills the form when editing an existing template
 }
 
 type AppErrors = {
@@ -63,6 +68,7 @@ type AppErrors = {
 const AuthenticationTemplateForm: React.FC<AuthenticationTemplateFormProps> = ({
   onChange,
   dictionary,
+  initialComponents,
 }) => {
   // Use dictionary with fallback to English text
   const dict = dictionary?.authentication || {
@@ -103,12 +109,19 @@ const AuthenticationTemplateForm: React.FC<AuthenticationTemplateFormProps> = ({
       invalidCharacters: "Invalid characters. Use A-Z, a-z, 0-9, +, /, or =.",
     },
   };
-  const [body, setBody] = useState<AuthBodyComponent>({
-    type: "BODY",
-    add_security_recommendation: false,
-  });
-  const [footer, setFooter] = useState<AuthFooterComponent | null>(null);
-  const [buttons, setButtons] = useState<AuthButtonsComponent | null>(null);
+  const [body, setBody] = useState<AuthBodyComponent>(
+    () =>
+      (initialComponents?.find((c) => c.type === "BODY") as AuthBodyComponent | undefined) || {
+        type: "BODY",
+        add_security_recommendation: false,
+      }
+  );
+  const [footer, setFooter] = useState<AuthFooterComponent | null>(
+    () => (initialComponents?.find((c) => c.type === "FOOTER") as AuthFooterComponent | undefined) || null
+  );
+  const [buttons, setButtons] = useState<AuthButtonsComponent | null>(
+    () => (initialComponents?.find((c) => c.type === "BUTTONS") as AuthButtonsComponent | undefined) || null
+  );
   const [appErrors, setAppErrors] = useState<AppErrors[][]>([]);
 
   useEffect(() => {
@@ -225,6 +238,7 @@ const AuthenticationTemplateForm: React.FC<AuthenticationTemplateFormProps> = ({
           <div className="flex items-center space-x-2">
             <Checkbox
               id="security-recommendation"
+              {...fieldPathProps(fieldPath("components", "BODY", "add_security_recommendation"))}
               checked={body.add_security_recommendation}
               onCheckedChange={(checked) =>
                 setBody({ ...body, add_security_recommendation: !!checked })
@@ -337,7 +351,7 @@ const AuthenticationTemplateForm: React.FC<AuthenticationTemplateFormProps> = ({
                     value: "copy_code" | "one_tap" | "zero_tap"
                   ) => handleButtonTypeChange(index, value)}
                 >
-                  <SelectTrigger>
+                  <SelectTrigger {...fieldPathProps(buttonPath(index, "otp_type"))}>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
@@ -420,6 +434,10 @@ const AuthenticationTemplateForm: React.FC<AuthenticationTemplateFormProps> = ({
                                 </Label>
                                 <Input
                                   id={`pkg-name-${index}-${appIndex}`}
+                                  {...fieldPathProps(
+                                    buttonPath(index, "supported_apps", appIndex, "package_name"),
+                                    errors.packageName
+                                  )}
                                   placeholder={dict.packageNamePlaceholder}
                                   maxLength={224}
                                   value={app.package_name}
@@ -462,6 +480,10 @@ const AuthenticationTemplateForm: React.FC<AuthenticationTemplateFormProps> = ({
                                 </Label>
                                 <Input
                                   id={`sig-hash-${index}-${appIndex}`}
+                                  {...fieldPathProps(
+                                    buttonPath(index, "supported_apps", appIndex, "signature_hash"),
+                                    errors.signatureHash
+                                  )}
                                   placeholder={dict.signatureHashPlaceholder}
                                   maxLength={11}
                                   value={app.signature_hash}
@@ -525,6 +547,7 @@ const AuthenticationTemplateForm: React.FC<AuthenticationTemplateFormProps> = ({
                   <div className="flex items-center space-x-2 pt-2">
                     <Checkbox
                       id={`zero-tap-terms-${index}`}
+                      {...fieldPathProps(buttonPath(index, "zero_tap_terms_accepted"))}
                       checked={button.zero_tap_terms_accepted}
                       onCheckedChange={(checked) =>
                         updateAuthButton(index, {
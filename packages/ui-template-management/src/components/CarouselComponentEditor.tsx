@@ -0,0 +1,482 @@
+"use client";
+
+import React, { useState } from 'react';
+import type { BodyComponent, CarouselComponent, MediaCarouselButton, MediaCarouselCard } from '../types/templateTypes';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@workspace/ui-core/components/card';
+import { Button } from '@workspace/ui-core/components/button';
+import { Input } from '@workspace/ui-core/components/input';
+import { Label } from '@workspace/ui-core/components/label';
+import { Textarea } from '@workspace/ui-core/components/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@workspace/ui-core/components/select';
+import { Trash2, Loader2, ChevronUp, ChevronDown, PlusCircle } from 'lucide-react';
+import { fileUploadService, FileUploadService } from '../lib/fileUploadService';
+import { useWabaId } from '../hooks/useWabaId';
+import { fieldPath, fieldPathProps, findFieldError } from '../lib/fieldPaths';
+import { DEFAULT_VALIDATION_LIMITS } from '../lib/metaTemplateRules';
+import type { ValidationLimits } from '../lib/validationRules';
+
+const CARDS_PATH = fieldPath('components', 'CAROUSEL', 'cards');
+const cardPath = (cardIndex: number, ...segments: (string | number)[]) => fieldPath(CARDS_PATH, cardIndex, 'components', ...segments);
+
+const MEDIA_ACCEPT = {
+    IMAGE: 'image/jpeg,image/png,image/jpg',
+    VIDEO: 'video/mp4',
+};
+
+type CardMediaFormat = keyof typeof MEDIA_ACCEPT;
+type CardButtonType = MediaCarouselButton['type'];
+
+const BUTTON_TYPE_LABELS: Record<CardButtonType, string> = {
+    QUICK_REPLY: 'Quick Reply',
+    URL: 'Visit Website (URL)',
+    PHONE_NUMBER: 'Call Phone Number',
+};
+
+interface CarouselComponentEditorProps {
+    component: CarouselComponent;
+    index: number;
+    updateComponent: (index: number, component: CarouselComponent) => void;
+    removeComponent: (index: number) => void;
+    errors?: Record<string, string>; // Keyed by field path, see lib/fieldPaths
+    disabled?: boolean;
+    limits?: ValidationLimits; // Limits of the active rule set for the card count, card buttons and card body
+}
+
+const createCardButton = (type: CardButtonType): MediaCarouselButton => {
+    switch (type) {
+        case 'URL':
+            return { type: 'URL', text: '', url: '' };
+        case 'PHONE_NUMBER':
+            return { type: 'PHONE_NUMBER', text: '', phone_number: '' };
+        default:
+            return { type: 'QUICK_REPLY', text: '' };
+    }
+};
+
+/**
+ * Create an empty media card. New cards copy the header format and button layout of the carousel.
+ */
+export const createCarouselCard = (
+    format: CardMediaFormat = 'IMAGE',
+    buttonTypes: CardButtonType[] = ['QUICK_REPLY']
+): MediaCarouselCard => ({
+    components: [
+        { type: 'HEADER', format, example: { header_handle: [''] } },
+        { type: 'BODY', text: '' },
+        { type: 'BUTTONS', buttons: buttonTypes.map(createCardButton) },
+    ],
+});
+
+const getCardBody = (card: MediaCarouselCard) =>
+    card.components.find(c => c.type === 'BODY') as BodyComponent | undefined;
+
+const getCardButtons = (card: MediaCarouselCard): MediaCarouselButton[] => {
+    const buttons = card.components.find(c => c.type === 'BUTTONS');
+    return buttons && 'buttons' in buttons ? buttons.buttons : [];
+};
+
+const getCardMediaHandle = (card: MediaCarouselCard): string => {
+    const header = card.components.find(c => c.type === 'HEADER');
+    return header && 'example' in header && header.example && 'header_handle' in header.example
+        ? header.example.header_handle[0]
+        : '';
+};
+
+/**
+ * Keep the body examples in sync with the variables used in the card text
+ */
+const syncBodyExamples = (body: BodyComponent, text: string): BodyComponent => {
+    const positional = Array.from(new Set(text.match(/{{(\d+)}}/g) || []));
+    const named = Array.from(new Set(text.match(/{{([A-Za-z_]\w*)}}/g) || [])).map(v => v.replace(/{|}/g, ''));
+
+    if (positional.length > 0) {
+        const existing = body.example?.body_text?.[0] || [];
+        return { type: 'BODY', text, example: { body_text: [positional.map((_, i) => existing[i] || '')] } };
+    }
+    if (named.length > 0) {
+        const existing = body.example?.body_text_named_params || [];
+        return {
+            type: 'BODY',
+            text,
+            example: {
+                body_text_named_params: named.map(name => existing.find(p => p.param_name === name) || { param_name: name, example: '' }),
+            },
+        };
+    }
+    return { type: 'BODY', text };
+};
+
+const CarouselComponentEditor: React.FC<CarouselComponentEditorProps> = ({
+    component,
+    index,
+    updateComponent,
+    removeComponent,
+    errors,
+    disabled = false,
+    limits = DEFAULT_VALIDATION_LIMITS,
+}) => {
+    const { min: minCards, max: maxCards } = limits.carousel_cards;
+    const { min: minCardButtons, max: maxCardButtons } = limits.carousel_card_buttons;
+    const [uploadingCard, setUploadingCard] = useState<number | null>(null);
+    const [uploadErrors, setUploadErrors] = useState<Record<number, string>>({});
+    const wabaId = useWabaId();
+
+    const cards = component.cards as MediaCarouselCard[];
+    const firstCard = cards[0];
+    const firstHeader = firstCard?.components.find(c => c.type === 'HEADER');
+    const mediaFormat: CardMediaFormat = firstHeader && 'format' in firstHeader && firstHeader.format === 'VIDEO' ? 'VIDEO' : 'IMAGE';
+    const buttonTypes = firstCard ? getCardButtons(firstCard).map(b => b.type) : [];
+
+    const setCards = (nextCards: MediaCarouselCard[]) => {
+        updateComponent(index, { ...component, cards: nextCards });
+    };
+
+    const updateCard = (cardIndex: number, update: (card: MediaCarouselCard) => MediaCarouselCard) => {
+        setCards(cards.map((card, i) => (i === cardIndex ? update(card) : card)));
+    };
+
+    const setCardButtons = (card: MediaCarouselCard, buttons: MediaCarouselButton[]): MediaCarouselCard => ({
+        components: card.components.map(c => (c.type === 'BUTTONS' ? { type: 'BUTTONS', buttons } : c)),
+    });
+
+    // Header format and button types are shared, so changing them updates every card
+    const handleFormatChange = (format: CardMediaFormat) => {
+        setUploadErrors({});
+        setCards(cards.map(card => ({
+            components: card.components.map(c =>
+                c.type === 'HEADER' ? { type: 'HEADER', format, example: { header_handle: [''] } } : c
+            ),
+        })));
+    };
+
+    const handleAddButtonType = () => {
+        const nextType: CardButtonType = buttonTypes.includes('QUICK_REPLY') ? 'URL' : 'QUICK_REPLY';
+        setCards(cards.map(card => setCardButtons(card, [...getCardButtons(card), createCardButton(nextType)])));
+    };
+
+    const handleButtonTypeChange = (buttonIndex: number, type: CardButtonType) => {
+        setCards(cards.map(card =>
+            setCardButtons(card, getCardButtons(card).map((b, i) => (i === buttonIndex ? createCardButton(type) : b)))
+        ));
+    };
+
+    const handleRemoveButtonType = (buttonIndex: number) => {
+        setCards(cards.map(card => setCardButtons(card, getCardButtons(card).filter((_, i) => i !== buttonIndex))));
+    };
+
+    const handleAddCard = () => {
+        if (cards.length >= maxCards) return;
+        setCards([...cards, createCarouselCard(mediaFormat, buttonTypes)]);
+    };
+
+    const handleRemoveCard = (cardIndex: number) => {
+        setUploadErrors({});
+        setCards(cards.filter((_, i) => i !== cardIndex));
+    };
+
+    const handleMoveCard = (cardIndex: number, direction: -1 | 1) => {
+        const target = cardIndex + direction;
+        if (target < 0 || target >= cards.length) return;
+        const nextCards = [...cards];
+        [nextCards[cardIndex], nextCards[target]] = [nextCards[target]!, nextCards[cardIndex]!];
+        setUploadErrors({});
+        setCards(nextCards);
+    };
+
+    const handleBodyChange = (cardIndex: number, text: string) => {
+        updateCard(cardIndex, card => ({
+            components: card.components.map(c => (c.type === 'BODY' ? syncBodyExamples(c, text) : c)),
+        }));
+    };
+
+    const handleBodyExampleChange = (cardIndex: number, position: number, value: string) => {
+        updateCard(cardIndex, card => ({
+            components: card.components.map(c => {
+                if (c.type !== 'BODY' || !c.example) return c;
+                if (c.example.body_text_named_params) {
+                    return {
+                        ...c,
+                        example: {
+                            body_text_named_params: c.example.body_text_named_params.map((p, i) =>
+                                i === position ? { ...p, example: value } : p
+                            ),
+                        },
+                    };
+                }
+                const examples = [...(c.example.body_text?.[0] || [])];
+                examples[position] = value;
+                return { ...c, example: { body_text: [examples] } };
+            }),
+        }));
+    };
+
+    const handleButtonChange = (cardIndex: number, buttonIndex: number, button: MediaCarouselButton) => {
+        updateCard(cardIndex, card =>
+            setCardButtons(card, getCardButtons(card).map((b, i) => (i === buttonIndex ? button : b)))
+        );
+    };
+
+    const setMediaHandle = (cardIndex: number, handle: string) => {
+        updateCard(cardIndex, card => ({
+            components: card.components.map(c =>
+                c.type === 'HEADER' ? { type: 'HEADER', format: mediaFormat, example: { header_handle: [handle] } } : c
+            ),
+        }));
+    };
+
+    const handleFileChange = async (cardIndex: number, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        setUploadErrors(prev => ({ ...prev, [cardIndex]: '' }));
+        if (!file) return;
+
+        const validation = FileUploadService.validateFile(file);
+        if (!validation.isValid) {
+            setUploadErrors(prev => ({ ...prev, [cardIndex]: validation.error || 'Invalid file' }));
+            return;
+        }
+
+        if (!wabaId) {
+            setUploadErrors(prev => ({ ...prev, [cardIndex]: 'WABA functionality is not available in open source mode. Please use direct file URLs instead.' }));
+            return;
+        }
+
+        setUploadingCard(cardIndex);
+        try {
+            const result = await fileUploadService.uploadFile(file, wabaId);
+            if (result.success && result.fileId) {
+                setMediaHandle(cardIndex, result.fileId);
+            } else {
+                setUploadErrors(prev => ({ ...prev, [cardIndex]: result.error || 'File upload failed. Please try again.' }));
+            }
+        } catch (error) {
+            console.error("Carousel card upload failed:", error);
+            setUploadErrors(prev => ({ ...prev, [cardIndex]: 'File upload failed. Please try again.' }));
+        } finally {
+            setUploadingCard(null);
+        }
+    };
+
+    const renderCardButton = (cardIndex: number, button: MediaCarouselButton, buttonIndex: number) => {
+        const idPrefix = `carousel-${index}-card-${cardIndex}-btn-${buttonIndex}`;
+        const buttonPath = cardPath(cardIndex, 'BUTTONS', 'buttons', buttonIndex);
+        const pathProps = (field: string) => fieldPathProps(fieldPath(buttonPath, field), errors?.[fieldPath(buttonPath, field)]);
+        const buttonError = findFieldError(errors, buttonPath);
+        return (
+            <div key={buttonIndex} className="grid grid-cols-1 sm:grid-cols-2 gap-2 p-3 border rounded-md">
+                <div className="space-y-1">
+                    <Label htmlFor={idPrefix} className="text-xs">{BUTTON_TYPE_LABELS[button.type]} text</Label>
+                    <Input
+                        id={idPrefix}
+                        {...pathProps('text')}
+                        placeholder="Eg. Shop now"
+                        value={button.text}
+                        maxLength={25}
+                        onChange={e => handleButtonChange(cardIndex, buttonIndex, { ...button, text: e.target.value })}
+                        disabled={disabled}
+                        className="text-base sm:text-sm"
+                    />
+                </div>
+                {button.type === 'URL' && (
+                    <div className="space-y-1">
+                        <Label htmlFor={`${idPrefix}-url`} className="text-xs">URL</Label>
+                        <Input
+                            id={`${idPrefix}-url`}
+                            {...pathProps('url')}
+                            placeholder="https://example.com"
+                            value={button.url}
+                            onChange={e => handleButtonChange(cardIndex, buttonIndex, { ...button, url: e.target.value })}
+                            disabled={disabled}
+                            className="text-base sm:text-sm"
+                        />
+                    </div>
+                )}
+                {button.type === 'PHONE_NUMBER' && (
+                    <div className="space-y-1">
+                        <Label htmlFor={`${idPrefix}-phone`} className="text-xs">Phone Number</Label>
+                        <Input
+                            id={`${idPrefix}-phone`}
+                            {...pathProps('phone_number')}
+                            placeholder="Enter a valid phone number"
+                            value={button.phone_number}
+                            onChange={e => handleButtonChange(cardIndex, buttonIndex, { ...button, phone_number: e.target.value })}
+                            disabled={disabled}
+                            className="text-base sm:text-sm"
+                        />
+                    </div>
+                )}
+                {buttonError && (
+                    <p className="text-xs text-destructive sm:col-span-2">{buttonError}</p>
+                )}
+            </div>
+        );
+    };
+
+    const renderCard = (card: MediaCarouselCard, cardIndex: number) => {
+        const body = getCardBody(card);
+        const mediaHandle = getCardMediaHandle(card);
+        const examples = body?.example?.body_text_named_params
+            ? body.example.body_text_named_params.map((p, i) => ({
+                label: p.param_name,
+                value: p.example,
+                path: cardPath(cardIndex, 'BODY', 'example', 'body_text_named_params', i, 'example'),
+            }))
+            : (body?.example?.body_text?.[0] || []).map((value, i) => ({
+                label: String(i + 1),
+                value,
+                path: cardPath(cardIndex, 'BODY', 'example', 'body_text', 0, i),
+            }));
+        const mediaPath = cardPath(cardIndex, 'HEADER', 'example', 'header_handle', 0);
+        const mediaError = findFieldError(errors, cardPath(cardIndex, 'HEADER'));
+        const bodyPath = cardPath(cardIndex, 'BODY', 'text');
+        const bodyError = findFieldError(errors, cardPath(cardIndex, 'BODY'));
+
+        return (
+            <div key={cardIndex} className="border rounded-lg p-3 sm:p-4 space-y-4 template-carousel-card">
+                <div className="flex items-center justify-between">
+                    <h4 className="font-medium text-sm sm:text-base">Card {cardIndex + 1}</h4>
+                    <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleMoveCard(cardIndex, -1)} disabled={disabled || cardIndex === 0} className="h-8 w-8 p-0">
+                            <ChevronUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleMoveCard(cardIndex, 1)} disabled={disabled || cardIndex === cards.length - 1} className="h-8 w-8 p-0">
+                            <ChevronDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveCard(cardIndex)} disabled={disabled || cards.length <= minCards} className="h-8 w-8 p-0">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor={`carousel-${index}-card-${cardIndex}-file`}>Card {mediaFormat === 'VIDEO' ? 'Video' : 'Image'}</Label>
+                    <div className="flex items-center gap-2">
+                        <Input
+                            id={`carousel-${index}-card-${cardIndex}-file`}
+                            {...fieldPathProps(mediaPath, mediaError)}
+                            type="file"
+                            onChange={e => handleFileChange(cardIndex, e)}
+                            disabled={disabled || uploadingCard !== null || !wabaId}
+                            accept={MEDIA_ACCEPT[mediaFormat]}
+                        />
+                        {uploadingCard === cardIndex && <Loader2 className="h-5 w-5 animate-spin" />}
+                    </div>
+                    {mediaHandle && uploadingCard !== cardIndex && (
+                        <p className="text-xs text-muted-foreground break-all">Media: {mediaHandle}</p>
+                    )}
+                    {uploadErrors[cardIndex] && <p className="text-sm text-destructive">{uploadErrors[cardIndex]}</p>}
+                    {mediaError && <p className="text-sm text-destructive">{mediaError}</p>}
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor={`carousel-${index}-card-${cardIndex}-body`}>Card Body</Label>
+                    <Textarea
+                        id={`carousel-${index}-card-${cardIndex}-body`}
+                        {...fieldPathProps(bodyPath, errors?.[bodyPath])}
+                        placeholder="Describe this card..."
+                        rows={3}
+                        maxLength={limits.card_body_text.max}
+                        value={body?.text || ''}
+                        onChange={e => handleBodyChange(cardIndex, e.target.value)}
+                        disabled={disabled}
+                        className="text-base sm:text-sm resize-y"
+                    />
+                    <p className="text-xs text-muted-foreground">Max length: {body?.text.length || 0}/{limits.card_body_text.max} characters</p>
+                    {bodyError && <p className="text-sm text-destructive">{bodyError}</p>}
+                    {examples.length > 0 && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-2">
+                            {examples.map((example, i) => (
+                                <div key={example.label} className="space-y-1">
+                                    <Label htmlFor={`carousel-${index}-card-${cardIndex}-var-${example.label}`} className="text-xs">
+                                        Variable {`{{${example.label}}}`}
+                                    </Label>
+                                    <Input
+                                        id={`carousel-${index}-card-${cardIndex}-var-${example.label}`}
+                                        {...fieldPathProps(example.path, errors?.[example.path])}
+                                        placeholder={`Example for {{${example.label}}}`}
+                                        value={example.value || ''}
+                                        onChange={e => handleBodyExampleChange(cardIndex, i, e.target.value)}
+                                        disabled={disabled}
+                                        className="text-base sm:text-sm"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    {getCardButtons(card).map((button, buttonIndex) => renderCardButton(cardIndex, button, buttonIndex))}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <Card className="overflow-hidden" id={`carousel-${index}`}>
+            <CardHeader className="px-3 sm:px-6 pb-3">
+                <div className="flex justify-between items-center">
+                    <CardTitle className="text-base sm:text-lg">Carousel</CardTitle>
+                    <Button variant="ghost" size="sm" onClick={() => removeComponent(index)} disabled={disabled}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                </div>
+                <CardDescription className="text-xs sm:text-sm">
+                    Up to {maxCards} scrollable cards shown below the message body. Every card uses the same media type and buttons.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 px-3 sm:px-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label>Card Media Type</Label>
+                        <Select value={mediaFormat} onValueChange={value => handleFormatChange(value as CardMediaFormat)} disabled={disabled}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="IMAGE">Image</SelectItem>
+                                <SelectItem value="VIDEO">Video</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Card Buttons</Label>
+                        {buttonTypes.map((type, buttonIndex) => (
+                            <div key={buttonIndex} className="flex items-center gap-2">
+                                <Select value={type} onValueChange={value => handleButtonTypeChange(buttonIndex, value as CardButtonType)} disabled={disabled}>
+                                    <SelectTrigger className="text-base sm:text-sm"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(BUTTON_TYPE_LABELS) as CardButtonType[]).map(option => (
+                                            <SelectItem key={option} value={option}>{BUTTON_TYPE_LABELS[option]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Button variant="ghost" size="sm" onClick={() => handleRemoveButtonType(buttonIndex)} disabled={disabled || buttonTypes.length <= minCardButtons}>
+                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                            </div>
+                        ))}
+                        {buttonTypes.length < maxCardButtons && (
+                            <Button variant="outline" size="sm" onClick={handleAddButtonType} disabled={disabled}>
+                                <PlusCircle className="h-4 w-4 mr-2" />
+                                Add Button
+                            </Button>
+                        )}
+                    </div>
+                </div>
+
+                {errors?.[CARDS_PATH] && (
+                    <p className="text-sm text-destructive">{errors[CARDS_PATH]}</p>
+                )}
+
+                <div className="space-y-4">
+                    {cards.map(renderCard)}
+                </div>
+
+                <Button variant="outline" {...fieldPathProps(CARDS_PATH, errors?.[CARDS_PATH])} onClick={handleAddCard} disabled={disabled || cards.length >= maxCards} className="w-full">
+                    <PlusCircle className="h-4 w-4 mr-2" />
+                    Add Card ({cards.length}/{maxCards})
+                </Button>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default CarouselComponentEditor;
@@ -0,0 +1,204 @@
+"use client";
+
+import React from 'react';
+import type {
+    BodyComponent,
+    CatalogTemplateComponent,
+    HeaderComponent,
+    HeaderTextComponent,
+    MPMTemplateComponent,
+    SPMTemplateComponent,
+    TemplateComponent,
+} from '../types/templateTypes';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@workspace/ui-core/components/card';
+import { Input } from '@workspace/ui-core/components/input';
+import { Label } from '@workspace/ui-core/components/label';
+import { Package, ShoppingBag, ShoppingCart } from 'lucide-react';
+import { fieldPath, fieldPathProps } from '../lib/fieldPaths';
+
+const BUTTON_TEXT_MAX_LENGTH = 25;
+const HEADER_TEXT_MAX_LENGTH = 60;
+
+const HEADER_TEXT_PATH = fieldPath('components', 'HEADER', 'text');
+const HEADER_EXAMPLE_PATH = fieldPath('components', 'HEADER', 'example', 'header_text', 0);
+// The commerce button is the only button, see withCommerceButton
+const BUTTON_TEXT_PATH = fieldPath('components', 'BUTTONS', 'buttons', 0, 'text');
+
+export type TemplateKind = 'STANDARD' | 'CATALOG' | 'SPM' | 'MPM';
+export type CommerceTemplateKind = Exclude<TemplateKind, 'STANDARD'>;
+export type CommerceTemplateComponent = CatalogTemplateComponent | SPMTemplateComponent | MPMTemplateComponent;
+
+const COMMERCE_LAYOUTS: Record<CommerceTemplateKind, { title: string; description: string; buttonText: string }> = {
+    CATALOG: {
+        title: 'Catalog',
+        description: 'Customers open your full product catalog from the button below the message.',
+        buttonText: 'View catalog',
+    },
+    SPM: {
+        title: 'Single Product',
+        description: 'Shows one product from your catalog as the header. The product is chosen when the message is sent.',
+        buttonText: 'View',
+    },
+    MPM: {
+        title: 'Multi-Product',
+        description: 'Customers browse up to 30 products, chosen when the message is sent, from the button below the message.',
+        buttonText: 'View items',
+    },
+};
+
+const COMMERCE_BUTTON_TYPES = ['CATALOG', 'SPM', 'MPM'];
+
+/**
+ * Default text of the single button each commerce layout ends with
+ */
+export const getDefaultCommerceButtonText = (kind: CommerceTemplateKind): string => COMMERCE_LAYOUTS[kind].buttonText;
+
+/**
+ * Build the form components of a commerce layout, keeping the body the user already wrote
+ */
+export const createCommerceComponents = (kind: CommerceTemplateKind, body: BodyComponent): TemplateComponent[] => {
+    switch (kind) {
+        case 'CATALOG':
+            return [body, { type: 'FOOTER', text: '' }];
+        case 'SPM':
+            return [{ type: 'HEADER', format: 'PRODUCT' }, body];
+        case 'MPM':
+            return [{ type: 'HEADER', format: 'TEXT', text: '' }, body];
+    }
+};
+
+/**
+ * Detect the template kind from the button of an existing template
+ */
+export const getTemplateKind = (components: { type: string; buttons?: { type: string }[] }[] = []): TemplateKind => {
+    const buttons = components.find(c => c.type === 'BUTTONS')?.buttons || [];
+    const commerceButton = buttons.find(b => COMMERCE_BUTTON_TYPES.includes(b.type));
+    return commerceButton ? (commerceButton.type as CommerceTemplateKind) : 'STANDARD';
+};
+
+/**
+ * Get the commerce button text of an existing template
+ */
+export const getCommerceButtonText = (components: { type: string; buttons?: { type: string; text?: string }[] }[] = []): string => {
+    const buttons = components.find(c => c.type === 'BUTTONS')?.buttons || [];
+    return buttons.find(b => COMMERCE_BUTTON_TYPES.includes(b.type))?.text || '';
+};
+
+/**
+ * Append the commerce button to the form components, giving the components Meta expects for the layout
+ */
+export const withCommerceButton = (
+    kind: CommerceTemplateKind,
+    components: TemplateComponent[],
+    buttonText: string
+): CommerceTemplateComponent[] => [
+    ...(components.filter(c => c.type !== 'BUTTONS') as CommerceTemplateComponent[]),
+    { type: 'BUTTONS', buttons: [{ type: kind, text: buttonText }] } as CommerceTemplateComponent,
+];
+
+interface CommerceTemplateEditorProps {
+    kind: CommerceTemplateKind;
+    header?: HeaderComponent;
+    headerIndex: number;
+    updateComponent: (index: number, component: HeaderComponent) => void;
+    buttonText: string;
+    onButtonTextChange: (text: string) => void;
+    errors?: Record<string, string>; // Keyed by field path, see lib/fieldPaths
+    disabled?: boolean;
+}
+
+const CommerceTemplateEditor: React.FC<CommerceTemplateEditorProps> = ({
+    kind,
+    header,
+    headerIndex,
+    updateComponent,
+    buttonText,
+    onButtonTextChange,
+    errors,
+    disabled = false,
+}) => {
+    const layout = COMMERCE_LAYOUTS[kind];
+    const textHeader = header && header.format === 'TEXT' ? (header as HeaderTextComponent) : undefined;
+    const headerHasVariable = !!textHeader && /\{\{1\}\}/.test(textHeader.text);
+
+    const handleHeaderTextChange = (text: string) => {
+        if (!textHeader) return;
+        const hasVariable = /\{\{1\}\}/.test(text);
+        updateComponent(headerIndex, {
+            ...textHeader,
+            text,
+            example: hasVariable ? { header_text: [textHeader.example?.header_text?.[0] || ''] } : undefined,
+        });
+    };
+
+    const Icon = kind === 'CATALOG' ? ShoppingBag : kind === 'SPM' ? Package : ShoppingCart;
+
+    return (
+        <Card className="overflow-hidden" id="commerce-template">
+            <CardHeader className="px-3 sm:px-6 pb-3">
+                <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                    <Icon className="h-4 w-4" />
+                    {layout.title}
+                </CardTitle>
+                <CardDescription className="text-xs sm:text-sm">{layout.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 px-3 sm:px-6">
+                {kind === 'SPM' && (
+                    <div className="rounded-md border border-dashed p-3 text-xs sm:text-sm text-muted-foreground">
+                        Header: product image, name and price from your catalog.
+                    </div>
+                )}
+
+                {kind === 'MPM' && textHeader && (
+                    <div className="space-y-2">
+                        <Label htmlFor={`header-text-${headerIndex}`}>Header Text</Label>
+                        <Input
+                            id={`header-text-${headerIndex}`}
+                            {...fieldPathProps(HEADER_TEXT_PATH, errors?.[HEADER_TEXT_PATH])}
+                            placeholder="E.g., Forget something, {{1}}?"
+                            maxLength={HEADER_TEXT_MAX_LENGTH}
+                            value={textHeader.text}
+                            onChange={e => handleHeaderTextChange(e.target.value)}
+                            disabled={disabled}
+                            className="text-base sm:text-sm"
+                        />
+                        {headerHasVariable && (
+                            <Input
+                                id={`header-example-${headerIndex}`}
+                                {...fieldPathProps(HEADER_EXAMPLE_PATH, errors?.[HEADER_EXAMPLE_PATH])}
+                                placeholder="Example value for {{1}}"
+                                value={textHeader.example?.header_text?.[0] || ''}
+                                onChange={e => updateComponent(headerIndex, { ...textHeader, example: { header_text: [e.target.value] } })}
+                                disabled={disabled}
+                                className="text-base sm:text-sm"
+                            />
+                        )}
+                        <p className="text-xs sm:text-sm text-muted-foreground">
+                            Max length: {textHeader.text.length}/{HEADER_TEXT_MAX_LENGTH} characters
+                        </p>
+                        {(errors?.[HEADER_TEXT_PATH] || errors?.[HEADER_EXAMPLE_PATH]) && (
+                            <p className="text-xs sm:text-sm text-destructive">{errors[HEADER_TEXT_PATH] || errors[HEADER_EXAMPLE_PATH]}</p>
+                        )}
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    <Label htmlFor="commerce-button-text">Button Text</Label>
+                    <Input
+                        id="commerce-button-text"
+                        {...fieldPathProps(BUTTON_TEXT_PATH, errors?.[BUTTON_TEXT_PATH])}
+                        placeholder={layout.buttonText}
+                        maxLength={BUTTON_TEXT_MAX_LENGTH}
+                        value={buttonText}
+                        onChange={e => onButtonTextChange(e.target.value)}
+                        disabled={disabled}
+                        className="text-base sm:text-sm"
+                    />
+                    {errors?.[BUTTON_TEXT_PATH] && <p className="text-xs sm:text-sm text-destructive">{errors[BUTTON_TEXT_PATH]}</p>}
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default CommerceTemplateEditor;
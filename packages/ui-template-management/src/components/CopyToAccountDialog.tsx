@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@workspace/ui-core/components/dialog";
+import { Button } from "@workspace/ui-core/components/button";
+import { Input } from "@workspace/ui-core/components/input";
+import { Label } from "@workspace/ui-core/components/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@workspace/ui-core/components/select";
+import { useToast } from "@workspace/ui-core/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import type { CreateTemplatePayload, MessageTemplate } from "../types/templateTypes";
+import type { WabaAccount } from "../context/WabaContext";
+import { SUPPORTED_LANGUAGES } from "../lib/languages";
+import { rehostMediaHandles, toClonePayload } from "../lib/templateClone";
+
+export interface CopyToAccountDictionary {
+  title: string;
+  description: string;
+  targetAccount: string;
+  targetAccountPlaceholder: string;
+  name: string;
+  nameHelp: string;
+  language: string;
+  uploadingMedia: string;
+  creating: string;
+  cancel: string;
+  copy: string;
+  copiedSuccessfully: string;
+  sentForApproval: string;
+}
+
+// Default English text, reused by the copy_account_dialog section of fallbackDictionary
+export const fallbackCopyToAccountDictionary: CopyToAccountDictionary = {
+  title: "Copy to Another Account",
+  description: "Create this template in another WhatsApp Business Account. It is reviewed by Meta again.",
+  targetAccount: "Target Account",
+  targetAccountPlaceholder: "Select an account",
+  name: "Template Name",
+  nameHelp: "Lowercase letters, numbers, and underscores only.",
+  language: "Language",
+  uploadingMedia: "Uploading media...",
+  creating: "Creating template...",
+  cancel: "Cancel",
+  copy: "Copy Template",
+  copiedSuccessfully: "Template copied",
+  sentForApproval: "The copy has been submitted and is now pending approval from Meta.",
+};
+
+interface CopyToAccountDialogProps {
+  template: MessageTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: WabaAccount[]; // Accounts the template can be copied to
+  onCopy: (targetWabaId: string, payload: CreateTemplatePayload) => Promise<void>;
+  dictionary?: CopyToAccountDictionary;
+}
+
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9_]+$/;
+
+const CopyToAccountDialog: React.FC<CopyToAccountDialogProps> = ({
+  template,
+  open,
+  onOpenChange,
+  accounts,
+  onCopy,
+  dictionary,
+}) => {
+  const dict = dictionary || fallbackCopyToAccountDictionary;
+
+  const { toast } = useToast();
+  const [targetWabaId, setTargetWabaId] = useState("");
+  const [name, setName] = useState("");
+  const [language, setLanguage] = useState("");
+  const [step, setStep] = useState<"idle" | "uploading" | "creating">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  // Prefill with the source template every time the dialog opens
+  useEffect(() => {
+    if (open && template) {
+      setTargetWabaId(accounts.length === 1 ? accounts[0]!.wabaId : "");
+      setName(template.name);
+      setLanguage(template.language);
+      setStep("idle");
+      setError(null);
+    }
+  }, [open, template, accounts]);
+
+  if (!template) return null;
+
+  const nameError = name && !TEMPLATE_NAME_PATTERN.test(name) ? dict.nameHelp : null;
+  const busy = step !== "idle";
+
+  const handleCopy = async () => {
+    if (!targetWabaId || !name || nameError) return;
+    setError(null);
+    try {
+      setStep("uploading");
+      const payload = await rehostMediaHandles(toClonePayload(template, { name, language }), targetWabaId);
+
+      setStep("creating");
+      await onCopy(targetWabaId, payload);
+
+      toast({ title: dict.copiedSuccessfully, description: dict.sentForApproval, duration: 5000 });
+      onOpenChange(false);
+    } catch (err) {
+      // Axios errors carry Meta's error body, upload failures only a message
+      const failure = err as { message?: string; response?: { data?: { error?: { message?: string; error_user_msg?: string } } } } | null;
+      const metaError = failure?.response?.data?.error;
+      setError(metaError?.error_user_msg || metaError?.message || failure?.message || String(err));
+    } finally {
+      setStep("idle");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !busy && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-md template-copy-account-dialog">
+        <DialogHeader>
+          <DialogTitle>{dict.title}</DialogTitle>
+          <DialogDescription>{dict.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="copy-target-account">{dict.targetAccount}</Label>
+            <Select value={targetWabaId} onValueChange={setTargetWabaId} disabled={busy}>
+              <SelectTrigger id="copy-target-account" className="text-base sm:text-sm">
+                <SelectValue placeholder={dict.targetAccountPlaceholder} />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map((account) => (
+                  <SelectItem key={account.wabaId} value={account.wabaId}>
+                    {account.name || account.wabaId}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="copy-template-name">{dict.name}</Label>
+            <Input
+              id="copy-template-name"
+              value={name}
+              maxLength={512}
+              onChange={(e) => setName(e.target.value)}
+              disabled={busy}
+              className="text-base sm:text-sm"
+            />
+            {nameError && <p className="text-xs sm:text-sm text-destructive">{nameError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="copy-template-language">{dict.language}</Label>
+            <Select value={language} onValueChange={setLanguage} disabled={busy}>
+              <SelectTrigger id="copy-template-language" className="text-base sm:text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_LANGUAGES.map((lang) => (
+                  <SelectItem key={lang.code} value={lang.code}>
+                    {lang.name} ({lang.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            {dict.cancel}
+          </Button>
+          <Button
+            variant="success"
+            className="gap-2"
+            onClick={handleCopy}
+            disabled={busy || !targetWabaId || !name || !!nameError}
+          >
+            {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+            {step === "uploading" ? dict.uploadingMedia : step === "creating" ? dict.creating : dict.copy}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CopyToAccountDialog;
@@ -1,6 +1,6 @@
 "use client";
  
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import type {
   CreateTemplatePayload,
   HeaderComponent,
@@ -9,7 +9,15 @@ import type {
   FooterComponent,
   TemplateComponent,
   ButtonsComponent,
+  CarouselComponent,
+  LimitedTimeOfferComponent,
+  ResponseComponent,
   TemplateButton,
+  CopyCodeButton,
+  MessageTemplate,
+  ResponseButton,
+  AuthOtpButton,
+  WhatsAppFlow,
 } from "../types/templateTypes";
 import { Button } from "@workspace/ui-core/components/button";
 import {
@@ -41,9 +49,30 @@ import {
 import AuthenticationTemplateForm from "./AuthenticationTemplateForm";
 import { AuthTemplateComponent } from "../types/templateTypes";
 import { SUPPORTED_LANGUAGES } from "../lib/languages";
+import { getButtonGroupOrder, hasGroupedButtons } from "../lib/buttonGroups";
+import PayloadTransformer from "../lib/payloadTransformer";
+import { rehostMediaHandles } from "../lib/templateClone";
+import { useWabaId } from "../hooks/useWabaId";
 import HeaderComponentEditor from "./HeaderComponentEditor";
+import CarouselComponentEditor, { createCarouselCard } from "./CarouselComponentEditor";
+import LimitedTimeOfferEditor, { createLimitedTimeOfferButtons } from "./LimitedTimeOfferEditor";
+import FlowButtonEditor from "./FlowButtonEditor";
+import CommerceTemplateEditor, {
+  createCommerceComponents,
+  getCommerceButtonText,
+  getDefaultCommerceButtonText,
+  getTemplateKind,
+  withCommerceButton,
+  type TemplateKind,
+} from "./CommerceTemplateEditor";
+import WhatsAppMessagePreview from "./WhatsAppMessagePreview";
+import { Switch } from "@workspace/ui-core/components/switch";
 import { useToast } from "@workspace/ui-core/hooks/use-toast";
 import { useTemplateValidation } from "../hooks/useTemplateValidation";
+import type { ValidationRuleSet } from "../lib/validationRules";
+import type { ValidationMessages } from "../lib/validationMessages";
+import { MetaTemplateValidator, defaultValidationRuleSet, type ValidationError } from "../lib/metaTemplateValidator";
+import { fieldPath, fieldPathProps, findFieldError, focusFieldPath, focusFirstFieldPath } from "../lib/fieldPaths";
 import { Alert, AlertDescription } from "@workspace/ui-core/components/alert";
 import { AlertTriangle, CheckCircle, Info } from "lucide-react";
 
@@ -52,8 +81,14 @@ interface CreateTemplateUIProps {
   onSubmit: (template: CreateTemplatePayload) => Promise<void>;
   dictionary?: any;
   isLoading?: boolean;
+  initialTemplate?: MessageTemplate; // Existing template to edit, name/language/category are locked
+  flows?: WhatsAppFlow[]; // Flows offered by the Flow button picker, falls back to a Flow ID input
+  validationRules?: ValidationRuleSet; // Custom rule set, defaults to Meta's rules
 }
 
+const FOOTER_TEXT_PATH = fieldPath("components", "FOOTER", "text");
+const BUTTONS_PATH = fieldPath("components", "BUTTONS", "buttons");
+
 interface MetaDisplayError {
   title: string;
   message: string;
@@ -108,7 +143,49 @@ function getMetaDisplayError(err: any): MetaDisplayError | null {
 
 function formatMetaDisplay(err: any): string {
   const m = getMetaDisplayError(err);
-  return m ? `${m.title}: ${m.message}` : "Unknown error";
+  // Errors that don't come from Meta (network, no update handler) keep their own message
+  return m ? `${m.title}: ${m.message}` : (err instanceof Error && err.message) || "Unknown error";
+}
+
+/**
+ * Meta returns OTP buttons as URL buttons pointing at its OTP endpoint, recover the OTP button from the URL.
+ * Buttons that already come back as OTP buttons keep their otp_type.
+ */
+function toAuthOtpButton(button: ResponseButton | AuthOtpButton): AuthOtpButton {
+  const url = button.type === "URL" ? button.url : "";
+  const getParam = (key: string) => {
+    const match = url.match(new RegExp(`[?&]${key}=([^&]*)`));
+    return match?.[1] ? decodeURIComponent(match[1]) : undefined;
+  };
+  const otpType = ((button.type === "OTP" ? button.otp_type : undefined) || getParam("otp_type") || "copy_code").toLowerCase();
+  const packageName = getParam("package_name");
+  const signatureHash = getParam("signature_hash");
+  const supportedApps = packageName && signatureHash ? [{ package_name: packageName, signature_hash: signatureHash }] : [];
+
+  switch (otpType) {
+    case "one_tap":
+      return { type: "OTP", otp_type: "one_tap", text: button.text, supported_apps: supportedApps };
+    case "zero_tap":
+      return { type: "OTP", otp_type: "zero_tap", text: button.text, zero_tap_terms_accepted: false, supported_apps: supportedApps };
+    default:
+      return { type: "OTP", otp_type: "copy_code", text: button.text };
+  }
+}
+
+/**
+ * Convert the components of an existing authentication template back into form components.
+ */
+function toAuthComponents(template: MessageTemplate): AuthTemplateComponent[] {
+  return (template.components || []).reduce<AuthTemplateComponent[]>((acc, component) => {
+    if (component.type === "BODY") {
+      acc.push({ type: "BODY", add_security_recommendation: !!component.add_security_recommendation });
+    } else if (component.type === "FOOTER") {
+      acc.push({ type: "FOOTER", code_expiration_minutes: component.code_expiration_minutes });
+    } else if (component.type === "BUTTONS") {
+      acc.push({ type: "BUTTONS", buttons: component.buttons.map(toAuthOtpButton) });
+    }
+    return acc;
+  }, []);
 }
 
 const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
@@ -116,6 +193,9 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
   onSubmit,
   dictionary,
   isLoading = false,
+  initialTemplate,
+  flows,
+  validationRules,
 }) => {
   // Use dictionary with fallback to English text
   const dict = dictionary?.createTemplate || {
@@ -137,6 +217,19 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
     addHeader: "Add Header",
     addFooter: "Add Footer",
     addButtons: "Add Buttons",
+    addCarousel: "Add Carousel",
+    limitedTimeOffer: "Limited-Time Offer",
+    limitedTimeOfferHelp: "Promote an offer with an offer code and an optional expiration countdown.",
+    callPermissionRequest: "Call Permission Request",
+    callPermissionRequestHelp: "Ask customers for permission to call them on WhatsApp.",
+    templateKind: "Template Type",
+    templateKinds: {
+      standard: "Standard",
+      catalog: "Catalog",
+      spm: "Single Product",
+      mpm: "Multi-Product",
+    },
+    preview: "Preview",
     body: "Body",
     footer: "Footer",
     buttons: "Buttons",
@@ -163,30 +256,51 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
     },
     cancel: "Cancel",
     createTemplate: "Create Template",
+    editTitle: "Edit Template",
+    editDescription: "Update the content of your template. Edited templates are reviewed by Meta again.",
+    lockedFieldsHelp: "Name, language and category cannot be changed after a template is created.",
+    saveChanges: "Save Changes",
+    savingChanges: "Saving Changes...",
+    updatedSuccessfully: "Template updated successfully!",
+    sentForReview: "Your changes have been submitted and are pending review by Meta.",
     note: "Note:",
     warning: "Warning:",
     utilityCategoryNote: "For utility templates, Meta may change your template category to Marketing automatically. Please keep checking the status of your template regularly.",
     otpWarning: "Your template contains the word \"OTP\" and the category is not Authentication. This template may be rejected by Meta. It's better to use an Authentication Template if you're sending an OTP.",
   };
-  const [name, setName] = useState("");
-  const [language, setLanguage] = useState("en_US");
+  const isEditMode = !!initialTemplate;
+  const [name, setName] = useState(initialTemplate?.name ?? "");
+  const [language, setLanguage] = useState(initialTemplate?.language ?? "en_US");
   const [category, setCategory] = useState<
     "MARKETING" | "UTILITY" | "AUTHENTICATION"
-  >("MARKETING");
-  const [parameterFormat, setParameterFormat] = useState<"NAMED" | "POSITIONAL">("NAMED");
-
-  const [components, setComponents] = useState<TemplateComponent[]>([
-    { type: "BODY", text: "" },
-  ]);
-  const [authComponents, setAuthComponents] = useState<AuthTemplateComponent[]>([
-    { type: "BODY" }
-  ]);
-  const [errors, setErrors] = useState<Record<string, any>>({});
+  >(initialTemplate?.category ?? "MARKETING");
+  const [parameterFormat, setParameterFormat] = useState<"NAMED" | "POSITIONAL">(
+    initialTemplate?.parameter_format === "positional" ? "POSITIONAL" : "NAMED"
+  );
+
+  const [components, setComponents] = useState<TemplateComponent[]>(() =>
+    initialTemplate && initialTemplate.category !== "AUTHENTICATION" && initialTemplate.components?.length
+      ? (PayloadTransformer.transformFromMeta(initialTemplate).components as TemplateComponent[])
+          // The commerce button is edited on its own, see commerceButtonText
+          .filter((c) => getTemplateKind(initialTemplate.components) === "STANDARD" || c.type !== "BUTTONS")
+      : [{ type: "BODY", text: "" }]
+  );
+  const [templateKind, setTemplateKind] = useState<TemplateKind>(() => getTemplateKind(initialTemplate?.components));
+  const [commerceButtonText, setCommerceButtonText] = useState(() => getCommerceButtonText(initialTemplate?.components));
+  const [authComponents, setAuthComponents] = useState<AuthTemplateComponent[]>(() =>
+    initialTemplate?.category === "AUTHENTICATION"
+      ? toAuthComponents(initialTemplate)
+      : [{ type: "BODY" }]
+  );
   const [isSubmittedOnce, setIsSubmittedOnce] = useState(false);
-  const [isFormValid, setIsFormValid] = useState(false);
   const [apiErrors, setApiErrors] = useState<string[]>([]);
   const { toast } = useToast();
-  const { validateTemplate, isValid, errors: validationErrors, warnings, userErrors, userWarnings, errorMessage, clearValidation } = useTemplateValidation();
+  const wabaId = useWabaId();
+  // Validator messages come from the dictionary's validation section, English when it has none
+  const validationMessages: Partial<ValidationMessages> | undefined = dictionary?.validation;
+  const { validateTemplate, isValid, errors: validationErrors, warnings, userErrors, userWarnings, errorMessage, clearValidation } = useTemplateValidation(validationRules, validationMessages);
+  const messageOf = (error: ValidationError) => MetaTemplateValidator.getErrorMessage(error, validationMessages);
+  const limits = (validationRules || defaultValidationRuleSet).limits;
 
   // Function to detect parameter format from template text
   const detectParameterFormat = (text: string): "NAMED" | "POSITIONAL" => {
@@ -233,7 +347,9 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
     let payload: CreateTemplatePayload;
     switch (category) {
       case "MARKETING":
-        payload = { name: validationName, language: validationLanguage, category, parameter_format: detectedFormat.toLowerCase() as "named" | "positional", components };
+        payload = templateKind === "STANDARD"
+          ? { name: validationName, language: validationLanguage, category, parameter_format: detectedFormat.toLowerCase() as "named" | "positional", components }
+          : { name: validationName, language: validationLanguage, category, parameter_format: detectedFormat.toLowerCase(), components: withCommerceButton(templateKind, components, commerceButtonText) } as CreateTemplatePayload;
         break;
       case "UTILITY":
         payload = { name: validationName, language: validationLanguage, category, parameter_format: detectedFormat.toLowerCase() as "named" | "positional", components };
@@ -245,7 +361,7 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
         return;
     }
     validateTemplate(payload);
-  }, [name, language, category, components, authComponents, validateTemplate, clearValidation]);
+  }, [name, language, category, components, authComponents, templateKind, commerceButtonText, validateTemplate, clearValidation]);
 
   const handleCategoryChange = (
     value: "MARKETING" | "UTILITY" | "AUTHENTICATION"
@@ -255,6 +371,7 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
     if (apiErrors.length > 0) {
       setApiErrors([]);
     }
+    setTemplateKind("STANDARD");
     if (value === "AUTHENTICATION") {
       setComponents([]);
       setAuthComponents([{ type: "BODY" }]);
@@ -273,7 +390,7 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
     );
   };
 
-  const addComponent = (type: "HEADER" | "FOOTER" | "BUTTONS") => {
+  const addComponent = (type: "HEADER" | "FOOTER" | "BUTTONS" | "CAROUSEL") => {
     const hasComponent = components.some((c) => c.type === type);
     if (hasComponent) return;
 
@@ -298,329 +415,84 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
         newComponent = { type: "BUTTONS", buttons: [] };
         setComponents((prev) => [...prev, newComponent]);
         break;
+      case "CAROUSEL":
+        // Meta requires at least two cards, start with two empty ones
+        newComponent = { type: "CAROUSEL", cards: [createCarouselCard(), createCarouselCard()] };
+        setComponents((prev) => [...prev, newComponent]);
+        break;
     }
   };
 
-  const removeComponent = (index: number) => {
-    const component = components[index];
-    if (!component || component.type === "BODY") return; // Body is required
-    setComponents((prev) => prev.filter((_, i) => i !== index));
-  };
-
-  const validate = useCallback(() => {
-    const newErrors: Record<string, any> = {};
+  const isLimitedTimeOffer = components.some((c) => c.type === "LIMITED_TIME_OFFER");
 
-    // Validate Template Name
-    if (!name) {
-      newErrors.name = "Template name is required.";
-    } else if (!/^[a-z0-9_]+$/.test(name)) {
-      newErrors.name = "Only lowercase letters, numbers, and underscores are allowed.";
-    }
-
-    // Validate Language
-    if (!language) {
-      newErrors.language = "Language is required.";
+  const handleLimitedTimeOfferToggle = (enabled: boolean) => {
+    // Clear API errors when user makes changes
+    if (apiErrors.length > 0) {
+      setApiErrors([]);
     }
-
-    if (category === "AUTHENTICATION") {
-      if (!authComponents.some(c => c.type === 'BODY')) {
-        newErrors.auth_body = "Authentication templates must have a body component.";
-      }
-    } else {
-      const bodyComponent = components.find(c => c.type === 'BODY') as BodyComponent;
-      if (!bodyComponent || !bodyComponent.text.trim()) {
-        newErrors.body_0 = "Body text is required.";
+    setComponents((prev) => {
+      if (!enabled) {
+        return prev.filter((c) => c.type !== "LIMITED_TIME_OFFER" && c.type !== "BUTTONS");
       }
+      // Offers only allow a media header, the offer, the body and the offer buttons
+      const mediaHeader = prev.find((c) => c.type === "HEADER" && (c.format === "IMAGE" || c.format === "VIDEO"));
+      const body = prev.find((c) => c.type === "BODY") || { type: "BODY", text: "" };
+      const offer: LimitedTimeOfferComponent = {
+        type: "LIMITED_TIME_OFFER",
+        limited_time_offer: { text: "", has_expiration: true },
+      };
+      return [...(mediaHeader ? [mediaHeader] : []), offer, body, createLimitedTimeOfferButtons()];
+    });
+  };
 
-      components.forEach((component, index) => {
-        switch (component.type) {
-          case "HEADER":
-            const headerComponent = component as HeaderComponent;
-            if (headerComponent.format === "TEXT") {
-              if (!headerComponent.text || !headerComponent.text.trim()) {
-                newErrors[`header_${index}`] = "Header text is required.";
-              } else if (headerComponent.text.length > 60) {
-                newErrors[`header_${index}`] = "Header text cannot exceed 60 characters.";
-              } else {
-                // Check for variables in header text ({{1}})
-                const hasVariable = /\{\{(\d+)\}\}/.test(headerComponent.text);
-                if (hasVariable) {
-                  // Header can only have one variable {{1}}
-                  if (!headerComponent.example?.header_text?.[0] || !headerComponent.example.header_text[0].trim()) {
-                    newErrors[`header_${index}`] = "Header contains a variable ({{1}}) but example value is required.";
-                  }
-                }
-              }
-            } else if (headerComponent.format !== "LOCATION") {
-              // For image, video, document formats, check if media URL is provided
-              if (headerComponent.format === "IMAGE" || headerComponent.format === "VIDEO" || headerComponent.format === "DOCUMENT") {
-                const mediaComponent = headerComponent as any;
-                if (!mediaComponent.example?.header_handle?.[0] || !mediaComponent.example.header_handle[0].trim()) {
-                  newErrors[`header_${index}`] = `${headerComponent.format} header must have a media file.`;
-                }
-              }
-            }
-            break;
-          case "BODY":
-            if (!component.text || !component.text.trim()) {
-              newErrors[`body_${index}`] = "Body text is required.";
-            } else if (component.text.length > 1024) {
-              newErrors[`body_${index}`] = "Body text cannot exceed 1024 characters.";
-            } else {
-              // Check for variables in body text (both positional and named)
-              const bodyComponent = component as BodyComponent;
-              const positionalMatches = bodyComponent.text.match(/\{\{(\d+)\}\}/g);
-              const namedMatches = bodyComponent.text.match(/\{\{([A-Za-z_][\w]*)\}\}/g);
-              
-              // Check positional parameters
-              if (positionalMatches && positionalMatches.length > 0) {
-                if (!bodyComponent.example?.body_text || !bodyComponent.example.body_text[0]) {
-                  newErrors[`body_${index}`] = "Body text contains variables ({{1}}, {{2}}, etc.) but example values are required.";
-                } else {
-                  const examples = bodyComponent.example.body_text[0] || [];
-                  const requiredCount = positionalMatches.length;
-                  const providedCount = examples.filter((ex: string) => ex && ex.trim().length > 0).length;
-                  
-                  if (providedCount < requiredCount) {
-                    newErrors[`body_${index}`] = `Body text contains ${requiredCount} variable(s) but only ${providedCount} example value(s) provided. Please provide example values for all variables.`;
-                  }
-                }
-              }
-              
-              // Check named parameters
-              if (namedMatches && namedMatches.length > 0) {
-                if (!bodyComponent.example?.body_text_named_params) {
-                  newErrors[`body_${index}`] = "Body text contains named variables ({{variable_name}}, etc.) but example values are required.";
-                } else {
-                  const variableNames = Array.from(new Set(
-                    namedMatches.map((match: string) => match.replace(/[{}]/g, ''))
-                  ));
-                  const providedNames = bodyComponent.example.body_text_named_params.map((param: any) => param.param_name);
-                  const missingNames = variableNames.filter((name: string) => !providedNames.includes(name));
-                  
-                  if (missingNames.length > 0) {
-                    newErrors[`body_${index}`] = `Body text contains variables (${missingNames.map((n: string) => `{{${n}}}`).join(', ')}) but example values are missing.`;
-                  } else {
-                    // Check for empty examples
-                    const emptyExamples = bodyComponent.example.body_text_named_params.filter(
-                      (param: any) => !param.example || !param.example.trim()
-                    );
-                    if (emptyExamples.length > 0) {
-                      newErrors[`body_${index}`] = `Example values are required for all variables. Please fill in: ${emptyExamples.map((p: any) => `{{${p.param_name}}}`).join(', ')}`;
-                    }
-                  }
-                }
-              }
-            }
-            break;
-          case "FOOTER":
-            const footerComponent = component as FooterComponent;
-            if (!footerComponent.text || !footerComponent.text.trim()) {
-              newErrors[`footer_${index}`] = "Footer text is required.";
-            } else if (footerComponent.text.length > 60) {
-              newErrors[`footer_${index}`] = "Footer text cannot exceed 60 characters.";
-            }
-            break;
-          case "BUTTONS":
-            const buttonsComponent = component as ButtonsComponent;
-            
-            // Check if buttons exist
-            if (buttonsComponent.buttons.length === 0) {
-              newErrors[`buttons_${index}`] = "Add at least one button or remove the Buttons component.";
-            }
-            
-            // Count button types
-            const quickReplyCount = buttonsComponent.buttons.filter(b => b.type === 'QUICK_REPLY').length;
-            const urlCount = buttonsComponent.buttons.filter(b => b.type === 'URL').length;
-            const phoneCount = buttonsComponent.buttons.filter(b => b.type === 'PHONE_NUMBER').length;
-            const totalButtonCount = buttonsComponent.buttons.length;
-            
-            // WhatsApp Button Total Limit Validation
-            if (totalButtonCount > 10) {
-              newErrors[`buttons_${index}`] = "Maximum 10 buttons allowed per template.";
-            }
-            
-            // WhatsApp Button Type Limits Validation
-            if (quickReplyCount > 10) {
-              newErrors[`buttons_${index}`] = "Maximum 10 Quick Reply buttons allowed per template.";
-            }
-            if (urlCount > 2) {
-              newErrors[`buttons_${index}`] = "Maximum 2 URL buttons allowed per template.";
-            }
-            if (phoneCount > 1) {
-              newErrors[`buttons_${index}`] = "Maximum 1 Phone Number button allowed per template.";
-            }
-            
-            // WhatsApp Button Ordering Validation: Buttons of the same type must be grouped together
-            // Valid: QR, QR, QR, URL, URL, CALL
-            // Valid: URL, URL, CALL, QR, QR
-            // Invalid: QR, URL, QR (interrupted QR group)
-            if (buttonsComponent.buttons.length > 0) {
-              const buttonTypes = buttonsComponent.buttons.map(b => {
-                if (b.type === 'QUICK_REPLY') return 'QR';
-                if (b.type === 'URL') return 'URL';
-                return 'CALL';
-              });
-              
-              let transitions = 0;
-              for (let i = 1; i < buttonTypes.length; i++) {
-                if (buttonTypes[i] !== buttonTypes[i - 1]) {
-                  transitions++;
-                }
-              }
-              
-              // With 3 button types (QR, URL, CALL), max valid transitions is 2
-              // Example: QR group -> URL group -> CALL group = 2 transitions
-              if (transitions > 2) {
-                newErrors[`buttons_${index}`] = "Invalid button order. Buttons of the same type must be grouped together. Example: [QR, QR, URL, URL, CALL] is valid, but [QR, URL, QR] is invalid.";
-              }
-            }
-            
-            // Individual button field validation
-            buttonsComponent.buttons.forEach((button, btnIndex) => {
-              // Button Text Validation (required, max 25 chars)
-              if ('text' in button) {
-                if (!button.text || !button.text.trim()) {
-                  newErrors[`button_${index}_${btnIndex}_text`] = "Button text is required.";
-                } else if (button.text.length > 25) {
-                  newErrors[`button_${index}_${btnIndex}_text`] = "Button text cannot exceed 25 characters.";
-                }
-              }
+  const isCallPermissionRequest = components.some((c) => c.type === "CALL_PERMISSION_REQUEST");
 
-              // URL Button Validation
-              if (button.type === "URL") {
-                if (!button.url || !button.url.trim()) {
-                  newErrors[`button_${index}_${btnIndex}_url`] = "URL is required.";
-                } else if (button.url.length > 2000) {
-                  newErrors[`button_${index}_${btnIndex}_url`] = "URL cannot exceed 2000 characters.";
-                } else {
-                  // Validate URL format
-                  const isDynamic = /\{\{(\d+)\}\}/.test(button.url);
-                  let urlToValidate = button.url;
-                  
-                  if (isDynamic) {
-                    // For dynamic URLs, validate base URL
-                    urlToValidate = button.url.replace(/\{\{(\d+)\}\}.*$/, '');
-                    if (urlToValidate.trim().length === 0) {
-                      newErrors[`button_${index}_${btnIndex}_url`] = "Dynamic URL must have a valid base URL before the parameter.";
-                    } else {
-                      // For dynamic URLs, example value is REQUIRED
-                      if (!button.example || !button.example.length || !button.example[0] || !button.example[0].trim()) {
-                        newErrors[`button_${index}_${btnIndex}_url`] = "Example value is required for dynamic URLs. Please provide an example value for the {{1}} parameter.";
-                      } else {
-                        const exampleValue = button.example[0];
-                        if (exampleValue.startsWith('http://') || exampleValue.startsWith('https://')) {
-                          newErrors[`button_${index}_${btnIndex}_url`] = "Dynamic URL example value should not include http:// or https://. Provide only the parameter value.";
-                        } else {
-                          urlToValidate = urlToValidate + exampleValue;
-                        }
-                      }
-                    }
-                  }
-                  
-                  // Validate URL format using regex
-                  if (urlToValidate && !isDynamic) {
-                    // Only validate format if it's not a dynamic URL or if it should be a URL
-                    if (!urlToValidate.startsWith('http://') && !urlToValidate.startsWith('https://')) {
-                      newErrors[`button_${index}_${btnIndex}_url`] = "URL must start with http:// or https://";
-                    }
-                  }
-                }
-              }
-              
-              // Phone Number Button Validation
-              else if (button.type === "PHONE_NUMBER") {
-                if (!button.phone_number || !button.phone_number.trim()) {
-                  newErrors[`button_${index}_${btnIndex}_phone`] = "Phone number is required.";
-                } else if (button.phone_number.length > 20) {
-                  newErrors[`button_${index}_${btnIndex}_phone`] = "Phone number cannot exceed 20 characters.";
-                }
-              }
-            });
-            break;
-        }
-      });
+  const handleCallPermissionRequestToggle = (enabled: boolean) => {
+    // Clear API errors when user makes changes
+    if (apiErrors.length > 0) {
+      setApiErrors([]);
     }
+    setComponents((prev) => {
+      // Call permission requests only combine the body with the request
+      const body = (prev.find((c) => c.type === "BODY") as BodyComponent | undefined) || { type: "BODY", text: "" };
+      return enabled ? [body, { type: "CALL_PERMISSION_REQUEST" }] : [body];
+    });
+  };
 
-    return newErrors;
-  }, [name, language, category, components, authComponents]);
-
-  useEffect(() => {
-    const handler = setTimeout(() => {
-      const newErrors = validate();
-      const isValid = Object.keys(newErrors).length === 0;
-      setIsFormValid(isValid);
-
-      // Always update errors so real-time validation works
-      // This ensures errors appear/disappear as user types
-      setErrors(newErrors);
-    }, 300); // Debounce validation
-
-    return () => {
-      clearTimeout(handler);
-    };
-  }, [validate]);
-
-  const focusOnFirstError = (errors: Record<string, any>) => {
-    const errorKeys = Object.keys(errors);
-    if (errorKeys.length === 0) return;
-
-    // Map error keys to element IDs
-    const errorElementMap: Record<string, string> = {
-      name: 'template-name',
-      language: 'template-language',
-      body_0: 'body-textarea',
-    };
+  const handleTemplateKindChange = (kind: TemplateKind) => {
+    // Clear API errors when user makes changes
+    if (apiErrors.length > 0) {
+      setApiErrors([]);
+    }
+    setTemplateKind(kind);
+    setComponents((prev) => {
+      const body = (prev.find((c) => c.type === "BODY") as BodyComponent | undefined) || { type: "BODY", text: "" };
+      return kind === "STANDARD" ? [body] : createCommerceComponents(kind, body);
+    });
+    setCommerceButtonText(kind === "STANDARD" ? "" : getDefaultCommerceButtonText(kind));
+  };
 
-    // Find the first error element to focus on
-    for (const errorKey of errorKeys) {
-      let elementId = errorElementMap[errorKey];
-      
-      if (!elementId) {
-        // Handle component-specific errors
-        if (errorKey.startsWith('header_')) {
-          const headerIndex = errorKey.split('_')[1];
-          elementId = `header-text-${headerIndex}`;
-        } else if (errorKey.startsWith('footer_')) {
-          const footerIndex = errorKey.split('_')[1];
-          elementId = `footer-text-${footerIndex}`;
-        } else if (errorKey.startsWith('buttons_')) {
-          const buttonsIndex = errorKey.split('_')[1];
-          elementId = `buttons-${buttonsIndex}`;
-        } else if (errorKey.startsWith('button_')) {
-          const parts = errorKey.split('_');
-          const componentIndex = parts[1];
-          const buttonIndex = parts[2];
-          const fieldType = parts[3];
-          elementId = `btn-${fieldType}-${buttonIndex}`;
-        }
-      }
+  const removeComponent = (index: number) => {
+    const component = components[index];
+    if (!component || component.type === "BODY") return; // Body is required
+    setComponents((prev) => prev.filter((_, i) => i !== index));
+  };
 
-      if (elementId) {
-        const element = document.getElementById(elementId);
-        if (element) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          element.focus();
-          break;
-        }
-      }
-    }
+  // The rule set decides what blocks submit, its errors are shown next to the fields they point at
+  const fieldErrors = useMemo(() => {
+    const merged: Record<string, string> = {};
+    userErrors.forEach((error) => {
+      if (!merged[error.field]) merged[error.field] = MetaTemplateValidator.getErrorMessage(error, validationMessages);
+    });
+    return merged;
+  }, [userErrors, validationMessages]);
+
+  const focusOnFirstError = (paths: string[]) => {
+    if (paths.length > 0) focusFirstFieldPath(paths);
   };
 
   const handleSubmit = async () => {
     setIsSubmittedOnce(true);
-    const newErrors = validate();
-    const isFormValid = Object.keys(newErrors).length === 0;
-    setErrors(newErrors);
-
-    if (!isFormValid) {
-      // Store validation errors instead of showing toast
-      setApiErrors([dict.validation.fillRequiredFields]);
-      
-      // Focus on the first error element
-      focusOnFirstError(newErrors);
-      return;
-    }
 
     // Create payload based on category
     let payload: CreateTemplatePayload;
@@ -631,7 +503,9 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
     
     switch (category) {
       case "MARKETING":
-        payload = { name, language, category, parameter_format: finalDetectedFormat.toLowerCase() as "named" | "positional", components };
+        payload = templateKind === "STANDARD"
+          ? { name, language, category, parameter_format: finalDetectedFormat.toLowerCase() as "named" | "positional", components }
+          : { name, language, category, parameter_format: finalDetectedFormat.toLowerCase(), components: withCommerceButton(templateKind, components, commerceButtonText) } as CreateTemplatePayload;
         break;
       case "UTILITY":
         payload = { name, language, category, parameter_format: finalDetectedFormat.toLowerCase() as "named" | "positional", components };
@@ -652,10 +526,10 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
       // Store Meta validation errors instead of showing toast
       const metaErrors = [];
       if (metaValidation.errors && metaValidation.errors.length > 0) {
-        metaErrors.push(...metaValidation.errors.map((error: any) => error.message || error));
+        metaErrors.push(...metaValidation.errors.map(messageOf));
       }
       if (metaValidation.userErrors && metaValidation.userErrors.length > 0) {
-        metaErrors.push(...metaValidation.userErrors.map((error: any) => error.message || error));
+        metaErrors.push(...metaValidation.userErrors.map(messageOf));
       }
       if (metaErrors.length === 0) {
         metaErrors.push(dict.validation.fixIssuesBeforeCreating);
@@ -663,7 +537,7 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
       setApiErrors(metaErrors);
       
       // Focus on the first error element
-      focusOnFirstError(newErrors);
+      focusOnFirstError(metaValidation.userErrors.map((error) => error.field));
       return;
     }
 
@@ -671,14 +545,23 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
     setApiErrors([]); // Clear any previous API errors
     
     try {
-      await onSubmit(payload);
+      // An edit gets the existing media samples back as CDN URLs, Meta only accepts upload handles
+      await onSubmit(isEditMode && wabaId ? await rehostMediaHandles(payload, wabaId) : payload);
       
       // Show success toast message
-      toast({
-        title: dict.webhook?.template?.createdSuccessfully || "Template created successfully!",
-        description: dict.webhook?.template?.sentForApproval || "Your template has been submitted and is now pending approval from Meta.",
-        duration: 5000,
-      });
+      toast(
+        isEditMode
+          ? {
+              title: dict.updatedSuccessfully || "Template updated successfully!",
+              description: dict.sentForReview || "Your changes have been submitted and are pending review by Meta.",
+              duration: 5000,
+            }
+          : {
+              title: dict.webhook?.template?.createdSuccessfully || "Template created successfully!",
+              description: dict.webhook?.template?.sentForApproval || "Your template has been submitted and is now pending approval from Meta.",
+              duration: 5000,
+            }
+      );
       
     } catch (error) {
       let errorMessage = formatMetaDisplay(error);
@@ -816,6 +699,10 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
       }
     };
 
+    const bodyPath = (...segments: (string | number)[]) => fieldPath("components", "BODY", ...segments);
+    // Example errors are listed under the text too, next to the orange hints
+    const bodyError = findFieldError(fieldErrors, bodyPath());
+
     return (
         <Card key={index} className="overflow-hidden">
             <CardHeader className="px-3 sm:px-6 pb-3">
@@ -836,13 +723,14 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                     style={{ minHeight: '120px', maxHeight: '300px' }}
                     className="text-base sm:text-sm resize-y"
                     rows={5}
-                    maxLength={1024}
+                    maxLength={limits.body_text.max}
                     value={component.text}
                     onChange={e => handleBodyChange(e.target.value)}
                     disabled={isLoading}
+                    {...fieldPathProps(bodyPath("text"), fieldErrors[bodyPath("text")])}
                 />
-                <p className="text-xs sm:text-sm text-muted-foreground mt-1">Max length: {component.text.length}/1024 characters</p>
-                {errors[`body_${index}`] && <p className="text-xs sm:text-sm text-destructive mt-1">{errors[`body_${index}`]}</p>}
+                <p className="text-xs sm:text-sm text-muted-foreground mt-1">Max length: {component.text.length}/{limits.body_text.max} characters</p>
+                {bodyError && <p className="text-xs sm:text-sm text-destructive mt-1">{bodyError}</p>}
                 {/* Named Parameters Examples */}
                 {(parameterFormat === "NAMED" && component.example?.body_text_named_params && component.example.body_text_named_params.length > 0) && (
                     <div className="mt-4 space-y-4 pt-4 border-t">
@@ -860,6 +748,10 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                                     onChange={e => handleExampleChange(example.param_name, e.target.value)}
                                     disabled={isLoading}
                                     className="text-base sm:text-sm"
+                                    {...fieldPathProps(
+                                      bodyPath("example", "body_text_named_params", i, "example"),
+                                      fieldErrors[bodyPath("example", "body_text_named_params", i, "example")]
+                                    )}
                                 />
                                 {!example.example?.trim() && (
                                   <p className="text-xs text-orange-600 dark:text-orange-400">
@@ -894,6 +786,7 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                                     onChange={e => handleExampleChange((i + 1).toString(), e.target.value)}
                                     disabled={isLoading}
                                     className="text-base sm:text-sm"
+                                    {...fieldPathProps(bodyPath("example", "body_text", 0, i), fieldErrors[bodyPath("example", "body_text", 0, i)])}
                                 />
                                 {!example?.trim() && (
                                   <p className="text-xs text-orange-600 dark:text-orange-400">
@@ -941,8 +834,9 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
           }
           disabled={isLoading}
           className="text-base sm:text-sm"
+          {...fieldPathProps(FOOTER_TEXT_PATH, fieldErrors[FOOTER_TEXT_PATH])}
         />
-        {errors[`footer_${index}`] && <p className="text-xs sm:text-sm text-destructive mt-1">{errors[`footer_${index}`]}</p>}
+        {fieldErrors[FOOTER_TEXT_PATH] && <p className="text-xs sm:text-sm text-destructive mt-1">{fieldErrors[FOOTER_TEXT_PATH]}</p>}
       </CardContent>
     </Card>
   );
@@ -957,18 +851,14 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
       if (type === "URL") newButton = { type: "URL", text: "", url: "" };
       else if (type === "PHONE_NUMBER")
         newButton = { type: "PHONE_NUMBER", text: "", phone_number: "" };
+      else if (type === "COPY_CODE") newButton = { type: "COPY_CODE", example: "" };
+      else if (type === "FLOW")
+        newButton = { type: "FLOW", text: "", flow_id: "", flow_action: "navigate", navigate_screen: "" };
       else newButton = { type: "QUICK_REPLY", text: "" };
       
       // Smart insertion: Automatically place new button in the correct group to maintain sequence
       const buttons = component.buttons;
       
-      // Define button type order (QR → URL → CALL)
-      const getTypeOrder = (btnType: string) => {
-        if (btnType === "QUICK_REPLY") return 0;
-        if (btnType === "URL") return 1;
-        return 2; // PHONE_NUMBER
-      };
-      
       let insertIndex = buttons.length; // Default: add at the end
       
       if (buttons.length === 0) {
@@ -993,11 +883,11 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
         
         // If we didn't find any buttons of this type, insert at the appropriate position based on type order
         if (!foundGroup) {
-          const newTypeOrder = getTypeOrder(type);
+          const newTypeOrder = getButtonGroupOrder(type);
           
           for (let i = 0; i < buttons.length; i++) {
             if (!buttons[i]) continue;
-            const currentTypeOrder = getTypeOrder(buttons[i]?.type || "");
+            const currentTypeOrder = getButtonGroupOrder(buttons[i]?.type || "");
             
             // If current button has higher order (comes later), insert before it
             if (currentTypeOrder > newTypeOrder) {
@@ -1100,7 +990,14 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
     const phoneCount = component.buttons.filter(
       (b) => b.type === "PHONE_NUMBER"
     ).length;
+    const copyCodeCount = component.buttons.filter(
+      (b) => b.type === "COPY_CODE"
+    ).length;
+    const flowCount = component.buttons.filter((b) => b.type === "FLOW").length;
     const totalButtonCount = component.buttons.length;
+    const maxButtons = (category === "UTILITY" ? limits.utility_buttons : limits.marketing_buttons).max;
+    const maxUrlButtons = limits.url_buttons.max;
+    const maxPhoneButtons = limits.phone_number_buttons.max;
 
     return (
       <Card key={pIndex} id={`buttons-${pIndex}`} className="overflow-hidden">
@@ -1110,14 +1007,14 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
               <CardTitle className="text-base sm:text-lg">Buttons</CardTitle>
               <CardDescription className="mt-1">
                 <p className="text-xs text-muted-foreground leading-relaxed">
-                  Maximum 10 buttons total. Quick Reply (max 10), URL (max 2), Phone (max 1). Buttons automatically group by type. Swapping moves entire button groups to maintain proper sequence.
+                  Maximum {maxButtons} buttons total. Quick Reply (max {maxButtons}), Copy Code (max 1), URL (max {maxUrlButtons}), Phone (max {maxPhoneButtons}), Flow (max 1). Buttons automatically group by type. Swapping moves entire button groups to maintain proper sequence.
                 </p>
               </CardDescription>
             </div>
             <div className="flex items-center gap-2 flex-shrink-0">
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
-                  <Button variant="outline" size="sm" className="text-xs sm:text-sm">
+                  <Button variant="outline" size="sm" className="text-xs sm:text-sm" {...fieldPathProps(BUTTONS_PATH)}>
                     <PlusCircle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                     <span className="hidden sm:inline">Add a Button</span>
                     <span className="sm:hidden">Add</span>
@@ -1126,21 +1023,33 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                 <DropdownMenuContent>
                   <DropdownMenuItem
                     onClick={() => addButton("QUICK_REPLY")}
-                    disabled={quickReplyCount >= 10 || totalButtonCount >= 10}
+                    disabled={totalButtonCount >= maxButtons}
+                  >
+                    Quick Reply {quickReplyCount > 0 && `(${quickReplyCount}/${maxButtons})`}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => addButton("COPY_CODE")}
+                    disabled={copyCodeCount >= 1 || totalButtonCount >= maxButtons}
                   >
-                    Quick Reply {quickReplyCount > 0 && `(${quickReplyCount}/10)`}
+                    Copy Offer Code {copyCodeCount > 0 && `(1/1)`}
                   </DropdownMenuItem>
                   <DropdownMenuItem
                     onClick={() => addButton("URL")}
-                    disabled={urlCount >= 2 || totalButtonCount >= 10}
+                    disabled={urlCount >= maxUrlButtons || totalButtonCount >= maxButtons}
                   >
-                    Visit Website {urlCount > 0 && `(${urlCount}/2)`}
+                    Visit Website {urlCount > 0 && `(${urlCount}/${maxUrlButtons})`}
                   </DropdownMenuItem>
                   <DropdownMenuItem
                     onClick={() => addButton("PHONE_NUMBER")}
-                    disabled={phoneCount >= 1 || totalButtonCount >= 10}
+                    disabled={phoneCount >= maxPhoneButtons || totalButtonCount >= maxButtons}
+                  >
+                    Call Phone Number {phoneCount > 0 && `(${phoneCount}/${maxPhoneButtons})`}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => addButton("FLOW")}
+                    disabled={flowCount >= 1 || totalButtonCount >= maxButtons}
                   >
-                    Call Phone Number {phoneCount > 0 && `(1/1)`}
+                    Complete Flow {flowCount > 0 && `(1/1)`}
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -1154,50 +1063,31 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
               </Button>
             </div>
           </div>
-           {errors[`buttons_${pIndex}`] && <p className="text-xs sm:text-sm text-destructive mt-2">{errors[`buttons_${pIndex}`]}</p>}
+           {fieldErrors[BUTTONS_PATH] && <p className="text-xs sm:text-sm text-destructive mt-2">{fieldErrors[BUTTONS_PATH]}</p>}
         </CardHeader>
         {component.buttons.length > 0 && <CardContent className="space-y-4 px-3 sm:px-6">
           {component.buttons.map((button, index) => {
+            const buttonPath = (...segments: (string | number)[]) => fieldPath(BUTTONS_PATH, index, ...segments);
+            const pathProps = (...segments: (string | number)[]) =>
+              fieldPathProps(buttonPath(...segments), fieldErrors[buttonPath(...segments)]);
             const otherButtons = component.buttons.filter(
               (_, i) => i !== index
             );
 
             const currentQuickReplyCount = component.buttons.filter((b) => b.type === "QUICK_REPLY").length;
             
-            // Check if buttons are properly grouped (same types are contiguous)
-            const hasProperGrouping = () => {
-              if (component.buttons.length === 0) return true;
-              const buttonTypes = component.buttons.map(b => b.type === 'QUICK_REPLY' ? 'QR' : (b.type === 'URL' ? 'URL' : 'CALL'));
-              let transitions = 0;
-              for (let i = 1; i < buttonTypes.length; i++) {
-                if (buttonTypes[i] !== buttonTypes[i - 1]) {
-                  transitions++;
-                }
-              }
-              // Valid grouping: transitions should be at most the number of distinct groups - 1
-              // If all types are properly grouped, we should have minimal transitions
-              return transitions <= 2; // Allow: QR group, URL group, CALL group = 2 transitions max
-            };
-            
             // Simulate changing the current button type and check if it maintains proper grouping
             const wouldMaintainGrouping = (newType: string) => {
               const simulatedButtons = [...component.buttons];
               simulatedButtons[index] = { ...button, type: newType } as any;
-              
-              const buttonTypes = simulatedButtons.map(b => b.type === 'QUICK_REPLY' ? 'QR' : (b.type === 'URL' ? 'URL' : 'CALL'));
-              let transitions = 0;
-              for (let i = 1; i < buttonTypes.length; i++) {
-                if (buttonTypes[i] !== buttonTypes[i - 1]) {
-                  transitions++;
-                }
-              }
-              // Max transitions for 3 button types is 2 (e.g., QR -> URL -> CALL)
-              return transitions <= 2;
+              return hasGroupedButtons(simulatedButtons);
             };
             
-            const disableQuickReply = !wouldMaintainGrouping('QUICK_REPLY') || currentQuickReplyCount >= 10;
-            const disableUrl = !wouldMaintainGrouping('URL') || urlCount >= 2;
-            const disablePhone = !wouldMaintainGrouping('PHONE_NUMBER') || phoneCount >= 1;
+            const disableQuickReply = !wouldMaintainGrouping('QUICK_REPLY') || currentQuickReplyCount >= maxButtons;
+            const disableUrl = !wouldMaintainGrouping('URL') || urlCount >= maxUrlButtons;
+            const disablePhone = !wouldMaintainGrouping('PHONE_NUMBER') || phoneCount >= maxPhoneButtons;
+            const disableCopyCode = !wouldMaintainGrouping('COPY_CODE') || copyCodeCount >= 1;
+            const disableFlow = !wouldMaintainGrouping('FLOW') || flowCount >= 1;
 
             return (
               <Card key={index} className="p-3 sm:p-4">
@@ -1238,21 +1128,35 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                            if (value === 'URL') updateButton(index, { type: 'URL', text: currentText, url: '' });
                            else if (value === 'PHONE_NUMBER') updateButton(index, { type: 'PHONE_NUMBER', text: currentText, phone_number: '' });
                            else if (value === 'QUICK_REPLY') updateButton(index, { type: 'QUICK_REPLY', text: currentText });
+                           else if (value === 'COPY_CODE') updateButton(index, { type: 'COPY_CODE', example: '' });
+                           else if (value === 'FLOW') updateButton(index, { type: 'FLOW', text: currentText, flow_id: '', flow_action: 'navigate', navigate_screen: '' });
                         }}>
-                           <SelectTrigger id={`btn-type-${index}`} className="text-base sm:text-sm"><SelectValue/></SelectTrigger>
+                           <SelectTrigger id={`btn-type-${index}`} className="text-base sm:text-sm" {...pathProps("type")}><SelectValue/></SelectTrigger>
                            <SelectContent>
                                <SelectItem value="QUICK_REPLY" disabled={disableQuickReply}>Quick Reply</SelectItem>
+                               <SelectItem value="COPY_CODE" disabled={disableCopyCode}>Copy Offer Code</SelectItem>
                                <SelectItem value="URL" disabled={disableUrl}>Visit Website (URL)</SelectItem>
                                <SelectItem value="PHONE_NUMBER" disabled={disablePhone}>Call Phone Number</SelectItem>
+                               <SelectItem value="FLOW" disabled={disableFlow}>Complete Flow</SelectItem>
                            </SelectContent>
                         </Select>
+                        {fieldErrors[buttonPath("type")] && <p className="text-xs sm:text-sm text-destructive mt-1">{fieldErrors[buttonPath("type")]}</p>}
                     </div>
 
                     {'text' in button && (
                         <div className="space-y-2">
                             <Label htmlFor={`btn-text-${index}`} className="text-sm">Button Text</Label>
-                            <Input id={`btn-text-${index}`} placeholder="Eg. View details" value={(button as any).text} onChange={e => updateButton(index, {...(button as any), text: e.target.value})} className="text-base sm:text-sm" />
-                            {errors[`button_${pIndex}_${index}_text`] && <p className="text-xs sm:text-sm text-destructive mt-1">{errors[`button_${pIndex}_${index}_text`]}</p>}
+                            <Input id={`btn-text-${index}`} placeholder="Eg. View details" value={(button as any).text} onChange={e => updateButton(index, {...(button as any), text: e.target.value})} className="text-base sm:text-sm" {...pathProps("text")} />
+                            {fieldErrors[buttonPath("text")] && <p className="text-xs sm:text-sm text-destructive mt-1">{fieldErrors[buttonPath("text")]}</p>}
+                        </div>
+                    )}
+
+                    {button.type === 'COPY_CODE' && (
+                        <div className="space-y-2">
+                            <Label htmlFor={`btn-code-${index}`} className="text-sm">Example Offer Code</Label>
+                            <Input id={`btn-code-${index}`} placeholder="Eg. SAVE20" maxLength={limits.copy_code_example.max} value={button.example} onChange={e => updateButton(index, {...button, example: e.target.value})} className="text-base sm:text-sm" {...pathProps("example")} />
+                            <p className="text-xs text-muted-foreground">Customers tap the button to copy the code. Max 15 characters.</p>
+                            {fieldErrors[buttonPath("example")] && <p className="text-xs sm:text-sm text-destructive mt-1">{fieldErrors[buttonPath("example")]}</p>}
                         </div>
                     )}
                 </div>
@@ -1320,10 +1224,11 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
               if (cleaned !== button.url) updateButton(index, { ...button, url: cleaned });
             }}
             className="text-base sm:text-sm"
+            {...pathProps("url")}
           />
-          {errors[`button_${pIndex}_${index}_url`] && (
+          {fieldErrors[buttonPath("url")] && (
             <p className="text-xs sm:text-sm text-destructive mt-1">
-              {errors[`button_${pIndex}_${index}_url`]}
+              {fieldErrors[buttonPath("url")]}
             </p>
           )}
         </div>
@@ -1345,6 +1250,7 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                 const finalUrl = ensureDynamicAtEnd(e.target.value);
                 updateButton(index, { ...button, url: finalUrl });
               }}
+              {...pathProps("url")}
             />
             <span className="p-2 bg-muted rounded-md text-muted-foreground text-xs sm:text-sm font-mono shrink-0 whitespace-nowrap text-center sm:text-left">
               {"{{1}}"}
@@ -1354,9 +1260,9 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
             The dynamic parameter {"{{1}}"} will be appended after you leave the field.
           </p>
 
-          {errors[`button_${pIndex}_${index}_url`] && (
+          {fieldErrors[buttonPath("url")] && (
             <p className="text-xs sm:text-sm text-destructive mt-1">
-              {errors[`button_${pIndex}_${index}_url`]}
+              {fieldErrors[buttonPath("url")]}
             </p>
           )}
 
@@ -1376,13 +1282,18 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                 updateButton(index, { ...button, example: v ? [v] : ["example-value"] });
               }}
               className="text-base sm:text-sm"
+              {...pathProps("example", 0)}
             />
             {(button.example?.[0] || button.url) && (
               <p className="text-xs text-muted-foreground">
                 Preview: {ensureDynamicAtEnd(stripParamAndAfter(button.url || "")).replace(/\{\{1\}\}/g, button.example?.[0] || "example")}
               </p>
             )}
-            {!button.example?.[0] && (
+            {fieldErrors[buttonPath("example", 0)] ? (
+              <p className="text-xs sm:text-sm text-destructive mt-1">
+                {fieldErrors[buttonPath("example", 0)]}
+              </p>
+            ) : !button.example?.[0] && (
               <p className="text-xs text-orange-600 dark:text-orange-400">
                 ⚠ Example value is required for dynamic URLs
               </p>
@@ -1399,10 +1310,20 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                 {button.type === 'PHONE_NUMBER' && (
                     <div className="mt-4 space-y-2">
                         <Label className="text-sm">Phone Number</Label>
-                        <Input placeholder="Enter a valid phone number" value={button.phone_number} onChange={e => updateButton(index, {...button, phone_number: e.target.value})} className="text-base sm:text-sm" />
-                        {errors[`button_${pIndex}_${index}_phone`] && <p className="text-xs sm:text-sm text-destructive mt-1">{errors[`button_${pIndex}_${index}_phone`]}</p>}
+                        <Input placeholder="Enter a valid phone number" value={button.phone_number} onChange={e => updateButton(index, {...button, phone_number: e.target.value})} className="text-base sm:text-sm" {...pathProps("phone_number")} />
+                        {fieldErrors[buttonPath("phone_number")] && <p className="text-xs sm:text-sm text-destructive mt-1">{fieldErrors[buttonPath("phone_number")]}</p>}
                     </div>
                 )}
+
+                {button.type === 'FLOW' && (
+                    <FlowButtonEditor
+                        button={button}
+                        index={index}
+                        updateButton={updateButton}
+                        flows={flows}
+                        errors={fieldErrors}
+                    />
+                )}
               </Card>
             );
           })}
@@ -1418,15 +1339,21 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
           <div className="absolute inset-0 bg-background/80 backdrop-blur-sm z-10 flex items-center justify-center">
             <div className="flex flex-col items-center gap-4">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              <p className="text-lg font-medium">{dict.loading.creatingTemplate}</p>
+              <p className="text-lg font-medium">
+                {isEditMode ? dict.savingChanges || "Saving Changes..." : dict.loading.creatingTemplate}
+              </p>
               <p className="text-sm text-muted-foreground">{dict.loading.pleaseWait}</p>
             </div>
           </div>
         )}
         <CardHeader className="px-3 sm:px-6">
-          <CardTitle className="text-lg sm:text-xl">{dict.title}</CardTitle>
+          <CardTitle className="text-lg sm:text-xl">
+            {isEditMode ? dict.editTitle || "Edit Template" : dict.title}
+          </CardTitle>
           <CardDescription className="text-sm">
-            {dict.description}
+            {isEditMode
+              ? dict.editDescription || "Update the content of your template. Edited templates are reviewed by Meta again."
+              : dict.description}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6 sm:space-y-8 px-3 sm:px-6">
@@ -1446,13 +1373,16 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                       setApiErrors([]);
                     }
                   }}
-                  disabled={isLoading}
+                  disabled={isLoading || isEditMode}
                   className="text-base sm:text-sm"
+                  {...fieldPathProps("name", fieldErrors.name)}
                 />
                 <p className="text-xs sm:text-sm text-muted-foreground">
-                  {dict.templateNameHelp}
+                  {isEditMode
+                    ? dict.lockedFieldsHelp || "Name, language and category cannot be changed after a template is created."
+                    : dict.templateNameHelp}
                 </p>
-                {errors.name && <p className="text-xs sm:text-sm text-destructive mt-1">{errors.name}</p>}
+                {fieldErrors.name && <p className="text-xs sm:text-sm text-destructive mt-1">{fieldErrors.name}</p>}
               </div>
               <div className="sm:col-span-3 space-y-2">
                 <Label htmlFor="template-language" className="text-sm font-medium">{dict.language}</Label>
@@ -1462,8 +1392,8 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                   if (apiErrors.length > 0) {
                     setApiErrors([]);
                   }
-                }} disabled={isLoading}>
-                  <SelectTrigger id="template-language" className="text-base sm:text-sm">
+                }} disabled={isLoading || isEditMode}>
+                  <SelectTrigger id="template-language" className="text-base sm:text-sm" {...fieldPathProps("language", fieldErrors.language)}>
                     <SelectValue placeholder={dict.languagePlaceholder} />
                   </SelectTrigger>
                   <SelectContent>
@@ -1474,7 +1404,7 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                     ))}
                   </SelectContent>
                 </Select>
-                {errors.language && <p className="text-xs sm:text-sm text-destructive mt-1">{errors.language}</p>}
+                {fieldErrors.language && <p className="text-xs sm:text-sm text-destructive mt-1">{fieldErrors.language}</p>}
               </div>
               <div className="sm:col-span-3 space-y-2">
                 <Label className="text-sm font-medium">{dict.category}</Label>
@@ -1487,8 +1417,9 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                       value="MARKETING"
                       checked={category === "MARKETING"}
                       onChange={(e) => handleCategoryChange(e.target.value as "MARKETING" | "UTILITY" | "AUTHENTICATION")}
-                      disabled={isLoading}
+                      disabled={isLoading || isEditMode}
                       className="h-4 w-4 text-primary focus:ring-primary"
+                      {...fieldPathProps("category", fieldErrors.category)}
                     />
                     <Label htmlFor="category-marketing" className="text-sm font-normal cursor-pointer">
                       {dict.categories.marketing}
@@ -1502,8 +1433,9 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                       value="UTILITY"
                       checked={category === "UTILITY"}
                       onChange={(e) => handleCategoryChange(e.target.value as "MARKETING" | "UTILITY" | "AUTHENTICATION")}
-                      disabled={isLoading}
+                      disabled={isLoading || isEditMode}
                       className="h-4 w-4 text-primary focus:ring-primary"
+                      {...fieldPathProps("category", fieldErrors.category)}
                     />
                     <Label htmlFor="category-utility" className="text-sm font-normal cursor-pointer">
                       {dict.categories.utility}
@@ -1517,15 +1449,16 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                       value="AUTHENTICATION"
                       checked={category === "AUTHENTICATION"}
                       onChange={(e) => handleCategoryChange(e.target.value as "MARKETING" | "UTILITY" | "AUTHENTICATION")}
-                      disabled={isLoading}
+                      disabled={isLoading || isEditMode}
                       className="h-4 w-4 text-primary focus:ring-primary"
+                      {...fieldPathProps("category", fieldErrors.category)}
                     />
                     <Label htmlFor="category-authentication" className="text-sm font-normal cursor-pointer">
                       {dict.categories.authentication}
                     </Label>
                   </div>
                 </div>
-                {errors.category && <p className="text-xs sm:text-sm text-destructive mt-1">{errors.category}</p>}
+                {fieldErrors.category && <p className="text-xs sm:text-sm text-destructive mt-1">{fieldErrors.category}</p>}
               </div>
             </div>
           </div>
@@ -1537,52 +1470,168 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
               <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 sm:gap-2">
                 <h3 className="text-lg sm:text-xl font-semibold">{dict.components}</h3>
                 <div className="flex flex-wrap items-center gap-2">
-                  {!components.some((c) => c.type === "HEADER") && (
+                  {templateKind === "STANDARD" && !isCallPermissionRequest && !components.some((c) => c.type === "HEADER" || c.type === "CAROUSEL") && (
                     <Button variant="outline" onClick={() => addComponent("HEADER")} disabled={isLoading} size="sm" className="text-xs sm:text-sm">
                       <PlusCircle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                       <span className="hidden sm:inline">{dict.addHeader}</span>
                       <span className="sm:hidden">Header</span>
                     </Button>
                   )}
-                  {!components.some((c) => c.type === "FOOTER") && (
+                  {!components.some((c) => c.type === "FOOTER" || c.type === "CAROUSEL" || c.type === "LIMITED_TIME_OFFER" || c.type === "CALL_PERMISSION_REQUEST") && (
                     <Button variant="outline" onClick={() => addComponent("FOOTER")} disabled={isLoading} size="sm" className="text-xs sm:text-sm">
                       <PlusCircle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                       <span className="hidden sm:inline">{dict.addFooter}</span>
                       <span className="sm:hidden">Footer</span>
                     </Button>
                   )}
-                  {!components.some((c) => c.type === "BUTTONS") && (
+                  {templateKind === "STANDARD" && !isCallPermissionRequest && !components.some((c) => c.type === "BUTTONS" || c.type === "CAROUSEL") && (
                     <Button variant="outline" onClick={() => addComponent("BUTTONS")} disabled={isLoading} size="sm" className="text-xs sm:text-sm">
                       <PlusCircle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                       <span className="hidden sm:inline">{dict.addButtons}</span>
                       <span className="sm:hidden">Buttons</span>
                     </Button>
                   )}
+                  {/* Carousel templates only combine a body with the cards */}
+                  {templateKind === "STANDARD" && !components.some((c) => c.type !== "BODY") && (
+                    <Button variant="outline" onClick={() => addComponent("CAROUSEL")} disabled={isLoading} size="sm" className="text-xs sm:text-sm">
+                      <PlusCircle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                      <span className="hidden sm:inline">{dict.addCarousel || "Add Carousel"}</span>
+                      <span className="sm:hidden">Carousel</span>
+                    </Button>
+                  )}
                 </div>
               </div>
 
+              {category === "MARKETING" && (
+                <div className="space-y-2">
+                  <Label htmlFor="template-kind" className="text-sm font-medium">{dict.templateKind || "Template Type"}</Label>
+                  <Select value={templateKind} onValueChange={(value) => handleTemplateKindChange(value as TemplateKind)} disabled={isLoading}>
+                    <SelectTrigger id="template-kind" className="text-base sm:text-sm"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="STANDARD">{dict.templateKinds?.standard || "Standard"}</SelectItem>
+                      <SelectItem value="CATALOG">{dict.templateKinds?.catalog || "Catalog"}</SelectItem>
+                      <SelectItem value="SPM">{dict.templateKinds?.spm || "Single Product"}</SelectItem>
+                      <SelectItem value="MPM">{dict.templateKinds?.mpm || "Multi-Product"}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {category === "MARKETING" && templateKind === "STANDARD" && (
+                <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="lto-mode" className="text-sm font-medium">{dict.limitedTimeOffer || "Limited-Time Offer"}</Label>
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      {dict.limitedTimeOfferHelp || "Promote an offer with an offer code and an optional expiration countdown."}
+                    </p>
+                  </div>
+                  <Switch
+                    id="lto-mode"
+                    checked={isLimitedTimeOffer}
+                    onCheckedChange={handleLimitedTimeOfferToggle}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+
+              {(category === "MARKETING" || category === "UTILITY") && templateKind === "STANDARD" && (
+                <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="call-permission-mode" className="text-sm font-medium">{dict.callPermissionRequest || "Call Permission Request"}</Label>
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      {dict.callPermissionRequestHelp || "Ask customers for permission to call them on WhatsApp."}
+                    </p>
+                  </div>
+                  <Switch
+                    id="call-permission-mode"
+                    checked={isCallPermissionRequest}
+                    onCheckedChange={handleCallPermissionRequestToggle}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+
               <div className="space-y-4">
                 {components.map((component, index) => {
                   switch (component.type) {
                     case "HEADER":
-                      return <HeaderComponentEditor key={index} component={component as HeaderComponent} index={index} updateComponent={updateComponent} removeComponent={removeComponent} errors={errors} />;
+                      // Commerce headers are fixed by the layout and edited with the commerce button
+                      if (templateKind !== "STANDARD") return null;
+                      return <HeaderComponentEditor key={index} component={component as HeaderComponent} index={index} updateComponent={updateComponent} removeComponent={removeComponent} errors={fieldErrors} />;
                     case "BODY":
                       return renderBody(component as BodyComponent, index);
                     case "FOOTER":
                       return renderFooter(component as FooterComponent, index);
                     case "BUTTONS":
+                      // Offer buttons are edited together with the offer
+                      if (isLimitedTimeOffer) return null;
                       return renderButtons(
                         component as ButtonsComponent,
                         index
                       );
+                    case "LIMITED_TIME_OFFER": {
+                      const buttonsIndex = components.findIndex((c) => c.type === "BUTTONS");
+                      return (
+                        <LimitedTimeOfferEditor
+                          key={index}
+                          component={component as LimitedTimeOfferComponent}
+                          index={index}
+                          updateComponent={updateComponent}
+                          buttons={components[buttonsIndex] as ButtonsComponent | undefined}
+                          buttonsIndex={buttonsIndex}
+                          errors={fieldErrors}
+                          disabled={isLoading}
+                        />
+                      );
+                    }
+                    case "CALL_PERMISSION_REQUEST":
+                      return (
+                        <Card key={index} id={`call-permission-${index}`} className="overflow-hidden">
+                          <CardHeader className="px-3 sm:px-6">
+                            <CardTitle className="text-base sm:text-lg">{dict.callPermissionRequest || "Call Permission Request"}</CardTitle>
+                            <CardDescription className="text-xs sm:text-sm">
+                              Customers receive your message with a prompt to allow or decline WhatsApp calls from your business.
+                            </CardDescription>
+                          </CardHeader>
+                        </Card>
+                      );
+                    case "CAROUSEL":
+                      return <CarouselComponentEditor key={index} component={component as CarouselComponent} index={index} updateComponent={updateComponent} removeComponent={removeComponent} errors={fieldErrors} disabled={isLoading} limits={limits} />;
                     default:
                       return null;
                   }
                 })}
               </div>
+
+              {templateKind !== "STANDARD" && (
+                <CommerceTemplateEditor
+                  kind={templateKind}
+                  header={components.find((c) => c.type === "HEADER") as HeaderComponent | undefined}
+                  headerIndex={components.findIndex((c) => c.type === "HEADER")}
+                  updateComponent={updateComponent}
+                  buttonText={commerceButtonText}
+                  onButtonTextChange={setCommerceButtonText}
+                  errors={fieldErrors}
+                  disabled={isLoading}
+                />
+              )}
+
+              {(isLimitedTimeOffer || isCallPermissionRequest) && (
+                <div className="space-y-2">
+                  <h4 className="font-medium text-sm sm:text-base">{dict.preview || "Preview"}</h4>
+                  <WhatsAppMessagePreview
+                    components={components as unknown as ResponseComponent[]}
+                    className="max-w-md"
+                  />
+                </div>
+              )}
             </div>
           ) : (
-            <AuthenticationTemplateForm onChange={handleAuthFormChange} dictionary={dict} />
+            <AuthenticationTemplateForm
+              onChange={handleAuthFormChange}
+              dictionary={dict}
+              initialComponents={isEditMode ? authComponents : undefined}
+            />
           )}
 
           {/* Meta Validation Alert - Show API errors and user-facing errors */}
@@ -1605,16 +1654,16 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
                         • {error}
                       </div>
                     ))}
-                    {/* Validation Errors */}
-                    {userErrors.map((error, index) => (
-                      <div key={`validation-error-${index}`} className="text-sm">
-                        • {error.message}
+                    {/* Validation Errors, one per field with a link to it */}
+                    {Object.entries(fieldErrors).map(([path, message]) => (
+                      <div key={`validation-error-${path}`} className="text-sm">
+                        • <button type="button" className="text-left hover:underline" onClick={() => focusFieldPath(path)}>{message}</button>
                       </div>
                     ))}
                     {/* Warnings */}
                     {userWarnings.map((warning, index) => (
                       <div key={`warning-${index}`} className="text-sm">
-                        • {warning.message}
+                        • <button type="button" className="text-left hover:underline" onClick={() => focusFieldPath(warning.field)}>{messageOf(warning)}</button>
                       </div>
                     ))}
                   </div>
@@ -1674,14 +1723,16 @@ const CreateTemplateUI: React.FC<CreateTemplateUIProps> = ({
           <Button 
             variant="success" 
             onClick={handleSubmit} 
-            disabled={userErrors.length > 0 || Object.keys(errors).length > 0 || isLoading}
+            disabled={userErrors.length > 0 || isLoading}
             className="w-full sm:w-auto text-sm sm:text-base"
           >
             {isLoading ? (
               <>
                 <Loader2 className="mr-2 h-3 w-3 sm:h-4 sm:w-4 animate-spin" />
-                {dict.loading.creatingTemplate}
+                {isEditMode ? dict.savingChanges || "Saving Changes..." : dict.loading.creatingTemplate}
               </>
+            ) : isEditMode ? (
+              dict.saveChanges || "Save Changes"
             ) : (
               dict.createTemplate
             )}
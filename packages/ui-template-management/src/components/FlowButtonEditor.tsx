@@ -0,0 +1,187 @@
+"use client";
+
+import React from 'react';
+import type { FlowAction, FlowButton, WhatsAppFlow } from '../types/templateTypes';
+import { Input } from '@workspace/ui-core/components/input';
+import { Label } from '@workspace/ui-core/components/label';
+import { Textarea } from '@workspace/ui-core/components/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@workspace/ui-core/components/select';
+import { fieldPath, fieldPathProps } from '../lib/fieldPaths';
+
+type FlowSource = 'flow_id' | 'flow_json';
+
+interface FlowButtonEditorProps {
+    button: FlowButton;
+    index: number;
+    updateButton: (index: number, button: FlowButton) => void;
+    flows?: WhatsAppFlow[];
+    errors?: Record<string, string>; // Keyed by field path, see lib/fieldPaths
+    disabled?: boolean;
+}
+
+/**
+ * Read the screen ids from a Flow JSON definition, empty when the JSON is incomplete
+ */
+const getFlowScreens = (flowJson?: string): string[] => {
+    if (!flowJson) return [];
+    try {
+        const definition = JSON.parse(flowJson);
+        return Array.isArray(definition?.screens)
+            ? (definition.screens as ({ id?: unknown } | null)[])
+                .map(screen => screen?.id)
+                .filter((id): id is string => typeof id === 'string' && id.length > 0)
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+const FlowButtonEditor: React.FC<FlowButtonEditorProps> = ({
+    button,
+    index,
+    updateButton,
+    flows = [],
+    errors,
+    disabled = false,
+}) => {
+    const source: FlowSource = button.flow_json !== undefined ? 'flow_json' : 'flow_id';
+    const flowAction: FlowAction = button.flow_action || 'navigate';
+    const screens = source === 'flow_json' ? getFlowScreens(button.flow_json) : [];
+    const buttonPath = fieldPath('components', 'BUTTONS', 'buttons', index);
+    const flowPath = fieldPath(buttonPath, source);
+    const screenPath = fieldPath(buttonPath, 'navigate_screen');
+    const flowError = errors?.[flowPath];
+    const screenError = errors?.[screenPath];
+
+    const handleSourceChange = (value: FlowSource) => {
+        const base: FlowButton = {
+            type: 'FLOW',
+            text: button.text,
+            flow_action: button.flow_action,
+            navigate_screen: button.navigate_screen,
+        };
+        updateButton(index, value === 'flow_json' ? { ...base, flow_json: '' } : { ...base, flow_id: '' });
+    };
+
+    const handleActionChange = (value: FlowAction) => {
+        updateButton(index, {
+            ...button,
+            flow_action: value,
+            // Only navigate opens on a fixed screen, data_exchange lets the endpoint decide
+            navigate_screen: value === 'navigate' ? button.navigate_screen || '' : undefined,
+        });
+    };
+
+    return (
+        <div className="mt-4 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor={`btn-flow-source-${index}`} className="text-sm">Flow Source</Label>
+                    <Select value={source} onValueChange={value => handleSourceChange(value as FlowSource)} disabled={disabled}>
+                        <SelectTrigger id={`btn-flow-source-${index}`} className="text-base sm:text-sm"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="flow_id">Existing Flow</SelectItem>
+                            <SelectItem value="flow_json">Flow JSON</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor={`btn-flow-action-${index}`} className="text-sm">Flow Action</Label>
+                    <Select value={flowAction} onValueChange={value => handleActionChange(value as FlowAction)} disabled={disabled}>
+                        <SelectTrigger id={`btn-flow-action-${index}`} {...fieldPathProps(fieldPath(buttonPath, 'flow_action'), errors?.[fieldPath(buttonPath, 'flow_action')])} className="text-base sm:text-sm"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="navigate">Navigate to a screen</SelectItem>
+                            <SelectItem value="data_exchange">Data exchange</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            {source === 'flow_id' ? (
+                <div className="space-y-2">
+                    <Label htmlFor={`btn-flow-${index}`} className="text-sm">Flow</Label>
+                    {flows.length > 0 ? (
+                        <Select
+                            value={String(button.flow_id || '')}
+                            onValueChange={value => updateButton(index, { ...button, flow_id: value })}
+                            disabled={disabled}
+                        >
+                            <SelectTrigger id={`btn-flow-${index}`} {...fieldPathProps(flowPath, flowError)} className="text-base sm:text-sm">
+                                <SelectValue placeholder="Select a Flow" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {flows.map(flow => (
+                                    <SelectItem key={flow.id} value={flow.id}>
+                                        {flow.name}{flow.status ? ` (${flow.status})` : ''}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    ) : (
+                        <Input
+                            id={`btn-flow-${index}`}
+                            {...fieldPathProps(flowPath, flowError)}
+                            placeholder="Flow ID, e.g. 1234567890"
+                            value={button.flow_id || ''}
+                            onChange={e => updateButton(index, { ...button, flow_id: e.target.value.trim() })}
+                            disabled={disabled}
+                            className="text-base sm:text-sm"
+                        />
+                    )}
+                    {flowError && <p className="text-xs sm:text-sm text-destructive mt-1">{flowError}</p>}
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    <Label htmlFor={`btn-flow-${index}`} className="text-sm">Flow JSON</Label>
+                    <Textarea
+                        id={`btn-flow-${index}`}
+                        {...fieldPathProps(flowPath, flowError)}
+                        placeholder={'{"version": "6.0", "screens": [...]}'}
+                        rows={6}
+                        value={button.flow_json || ''}
+                        onChange={e => updateButton(index, { ...button, flow_json: e.target.value })}
+                        disabled={disabled}
+                        className="font-mono text-xs"
+                    />
+                    <p className="text-xs text-muted-foreground">The Flow is created together with the template.</p>
+                    {flowError && <p className="text-xs sm:text-sm text-destructive mt-1">{flowError}</p>}
+                </div>
+            )}
+
+            {flowAction === 'navigate' && (
+                <div className="space-y-2">
+                    <Label htmlFor={`btn-screen-${index}`} className="text-sm">First Screen</Label>
+                    {screens.length > 0 ? (
+                        <Select
+                            value={button.navigate_screen || ''}
+                            onValueChange={value => updateButton(index, { ...button, navigate_screen: value })}
+                            disabled={disabled}
+                        >
+                            <SelectTrigger id={`btn-screen-${index}`} {...fieldPathProps(screenPath, screenError)} className="text-base sm:text-sm">
+                                <SelectValue placeholder="Select a screen" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {screens.map(screen => (
+                                    <SelectItem key={screen} value={screen}>{screen}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    ) : (
+                        <Input
+                            id={`btn-screen-${index}`}
+                            {...fieldPathProps(screenPath, screenError)}
+                            placeholder="Screen ID, e.g. WELCOME_SCREEN"
+                            value={button.navigate_screen || ''}
+                            onChange={e => updateButton(index, { ...button, navigate_screen: e.target.value.trim() })}
+                            disabled={disabled}
+                            className="text-base sm:text-sm"
+                        />
+                    )}
+                    {screenError && <p className="text-xs sm:text-sm text-destructive mt-1">{screenError}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FlowButtonEditor;
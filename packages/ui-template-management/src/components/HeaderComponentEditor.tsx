@@ -11,6 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@workspace/ui-core/com
 import { Trash2, Loader2 } from 'lucide-react';
 import { fileUploadService, FileUploadService } from '../lib/fileUploadService';
 import { useWabaId } from '../hooks/useWabaId';
+import { fieldPath, fieldPathProps } from '../lib/fieldPaths';
 import FilePreview from './FilePreview';
 
 const MEDIA_CONSTRAINTS = {
@@ -35,9 +36,14 @@ interface HeaderComponentEditorProps {
     index: number;
     updateComponent: (index: number, component: HeaderComponent) => void;
     removeComponent: (index: number) => void;
-    errors?: Record<string, any>;
+    errors?: Record<string, any>; // Keyed by field path, see lib/fieldPaths
 }
 
+const HEADER_PATH = fieldPath('components', 'HEADER');
+const TEXT_PATH = fieldPath(HEADER_PATH, 'text');
+const TEXT_EXAMPLE_PATH = fieldPath(HEADER_PATH, 'example', 'header_text', 0);
+const MEDIA_PATH = fieldPath(HEADER_PATH, 'example', 'header_handle', 0);
+
 const HeaderComponentEditor: React.FC<HeaderComponentEditorProps> = ({
     component,
     index,
@@ -156,7 +162,7 @@ const HeaderComponentEditor: React.FC<HeaderComponentEditorProps> = ({
                     <div className="space-y-2">
                         <Label>Header Type</Label>
                         <Select value={component.format} onValueChange={handleFormatChange}>
-                            <SelectTrigger><SelectValue/></SelectTrigger>
+                            <SelectTrigger {...fieldPathProps(fieldPath(HEADER_PATH, 'format'), errors?.[fieldPath(HEADER_PATH, 'format')])}><SelectValue/></SelectTrigger>
                             <SelectContent>
                                 <SelectItem value="TEXT">Text</SelectItem>
                                 <SelectItem value="IMAGE">Image</SelectItem>
@@ -173,15 +179,17 @@ const HeaderComponentEditor: React.FC<HeaderComponentEditorProps> = ({
                     <div className="space-y-4 pt-4 border-t">
                         <div className="space-y-2">
                             <Label htmlFor={`header-text-${index}`}>Header Text</Label>
-                            <Input id={`header-text-${index}`} placeholder="E.g., Your order {{1}} is on its way" value={component.text} onChange={e => handleTextChange(e.target.value)} />
+                            <Input id={`header-text-${index}`} {...fieldPathProps(TEXT_PATH, errors?.[TEXT_PATH])} placeholder="E.g., Your order {{1}} is on its way" value={component.text} onChange={e => handleTextChange(e.target.value)} />
                              <p className="text-sm text-muted-foreground">You can include one variable, like {`{{1}}`}.</p>
-                             {errors && errors[`header_${index}`] && <p className="text-sm text-destructive mt-1">{errors[`header_${index}`]}</p>}
+                             {errors?.[TEXT_PATH] && <p className="text-sm text-destructive mt-1">{errors[TEXT_PATH]}</p>}
                         </div>
                         {component.text.includes('{{1}}') && (
                             <div className="space-y-2">
                                 <Label htmlFor={`header-example-${index}`}>Example Value for {`{{1}}`}</Label>
-                                <Input id={`header-example-${index}`} placeholder="E.g., #12345" value={component.example?.header_text?.[0] || ''} onChange={e => handleExampleChange(e.target.value)} />
-                                {!component.example?.header_text?.[0]?.trim() && (
+                                <Input id={`header-example-${index}`} {...fieldPathProps(TEXT_EXAMPLE_PATH, errors?.[TEXT_EXAMPLE_PATH])} placeholder="E.g., #12345" value={component.example?.header_text?.[0] || ''} onChange={e => handleExampleChange(e.target.value)} />
+                                {errors?.[TEXT_EXAMPLE_PATH] ? (
+                                  <p className="text-sm text-destructive mt-1">{errors[TEXT_EXAMPLE_PATH]}</p>
+                                ) : !component.example?.header_text?.[0]?.trim() && (
                                   <p className="text-xs text-orange-600 dark:text-orange-400">
                                     ⚠ Example value is required when using variables in header text
                                   </p>
@@ -200,6 +208,7 @@ const HeaderComponentEditor: React.FC<HeaderComponentEditorProps> = ({
                             <div className="flex items-center gap-2">
                                 <Input 
                                     id="file-upload" 
+                                    {...fieldPathProps(MEDIA_PATH, errors?.[MEDIA_PATH])}
                                     type="file" 
                                     onChange={handleFileChange} 
                                     disabled={isUploading || !wabaId} 
@@ -240,8 +249,8 @@ const HeaderComponentEditor: React.FC<HeaderComponentEditorProps> = ({
                         )}
                         
                         {/* Media URL validation error */}
-                        {errors && errors[`header_${index}`] && (
-                            <p className="text-sm text-destructive mt-2">{errors[`header_${index}`]}</p>
+                        {errors?.[MEDIA_PATH] && (
+                            <p className="text-sm text-destructive mt-2">{errors[MEDIA_PATH]}</p>
                         )}
                     </div>
                 )}
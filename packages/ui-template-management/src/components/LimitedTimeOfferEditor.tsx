@@ -0,0 +1,194 @@
+"use client";
+
+import React from 'react';
+import type { ButtonsComponent, CopyCodeButton, LimitedTimeOfferComponent, TemplateButton, UrlButton } from '../types/templateTypes';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@workspace/ui-core/components/card';
+import { Input } from '@workspace/ui-core/components/input';
+import { Label } from '@workspace/ui-core/components/label';
+import { Switch } from '@workspace/ui-core/components/switch';
+import { fieldPath, fieldPathProps } from '../lib/fieldPaths';
+
+const OFFER_TEXT_MAX_LENGTH = 16;
+const OFFER_CODE_MAX_LENGTH = 15;
+
+const OFFER_TEXT_PATH = fieldPath('components', 'LIMITED_TIME_OFFER', 'limited_time_offer', 'text');
+const BUTTONS_PATH = fieldPath('components', 'BUTTONS', 'buttons');
+
+interface LimitedTimeOfferEditorProps {
+    component: LimitedTimeOfferComponent;
+    index: number;
+    updateComponent: (index: number, component: LimitedTimeOfferComponent | ButtonsComponent) => void;
+    buttons?: ButtonsComponent;
+    buttonsIndex: number;
+    errors?: Record<string, string>; // Keyed by field path, see lib/fieldPaths
+    disabled?: boolean;
+}
+
+/**
+ * Buttons every limited-time offer starts with: the offer code first, then a link to redeem it
+ */
+export const createLimitedTimeOfferButtons = (): ButtonsComponent => ({
+    type: 'BUTTONS',
+    buttons: [
+        { type: 'COPY_CODE', example: '' },
+        { type: 'URL', text: '', url: '' },
+    ],
+});
+
+const LimitedTimeOfferEditor: React.FC<LimitedTimeOfferEditorProps> = ({
+    component,
+    index,
+    updateComponent,
+    buttons,
+    buttonsIndex,
+    errors,
+    disabled = false,
+}) => {
+    const offer = component.limited_time_offer;
+    const buttonList: TemplateButton[] = buttons?.buttons || [];
+    const copyCodeIndex = buttonList.findIndex(b => b.type === 'COPY_CODE');
+    const urlIndex = buttonList.findIndex(b => b.type === 'URL');
+    const copyCodeButton = buttonList[copyCodeIndex] as CopyCodeButton | undefined;
+    const urlButton = buttonList[urlIndex] as UrlButton | undefined;
+    // Without a copy code button the offer code error is reported on the buttons
+    const codePath = copyCodeButton ? fieldPath(BUTTONS_PATH, copyCodeIndex, 'example') : BUTTONS_PATH;
+    const urlPath = (field: string, ...rest: number[]) => fieldPath(BUTTONS_PATH, urlIndex, field, ...rest);
+
+    const updateOffer = (changes: Partial<LimitedTimeOfferComponent['limited_time_offer']>) => {
+        updateComponent(index, { ...component, limited_time_offer: { ...offer, ...changes } });
+    };
+
+    const updateButton = (buttonIndex: number, button: TemplateButton) => {
+        if (!buttons || buttonIndex < 0) return;
+        updateComponent(buttonsIndex, {
+            ...buttons,
+            buttons: buttons.buttons.map((b, i) => (i === buttonIndex ? button : b)),
+        });
+    };
+
+    const handleUrlChange = (url: string) => {
+        if (!urlButton) return;
+        const isDynamic = /\{\{1\}\}/.test(url);
+        updateButton(urlIndex, {
+            ...urlButton,
+            url,
+            example: isDynamic ? [urlButton.example?.[0] || ''] : undefined,
+        });
+    };
+
+    return (
+        <Card className="overflow-hidden" id={`lto-${index}`}>
+            <CardHeader className="px-3 sm:px-6 pb-3">
+                <CardTitle className="text-base sm:text-lg">Limited-Time Offer</CardTitle>
+                <CardDescription className="text-xs sm:text-sm">
+                    Highlight the offer above the message body. Customers copy the offer code and redeem it through the URL button.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 px-3 sm:px-6">
+                <div className="space-y-2">
+                    <Label htmlFor={`lto-text-${index}`}>Offer Text</Label>
+                    <Input
+                        id={`lto-text-${index}`}
+                        {...fieldPathProps(OFFER_TEXT_PATH, errors?.[OFFER_TEXT_PATH])}
+                        placeholder="E.g., Expiring offer!"
+                        maxLength={OFFER_TEXT_MAX_LENGTH}
+                        value={offer.text}
+                        onChange={e => updateOffer({ text: e.target.value })}
+                        disabled={disabled}
+                        className="text-base sm:text-sm"
+                    />
+                    <p className="text-xs sm:text-sm text-muted-foreground">Max length: {offer.text.length}/{OFFER_TEXT_MAX_LENGTH} characters</p>
+                    {errors?.[OFFER_TEXT_PATH] && <p className="text-xs sm:text-sm text-destructive">{errors[OFFER_TEXT_PATH]}</p>}
+                </div>
+
+                <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                    <div className="space-y-1">
+                        <Label htmlFor={`lto-expiration-${index}`}>Offer Expires</Label>
+                        <p className="text-xs text-muted-foreground">
+                            Show a countdown to the expiration time you send with each message.
+                        </p>
+                    </div>
+                    <Switch
+                        id={`lto-expiration-${index}`}
+                        checked={!!offer.has_expiration}
+                        onCheckedChange={checked => updateOffer({ has_expiration: checked })}
+                        disabled={disabled}
+                    />
+                </div>
+
+                <div className="space-y-2 pt-4 border-t">
+                    <Label htmlFor={`lto-code-${index}`}>Example Offer Code</Label>
+                    <Input
+                        id={`lto-code-${index}`}
+                        {...fieldPathProps(codePath, errors?.[codePath])}
+                        placeholder="E.g., SAVE20"
+                        maxLength={OFFER_CODE_MAX_LENGTH}
+                        value={copyCodeButton?.example || ''}
+                        onChange={e => copyCodeButton && updateButton(copyCodeIndex, { ...copyCodeButton, example: e.target.value })}
+                        disabled={disabled || !copyCodeButton}
+                        className="text-base sm:text-sm"
+                    />
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                        Shown on the copy code button. Max {OFFER_CODE_MAX_LENGTH} characters.
+                    </p>
+                    {errors?.[codePath] && <p className="text-xs sm:text-sm text-destructive">{errors[codePath]}</p>}
+                </div>
+
+                {urlButton && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor={`btn-text-${urlIndex}`}>Button Text</Label>
+                            <Input
+                                id={`btn-text-${urlIndex}`}
+                                {...fieldPathProps(urlPath('text'), errors?.[urlPath('text')])}
+                                placeholder="E.g., Book now"
+                                maxLength={25}
+                                value={urlButton.text}
+                                onChange={e => updateButton(urlIndex, { ...urlButton, text: e.target.value })}
+                                disabled={disabled}
+                                className="text-base sm:text-sm"
+                            />
+                            {errors?.[urlPath('text')] && (
+                                <p className="text-xs sm:text-sm text-destructive">{errors[urlPath('text')]}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor={`btn-url-${urlIndex}`}>URL</Label>
+                            <Input
+                                id={`btn-url-${urlIndex}`}
+                                {...fieldPathProps(urlPath('url'), errors?.[urlPath('url')])}
+                                placeholder="https://example.com/offer/{{1}}"
+                                value={urlButton.url}
+                                onChange={e => handleUrlChange(e.target.value)}
+                                disabled={disabled}
+                                className="text-base sm:text-sm"
+                            />
+                            {errors?.[urlPath('url')] && (
+                                <p className="text-xs sm:text-sm text-destructive">{errors[urlPath('url')]}</p>
+                            )}
+                        </div>
+                        {/\{\{1\}\}/.test(urlButton.url) && (
+                            <div className="space-y-2 sm:col-span-2">
+                                <Label htmlFor={`btn-example-${urlIndex}`}>Example Value for {`{{1}}`}</Label>
+                                <Input
+                                    id={`btn-example-${urlIndex}`}
+                                    {...fieldPathProps(urlPath('example', 0), errors?.[urlPath('example', 0)])}
+                                    placeholder="E.g., summer-sale"
+                                    value={urlButton.example?.[0] || ''}
+                                    onChange={e => updateButton(urlIndex, { ...urlButton, example: [e.target.value] })}
+                                    disabled={disabled}
+                                    className="text-base sm:text-sm"
+                                />
+                                {errors?.[urlPath('example', 0)] && (
+                                    <p className="text-xs sm:text-sm text-destructive">{errors[urlPath('example', 0)]}</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default LimitedTimeOfferEditor;
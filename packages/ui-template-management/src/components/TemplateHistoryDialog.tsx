@@ -0,0 +1,265 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@workspace/ui-core/components/dialog";
+import { Badge } from "@workspace/ui-core/components/badge";
+import { Label } from "@workspace/ui-core/components/label";
+import { Switch } from "@workspace/ui-core/components/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@workspace/ui-core/components/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@workspace/ui-core/components/table";
+import { History, Loader2 } from "lucide-react";
+import type { MessageTemplate } from "../types/templateTypes";
+import {
+  diffTemplatePayloads,
+  templateHistory,
+  type TemplateHistoryEntry,
+  type TemplateHistoryStore,
+} from "../lib/templateHistory";
+
+export interface TemplateHistoryDictionary {
+  title: string;
+  description: string;
+  empty: string;
+  submitted: string;
+  statusChange: string;
+  categoryChange: string;
+  compareWith: string;
+  field: string;
+  before: string;
+  after: string;
+  onlyChanges: string;
+  noChanges: string;
+  noContent: string;
+}
+
+// English text, shared with the history_dialog section of fallbackDictionary
+export const fallbackHistoryDictionary: TemplateHistoryDictionary = {
+  title: "Version History",
+  description: "Payloads submitted from this app and status changes seen since, newest first.",
+  empty: "No history has been recorded for this template yet.",
+  submitted: "Submitted",
+  statusChange: "Status {from} → {to}",
+  categoryChange: "Category {from} → {to}",
+  compareWith: "Compare with",
+  field: "Field",
+  before: "Before",
+  after: "After",
+  onlyChanges: "Only changes",
+  noChanges: "No differences between these versions.",
+  noContent: "This entry has no template content to compare.",
+};
+
+interface TemplateHistoryDialogProps {
+  template: MessageTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wabaId?: string | null;
+  store?: TemplateHistoryStore;
+  dictionary?: TemplateHistoryDictionary;
+}
+
+const TemplateHistoryDialog: React.FC<TemplateHistoryDialogProps> = ({
+  template,
+  open,
+  onOpenChange,
+  wabaId,
+  store = templateHistory,
+  dictionary,
+}) => {
+  const dict = dictionary || fallbackHistoryDictionary;
+
+  const [entries, setEntries] = useState<TemplateHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  useEffect(() => {
+    if (!open || !template) return;
+    let cancelled = false;
+    setLoading(true);
+    store
+      .getHistory(template.name, template.language, wabaId)
+      .then((history) => {
+        if (cancelled) return;
+        // Newest first
+        const newestFirst = [...history].reverse();
+        setEntries(newestFirst);
+        setSelectedId(newestFirst.find((entry) => entry.payload)?.id || null);
+      })
+      .catch((err) => {
+        console.error("Error loading template history:", err);
+        if (!cancelled) setEntries([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, template, wabaId, store]);
+
+  const versions = entries.filter((entry) => entry.payload);
+  const selected = entries.find((entry) => entry.id === selectedId);
+
+  // Compare with the version before the selected one unless another one is picked
+  useEffect(() => {
+    const index = versions.findIndex((entry) => entry.id === selectedId);
+    setCompareId(index >= 0 ? versions[index + 1]?.id || null : null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId, entries]);
+
+  const compared = versions.find((entry) => entry.id === compareId);
+  const diff = useMemo(
+    () => (selected?.payload ? diffTemplatePayloads(compared?.payload, selected.payload) : []),
+    [selected, compared]
+  );
+  const visibleRows = onlyChanges ? diff.filter((row) => row.changed) : diff;
+
+  const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+  const describeStatusChange = (entry: TemplateHistoryEntry) => {
+    const lines: string[] = [];
+    if (entry.status !== entry.previousStatus) {
+      lines.push(dict.statusChange.replace("{from}", entry.previousStatus || "—").replace("{to}", entry.status || "—"));
+    }
+    if (entry.category !== entry.previousCategory) {
+      lines.push(dict.categoryChange.replace("{from}", entry.previousCategory || "—").replace("{to}", entry.category || "—"));
+    }
+    return lines;
+  };
+
+  if (!template) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl max-h-svh flex flex-col template-history-dialog" autoFocusFirstInput={false}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            {dict.title}
+            <code className="text-xs font-mono bg-muted px-2 py-1 rounded text-muted-foreground">
+              {template.name}
+            </code>
+          </DialogTitle>
+          <DialogDescription>{dict.description}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">{dict.empty}</p>
+        ) : (
+          <div className="grid flex-1 min-h-0 grid-cols-1 md:grid-cols-[260px_1fr] gap-4">
+            <ol className="space-y-2 overflow-y-auto template-history-timeline">
+              {entries.map((entry) => (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(entry.id)}
+                    className={`w-full text-left rounded-md border p-2 text-sm transition-colors ${entry.id === selectedId ? "border-primary bg-muted" : "hover:bg-muted/50"}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <Badge variant={entry.kind === "submitted" ? "default" : "outline"}>
+                        {entry.kind === "submitted" ? dict.submitted : entry.status}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">{formatTime(entry.recordedAt)}</span>
+                    </div>
+                    {entry.kind === "status_change" &&
+                      describeStatusChange(entry).map((line) => (
+                        <p key={line} className="mt-1 text-xs text-muted-foreground">{line}</p>
+                      ))}
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            <div className="flex flex-col min-h-0 gap-3">
+              {!selected?.payload ? (
+                <p className="text-sm text-muted-foreground">{dict.noContent}</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="history-compare" className="text-sm whitespace-nowrap">{dict.compareWith}</Label>
+                      <Select value={compareId || undefined} onValueChange={setCompareId}>
+                        <SelectTrigger id="history-compare" className="w-56 text-base sm:text-sm">
+                          <SelectValue placeholder="—" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {versions
+                            .filter((entry) => entry.id !== selectedId)
+                            .map((entry) => (
+                              <SelectItem key={entry.id} value={entry.id}>
+                                {formatTime(entry.recordedAt)} · {entry.kind === "submitted" ? dict.submitted : entry.status}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch id="history-only-changes" checked={onlyChanges} onCheckedChange={setOnlyChanges} />
+                      <Label htmlFor="history-only-changes" className="text-sm">{dict.onlyChanges}</Label>
+                    </div>
+                  </div>
+
+                  <div className="flex-1 min-h-0 overflow-y-auto rounded-md border">
+                    {visibleRows.length === 0 ? (
+                      <p className="p-4 text-sm text-muted-foreground">{dict.noChanges}</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-40">{dict.field}</TableHead>
+                            <TableHead>{dict.before}</TableHead>
+                            <TableHead>{dict.after}</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {visibleRows.map((row) => (
+                            <TableRow key={row.field} className="align-top template-history-diff-row">
+                              <TableCell className="text-xs font-medium text-muted-foreground">{row.field}</TableCell>
+                              <TableCell className={`whitespace-pre-wrap break-words ${row.changed ? "bg-red-50 dark:bg-red-950/30" : ""}`}>
+                                {row.before}
+                              </TableCell>
+                              <TableCell className={`whitespace-pre-wrap break-words ${row.changed ? "bg-green-50 dark:bg-green-950/30" : ""}`}>
+                                {row.after}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateHistoryDialog;
@@ -0,0 +1,329 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@workspace/ui-core/components/dialog";
+import { Button } from "@workspace/ui-core/components/button";
+import { Badge } from "@workspace/ui-core/components/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@workspace/ui-core/components/table";
+import { CheckCircle2, Loader2, Upload, XCircle } from "lucide-react";
+import type { CreateTemplatePayload } from "../types/templateTypes";
+import {
+  parseTemplateImport,
+  validateImportEntries,
+  type ImportRow,
+  type ImportRowStatus,
+} from "../lib/templateImport";
+import type { ValidationRuleSet } from "../lib/validationRules";
+import type { ValidationMessages } from "../lib/validationMessages";
+
+export interface TemplateImportDictionary {
+  title: string;
+  description: string;
+  chooseFile: string;
+  row: string;
+  name: string;
+  language: string;
+  category: string;
+  status: string;
+  issues: string;
+  summary: string;
+  progress: string;
+  submit: string;
+  stop: string;
+  close: string;
+  statuses: Record<ImportRowStatus, string>;
+}
+
+// English text of the dialog, also the import_dialog section of fallbackDictionary
+export const fallbackImportDictionary: TemplateImportDictionary = {
+  title: "Import Templates",
+  description: "Upload a JSON array of templates or a CSV file with one row per template and language.",
+  chooseFile: "Choose File",
+  row: "Row",
+  name: "Name",
+  language: "Language",
+  category: "Category",
+  status: "Status",
+  issues: "Issues",
+  summary: "{valid} of {total} templates are ready to import.",
+  progress: "Submitted {done} of {total}",
+  submit: "Import {count} Templates",
+  stop: "Stop",
+  close: "Close",
+  statuses: {
+    invalid: "Invalid",
+    ready: "Ready",
+    submitting: "Submitting",
+    created: "Created",
+    failed: "Failed",
+  },
+};
+
+interface TemplateImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (payload: CreateTemplatePayload) => Promise<void>;
+  throttleMs?: number; // Pause between submissions, Meta rate limits template creation per account
+  dictionary?: TemplateImportDictionary;
+  validationRules?: ValidationRuleSet; // Rules entries are checked against, defaults to Meta's rules
+  validationMessages?: Partial<ValidationMessages>; // Translated validator messages by error code, defaults to English
+}
+
+const DEFAULT_THROTTLE_MS = 1500;
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// The parts of an axios error, or of Meta's error body, that carry a message
+interface SubmitErrorShape {
+  message?: unknown;
+  response?: { data?: { error?: MetaErrorMessage } };
+}
+
+interface MetaErrorMessage {
+  message?: string;
+  error_user_msg?: string;
+}
+
+/**
+ * Prefer the message Meta shows to users, from an axios error or a message like "Error from META: {...}"
+ */
+const getSubmitError = (error: unknown): string => {
+  const failure = (error || {}) as SubmitErrorShape;
+  let metaError: MetaErrorMessage | undefined = failure.response?.data?.error;
+  const message = typeof failure.message === "string" ? failure.message : "";
+  if (!metaError && message.includes("{")) {
+    try {
+      metaError = JSON.parse(message.slice(message.indexOf("{"))).error;
+    } catch {
+      // Not JSON, show the message as is
+    }
+  }
+  return metaError?.error_user_msg || metaError?.message || message || "Unknown error";
+};
+
+const STATUS_VARIANTS: Record<ImportRowStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  invalid: "destructive",
+  ready: "outline",
+  submitting: "secondary",
+  created: "default",
+  failed: "destructive",
+};
+
+const TemplateImportDialog: React.FC<TemplateImportDialogProps> = ({
+  open,
+  onOpenChange,
+  onCreate,
+  throttleMs = DEFAULT_THROTTLE_MS,
+  dictionary,
+  validationRules,
+  validationMessages,
+}) => {
+  const dict = dictionary || fallbackImportDictionary;
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const stopRequested = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from an empty dialog every time it opens
+  useEffect(() => {
+    if (open) {
+      setFileName(null);
+      setFileError(null);
+      setRows([]);
+      setProgress({ done: 0, total: 0 });
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const content = await file.text();
+      setRows(validateImportEntries(parseTemplateImport(content, file.name), validationRules, validationMessages));
+      setFileError(null);
+    } catch (error) {
+      setRows([]);
+      setFileError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  // Failed rows are retried on the next run, created rows are never sent twice
+  const pendingIndexes = rows
+    .map((row, index) => (row.status === "ready" || row.status === "failed" ? index : -1))
+    .filter((index) => index >= 0);
+
+  const handleSubmit = async () => {
+    const queue = pendingIndexes;
+    if (queue.length === 0) return;
+
+    stopRequested.current = false;
+    setSubmitting(true);
+    setProgress({ done: 0, total: queue.length });
+
+    for (let i = 0; i < queue.length; i++) {
+      if (stopRequested.current) break;
+      const index = queue[i]!;
+      const payload = rows[index]!.payload!;
+
+      updateRow(index, { status: "submitting", errors: [] });
+      try {
+        await onCreate(payload);
+        updateRow(index, { status: "created" });
+      } catch (error) {
+        updateRow(index, { status: "failed", errors: [getSubmitError(error)] });
+      }
+      setProgress({ done: i + 1, total: queue.length });
+
+      if (i < queue.length - 1 && !stopRequested.current) {
+        await wait(throttleMs);
+      }
+    }
+
+    setSubmitting(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      stopRequested.current = true;
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const validCount = rows.filter((row) => row.status !== "invalid").length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-svh flex flex-col template-import-dialog" autoFocusFirstInput={false}>
+        <DialogHeader>
+          <DialogTitle>{dict.title}</DialogTitle>
+          <DialogDescription>{dict.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            className="gap-2"
+            disabled={submitting}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4" />
+            {dict.chooseFile}
+          </Button>
+          {fileName && <span className="text-sm text-muted-foreground truncate">{fileName}</span>}
+        </div>
+
+        {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {dict.summary.replace("{valid}", String(validCount)).replace("{total}", String(rows.length))}
+            </p>
+
+            {progress.total > 0 && (
+              <div className="space-y-1">
+                <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {dict.progress.replace("{done}", String(progress.done)).replace("{total}", String(progress.total))}
+                </p>
+              </div>
+            )}
+
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">{dict.row}</TableHead>
+                    <TableHead>{dict.name}</TableHead>
+                    <TableHead>{dict.language}</TableHead>
+                    <TableHead>{dict.category}</TableHead>
+                    <TableHead>{dict.status}</TableHead>
+                    <TableHead>{dict.issues}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={index} className="template-import-row">
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.payload?.name || "-"}</TableCell>
+                      <TableCell>{row.payload?.language || "-"}</TableCell>
+                      <TableCell>{row.payload?.category || "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[row.status]} className="gap-1">
+                          {row.status === "submitting" && <Loader2 className="w-3 h-3 animate-spin" />}
+                          {row.status === "created" && <CheckCircle2 className="w-3 h-3" />}
+                          {(row.status === "invalid" || row.status === "failed") && <XCircle className="w-3 h-3" />}
+                          {dict.statuses[row.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-destructive">
+                        {row.errors.map((message, i) => (
+                          <p key={i}>{message}</p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {dict.close}
+          </Button>
+          {submitting ? (
+            <Button variant="destructive" onClick={() => { stopRequested.current = true; }}>
+              {dict.stop}
+            </Button>
+          ) : (
+            <Button variant="success" disabled={pendingIndexes.length === 0} onClick={handleSubmit}>
+              {dict.submit.replace("{count}", String(pendingIndexes.length))}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateImportDialog;
@@ -37,14 +37,35 @@ import {
   Loader2,
   ChevronLeft,
   ChevronRight,
+  Workflow,
+  ShoppingBag,
+  ShoppingCart,
+  Upload,
+  Download,
+  CopyPlus,
+  History,
+  AlertCircle,
+  Search,
+  X,
 } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@workspace/ui-core/components/dropdown-menu";
+import { Checkbox } from "@workspace/ui-core/components/checkbox";
+import { Input } from "@workspace/ui-core/components/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@workspace/ui-core/components/select";
+import { useToast } from "@workspace/ui-core/hooks/use-toast";
 import {
   Dialog,
   DialogContent,
@@ -56,6 +77,23 @@ import {
 import type { ErrorDetails } from "@workspace/ui-template-management/components/TemplateErrorUI";
 import TemplateErrorUI from "@workspace/ui-template-management/components/TemplateErrorUI";
 import CreateTemplateUI from "./CreateTemplateUI";
+import TemplatePreviewDialog, { fallbackPreviewDictionary, type TemplatePreviewDictionary } from "./TemplatePreviewDialog";
+import TemplateImportDialog, { fallbackImportDictionary, type TemplateImportDictionary } from "./TemplateImportDialog";
+import CopyToAccountDialog, { fallbackCopyToAccountDictionary, type CopyToAccountDictionary } from "./CopyToAccountDialog";
+import TemplateHistoryDialog, { fallbackHistoryDictionary, type TemplateHistoryDictionary } from "./TemplateHistoryDialog";
+import VirtualizedTemplateGrid, { fallbackGridDictionary, type VirtualizedTemplateGridDictionary } from "./VirtualizedTemplateGrid";
+import { downloadTemplates, type TemplateExportFormat } from "../lib/templateExport";
+import { templateHistory, type TemplateHistoryStore } from "../lib/templateHistory";
+import {
+  templateStatusWatcher,
+  type TemplateStatusChange,
+  type TemplateStatusWatcher,
+} from "../lib/templateStatusWatcher";
+import { useTemplateStatusWatcher } from "../hooks/useTemplateStatusWatcher";
+import { useWabaContext } from "../context/WabaContext";
+import { SUPPORTED_LANGUAGES } from "../lib/languages";
+import type { ValidationRuleSet } from "../lib/validationRules";
+import { DEFAULT_VALIDATION_MESSAGES, type ValidationMessages } from "../lib/validationMessages";
 import {
   CreateTemplatePayload,
   MessageTemplate,
@@ -65,6 +103,8 @@ import {
   ResponseComponent,
   ResponseFooterComponent,
   ResponseHeaderComponent,
+  TemplateQualityScore,
+  WhatsAppFlow,
 } from "../types/templateTypes";
 
 // #region TYPES AND INTERFACES
@@ -103,6 +143,8 @@ export interface TemplateManagerDictionary {
     create_first_template: string;
     rejected: string;
     useInCampaign: string;
+    product_header?: string;
+    call_permission_request?: string;
     delete_confirmation: {
       title: string;
       description: string;
@@ -116,6 +158,52 @@ export interface TemplateManagerDictionary {
       of: string;
       templates: string;
     };
+    preview_dialog?: TemplatePreviewDictionary;
+    import_templates?: string;
+    import_dialog?: TemplateImportDictionary;
+    export_menu?: {
+      export: string;
+      selected: string;
+      all: string;
+      json: string;
+      csv: string;
+      zip: string;
+      select: string;
+      clear_selection: string;
+      failed: string;
+    };
+    copy_to_account?: string;
+    copy_account_dialog?: CopyToAccountDictionary;
+    version_history?: string;
+    history_dialog?: TemplateHistoryDictionary;
+    status_details?: {
+      rejected_reason: string;
+      recategorized: string;
+      quality: string;
+      quality_ratings: {
+        green: string;
+        yellow: string;
+        red: string;
+        unknown: string;
+      };
+      rejection_reasons?: Record<string, string>;
+    };
+    filters?: {
+      search_placeholder: string;
+      all_categories: string;
+      all_languages: string;
+      clear: string;
+      no_matches: string;
+    };
+    load_more?: VirtualizedTemplateGridDictionary;
+    status_notifications?: {
+      approved: string;
+      approved_description: string;
+      rejected: string;
+      rejected_description: string;
+      changed: string;
+      changed_description: string;
+    };
   };
   createTemplate: {
     title: string;
@@ -136,6 +224,19 @@ export interface TemplateManagerDictionary {
     addHeader: string;
     addFooter: string;
     addButtons: string;
+    addCarousel?: string;
+    limitedTimeOffer?: string;
+    limitedTimeOfferHelp?: string;
+    callPermissionRequest?: string;
+    callPermissionRequestHelp?: string;
+    templateKind?: string;
+    templateKinds?: {
+      standard: string;
+      catalog: string;
+      spm: string;
+      mpm: string;
+    };
+    preview?: string;
     body: string;
     footer: string;
     buttons: string;
@@ -162,6 +263,13 @@ export interface TemplateManagerDictionary {
     };
     cancel: string;
     createTemplate: string;
+    editTitle?: string;
+    editDescription?: string;
+    lockedFieldsHelp?: string;
+    saveChanges?: string;
+    savingChanges?: string;
+    updatedSuccessfully?: string;
+    sentForReview?: string;
     authentication: {
       title: string;
       body: string;
@@ -199,6 +307,8 @@ export interface TemplateManagerDictionary {
       };
     };
   };
+  // Validator messages by error code with {param} placeholders, e.g. BODY_TEXT_TOO_LONG: "... {max} ...". English when left out.
+  validation?: Partial<ValidationMessages>;
 }
 
 interface TemplateManagerProps {
@@ -216,24 +326,47 @@ interface TemplateManagerProps {
   dictionary?: TemplateManagerDictionary;
   deletingTemplateId?: string | null;
   creatingTemplate?: boolean;
+  updatingTemplate?: boolean;
+  flows?: WhatsAppFlow[]; // Flows offered by the Flow button picker in the create/edit form
+  validationRules?: ValidationRuleSet; // House rules for the create/edit form and the import dialog, defaults to Meta's rules
   currentFilter: "all" | "approved" | "pending" | "rejected";
   // Pagination props
   pagination?: PaginationInfo;
+  // "pages" shows one page with Previous/Next, "loadMore" appends pages to a virtualized grid as it scrolls
+  paginationMode?: "pages" | "loadMore";
+  loadingMore?: boolean; // A further page is being appended, the loaded templates stay visible
   onRetry: () => void;
   onSync: () => void;
   onCreate?: (payload: CreateTemplatePayload) => Promise<void>;
   onCreateClick?: () => void; // New prop for custom create button behavior
+  importThrottleMs?: number; // Pause between templates submitted by the import dialog
+  onFetchAllTemplates?: () => Promise<MessageTemplate[]>; // Pages through every template for "export all", defaults to the loaded templates
   onFilterChange: (
     filter: "all" | "approved" | "pending" | "rejected"
   ) => void;
-  onPreview: (templateId: string) => void;
-  onEdit: (templateId: string) => void;
+  onPreview?: (templateId: string) => void; // Custom preview behavior, defaults to the built-in preview dialog
+  onEdit?: (templateId: string) => void; // Custom edit behavior, defaults to the inline edit form
+  onUpdate?: (templateId: string, payload: CreateTemplatePayload) => Promise<void>;
   onCopy: (templateBody: string) => void;
   onDelete: (templateId: string) => void;
   onUseCampaign?: (template: MessageTemplate) => void;
+  // Creates a copy of an approved template in another WABA of the surrounding WabaProvider
+  onCopyToAccount?: (targetWabaId: string, payload: CreateTemplatePayload) => Promise<void>;
+  historyStore?: TemplateHistoryStore; // Records submitted payloads and observed status changes, defaults to IndexedDB
+  // Follows pending templates and shows a toast when Meta reviews them, configure it with a fetch function or push source
+  statusWatcher?: TemplateStatusWatcher;
+  onStatusChange?: (change: TemplateStatusChange) => void;
+  // Server-side filters, each control is shown when its handler is set. "all" means no filter.
+  searchQuery?: string;
+  selectedCategory?: string;
+  selectedLanguage?: string;
+  onSearchChange?: (query: string) => void;
+  onCategoryChange?: (category: string) => void;
+  onLanguageChange?: (language: string) => void;
   // Pagination handlers
   onNextPage?: () => void;
   onPreviousPage?: () => void;
+  onLoadMore?: () => void;
 }
 // #endregion
 
@@ -264,6 +397,8 @@ export const fallbackDictionary: TemplateManagerDictionary = {
     create_first_template: "Create Your First Template",
     rejected: "Rejected",
     useInCampaign: "Use in Campaign",
+    product_header: "Product from your catalog",
+    call_permission_request: "Asks to allow WhatsApp calls",
     delete_confirmation: {
       title: "Delete Template",
       description: "Are you sure you want to delete this template? This action cannot be undone.",
@@ -277,6 +412,59 @@ export const fallbackDictionary: TemplateManagerDictionary = {
       of: "of",
       templates: "templates",
     },
+    preview_dialog: fallbackPreviewDictionary,
+    import_templates: "Import",
+    import_dialog: fallbackImportDictionary,
+    export_menu: {
+      export: "Export",
+      selected: "{count} selected templates",
+      all: "All templates",
+      json: "JSON (template payloads)",
+      csv: "CSV (summary)",
+      zip: "Zip of Meta-ready payloads",
+      select: "Select for export",
+      clear_selection: "Clear selection",
+      failed: "Export failed",
+    },
+    copy_to_account: "Copy to Another Account",
+    copy_account_dialog: fallbackCopyToAccountDictionary,
+    version_history: "Version History",
+    history_dialog: fallbackHistoryDictionary,
+    status_details: {
+      rejected_reason: "Rejected: {reason}",
+      recategorized: "Re-categorised from {category}",
+      quality: "Quality",
+      quality_ratings: {
+        green: "High",
+        yellow: "Medium",
+        red: "Low",
+        unknown: "Pending",
+      },
+      rejection_reasons: {
+        ABUSIVE_CONTENT: "The content was flagged as abusive or against WhatsApp policies.",
+        INCORRECT_CATEGORY: "The content doesn't match the selected category.",
+        INVALID_FORMAT: "The template format is invalid, check variables and examples.",
+        SCAM: "The template was flagged as a potential scam.",
+        PROMOTIONAL: "Promotional content isn't allowed in this category.",
+        TAG_CONTENT_MISMATCH: "The content doesn't match the template's category.",
+      },
+    },
+    filters: {
+      search_placeholder: "Search by template name",
+      all_categories: "All categories",
+      all_languages: "All languages",
+      clear: "Clear filters",
+      no_matches: "No templates match these filters.",
+    },
+    load_more: fallbackGridDictionary,
+    status_notifications: {
+      approved: "Template approved",
+      approved_description: "{name} was approved by Meta and can be sent now.",
+      rejected: "Template rejected",
+      rejected_description: "{name} was rejected: {reason}",
+      changed: "Template status changed",
+      changed_description: "{name} is now {status}.",
+    },
   },
   createTemplate: {
     title: "Create New Template",
@@ -297,6 +485,19 @@ export const fallbackDictionary: TemplateManagerDictionary = {
     addHeader: "Add Header",
     addFooter: "Add Footer",
     addButtons: "Add Buttons",
+    addCarousel: "Add Carousel",
+    limitedTimeOffer: "Limited-Time Offer",
+    limitedTimeOfferHelp: "Promote an offer with an offer code and an optional expiration countdown.",
+    callPermissionRequest: "Call Permission Request",
+    callPermissionRequestHelp: "Ask customers for permission to call them on WhatsApp.",
+    templateKind: "Template Type",
+    templateKinds: {
+      standard: "Standard",
+      catalog: "Catalog",
+      spm: "Single Product",
+      mpm: "Multi-Product",
+    },
+    preview: "Preview",
     body: "Body",
     footer: "Footer",
     buttons: "Buttons",
@@ -323,6 +524,13 @@ export const fallbackDictionary: TemplateManagerDictionary = {
     },
     cancel: "Cancel",
     createTemplate: "Create Template",
+    editTitle: "Edit Template",
+    editDescription: "Update the content of your template. Edited templates are reviewed by Meta again.",
+    lockedFieldsHelp: "Name, language and category cannot be changed after a template is created.",
+    saveChanges: "Save Changes",
+    savingChanges: "Saving Changes...",
+    updatedSuccessfully: "Template updated successfully!",
+    sentForReview: "Your changes have been submitted and are pending review by Meta.",
     authentication: {
       title: "Authentication Components",
       body: "Body",
@@ -360,6 +568,7 @@ export const fallbackDictionary: TemplateManagerDictionary = {
       },
     },
   },
+  validation: DEFAULT_VALIDATION_MESSAGES,
 };
 // #endregion
 
@@ -382,6 +591,10 @@ const MediaIcon = ({ type }: { type: string }) => {
       return (
         <FileAudio className="w-4 h-4 template-media-icon template-media-icon-audio" />
       );
+    case "product":
+      return (
+        <ShoppingBag className="w-4 h-4 template-media-icon template-media-icon-product" />
+      );
     default:
       return (
         <FileText className="w-4 h-4 template-media-icon template-media-icon-default" />
@@ -397,12 +610,19 @@ const ButtonIcon = ({ type }: { type: ResponseButton["type"] }) => {
       return <Phone className="w-3 h-3" />;
     case "QUICK_REPLY":
       return <MessageSquare className="w-3 h-3" />;
+    case "CATALOG":
+    case "SPM":
+      return <ShoppingBag className="w-3 h-3" />;
+    case "MPM":
+      return <ShoppingCart className="w-3 h-3" />;
+    case "FLOW":
+      return <Workflow className="w-3 h-3" />;
     default:
       return <MessageSquare className="w-3 h-3" />;
   }
 };
 
-const StatusBadge = ({ status }: { status: string }) => {
+const StatusBadge = ({ status, reason }: { status: string; reason?: string }) => {
   const statusFormatted = status.toLowerCase();
   const variants: { [key: string]: string } = {
     approved:
@@ -411,30 +631,94 @@ const StatusBadge = ({ status }: { status: string }) => {
       "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-400 dark:border-yellow-800",
     rejected:
       "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800",
+    in_appeal:
+      "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800",
+    paused:
+      "bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/20 dark:text-orange-400 dark:border-orange-800",
+    limit_exceeded:
+      "bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/20 dark:text-orange-400 dark:border-orange-800",
+    disabled:
+      "bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800/40 dark:text-gray-400 dark:border-gray-700",
+    pending_deletion:
+      "bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800/40 dark:text-gray-400 dark:border-gray-700",
   };
 
-  return (
+  const badge = (
     <Badge
       variant="outline"
       className={`template-status-badge template-status-badge-${statusFormatted} ${variants[statusFormatted] || ""} font-medium capitalize`}
     >
-      {status}
+      {status.replace(/_/g, " ")}
     </Badge>
   );
+
+  if (!reason) return badge;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{badge}</TooltipTrigger>
+      <TooltipContent>
+        <p className="max-w-xs">{reason}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+const QUALITY_COLORS: Record<TemplateQualityScore["score"], string> = {
+  GREEN: "bg-green-500",
+  YELLOW: "bg-yellow-500",
+  RED: "bg-red-500",
+  UNKNOWN: "bg-gray-400",
+};
+
+const QualityBadge = ({
+  quality,
+  dictionary,
+}: {
+  quality: TemplateQualityScore;
+  dictionary: TemplateManagerDictionary;
+}) => {
+  const details = dictionary.templates.status_details ?? fallbackDictionary.templates.status_details!;
+  const rating = details.quality_ratings[quality.score.toLowerCase() as keyof typeof details.quality_ratings] ?? quality.score;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs text-muted-foreground template-quality template-quality-${quality.score.toLowerCase()}`}
+    >
+      <span className={`w-2 h-2 rounded-full ${QUALITY_COLORS[quality.score] || QUALITY_COLORS.UNKNOWN}`} />
+      {details.quality}: {rating}
+    </span>
+  );
+};
+
+/**
+ * Readable explanation of a rejection, falls back to the reason code for reasons without a message
+ */
+const getRejectionReason = (reason: string | undefined, dictionary: TemplateManagerDictionary): string | undefined => {
+  if (!reason || reason === "NONE") return undefined;
+  const details = dictionary.templates.status_details ?? fallbackDictionary.templates.status_details!;
+  return details.rejection_reasons?.[reason] || reason.replace(/_/g, " ").toLowerCase();
 };
 // #endregion
 
 // #region TEMPLATE CARD
+// Meta only accepts edits for templates that finished review
+const EDITABLE_STATUSES: MessageTemplate["status"][] = ["APPROVED", "REJECTED", "PAUSED"];
+
 interface TemplateCardProps {
   template: MessageTemplate;
   isDeleting: boolean;
   onPreview: (templateId: string) => void;
-  onEdit: (templateId: string) => void;
+  onEdit?: (templateId: string) => void; // Hides the edit action when not set
   onCopy: (templateBody: string) => void;
   onDelete: (templateId: string) => void;
   onUseCampaign?: (template: MessageTemplate) => void;
+  onCopyToAccount?: (templateId: string) => void;
+  onViewHistory?: (templateId: string) => void;
   dictionary: TemplateManagerDictionary;
   hideActions?: boolean;
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void; // Shows a selection checkbox when set
 }
 
 export function TemplateCard({
@@ -445,8 +729,12 @@ export function TemplateCard({
   onCopy,
   onDelete,
   onUseCampaign,
+  onCopyToAccount,
+  onViewHistory,
   dictionary,
   hideActions = false,
+  selected = false,
+  onSelectedChange,
 }: TemplateCardProps) {
   const dict = dictionary;
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
@@ -498,10 +786,13 @@ export function TemplateCard({
     getComponent("FOOTER");
   const buttonsComponent: ResponseButtonsComponent | undefined =
     getComponent("BUTTONS");
+  const hasCallPermissionRequest = !!getComponent("CALL_PERMISSION_REQUEST");
+  const statusDetails = dict.templates.status_details ?? fallbackDictionary.templates.status_details!;
+  const rejectionReason = getRejectionReason(template.rejected_reason, dict);
 
   const handleCopyTemplate = () => onCopy(bodyComponent?.text || "");
   const handlePreviewTemplate = () => onPreview(template.id);
-  const handleEditTemplate = () => onEdit(template.id);
+  const handleEditTemplate = () => onEdit?.(template.id);
   const handleDeleteRequest = (event: Event) => {
     event.preventDefault();
     setShowDeleteConfirmation(true);
@@ -539,6 +830,20 @@ export function TemplateCard({
     if (headerComponent?.type !== "HEADER" || !("format" in headerComponent))
       return null;
 
+    // Single-product templates show the product picked when sending
+    if (headerComponent.format === "PRODUCT") {
+      return (
+        <div className="mb-4 rounded-lg bg-muted/30 template-media-section template-media-section-product">
+          <div className="w-full h-28 flex flex-col items-center justify-center gap-2">
+            <ShoppingBag className="w-8 h-8 text-muted-foreground" />
+            <p className="text-xs text-muted-foreground">
+              {dict.templates.product_header ?? "Product from your catalog"}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
     if (
       headerComponent.format === "IMAGE" ||
       headerComponent.format === "VIDEO" ||
@@ -655,6 +960,14 @@ export function TemplateCard({
           <div className="flex items-start justify-between template-card-header-top">
             <div className="flex-1 min-w-0 template-card-header-content">
               <div className="flex items-center gap-2 mb-2 template-card-name-section">
+                {onSelectedChange && (
+                  <Checkbox
+                    checked={selected}
+                    onCheckedChange={(checked) => onSelectedChange(checked === true)}
+                    aria-label={dict.templates.export_menu?.select ?? "Select for export"}
+                    className="template-select-checkbox"
+                  />
+                )}
                 <code className="text-xs font-mono bg-muted px-2 py-1 rounded text-muted-foreground template-name template-name-${template.name} truncate max-w-[200px]">
                   {template.name}
                 </code>
@@ -677,7 +990,7 @@ export function TemplateCard({
                 )}
               </div>
               <div className="flex items-center justify-between template-card-actions-section">
-                <StatusBadge status={template.status} />
+                <StatusBadge status={template.status} reason={rejectionReason} />
                 {!hideActions && <DropdownMenu open={menuOpen} onOpenChange={setMenuOpen}>
                   <DropdownMenuTrigger asChild>
                     <Button
@@ -704,6 +1017,22 @@ export function TemplateCard({
                         <DropdownMenuSeparator />
                       </>
                     )}
+                    <DropdownMenuItem
+                      onClick={handlePreviewTemplate}
+                      className="template-action-preview"
+                    >
+                      <Eye className="mr-2 h-4 w-4" />
+                      {dict.templates.preview}
+                    </DropdownMenuItem>
+                    {onEdit && EDITABLE_STATUSES.includes(template.status) && (
+                      <DropdownMenuItem
+                        onClick={handleEditTemplate}
+                        className="template-action-edit"
+                      >
+                        <Edit3 className="mr-2 h-4 w-4" />
+                        {dict.templates.edit_template}
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem
                       onClick={handleCopyTemplate}
                       className="template-action-copy"
@@ -711,6 +1040,24 @@ export function TemplateCard({
                       <Copy className="mr-2 h-4 w-4" />
                       {dict.templates.copy_content}
                     </DropdownMenuItem>
+                    {onCopyToAccount && template.status === "APPROVED" && (
+                      <DropdownMenuItem
+                        onClick={() => onCopyToAccount(template.id)}
+                        className="template-action-copy-account"
+                      >
+                        <CopyPlus className="mr-2 h-4 w-4" />
+                        {dict.templates.copy_to_account ?? "Copy to Another Account"}
+                      </DropdownMenuItem>
+                    )}
+                    {onViewHistory && (
+                      <DropdownMenuItem
+                        onClick={() => onViewHistory(template.id)}
+                        className="template-action-history"
+                      >
+                        <History className="mr-2 h-4 w-4" />
+                        {dict.templates.version_history ?? "Version History"}
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuSeparator />
                     <DropdownMenuItem
                       onSelect={handleDeleteRequest}
@@ -738,7 +1085,29 @@ export function TemplateCard({
             <span className="template-language truncate">
               {template.language}
             </span>
+            {template.quality_score && (
+              <>
+                <span className="template-meta-separator">•</span>
+                <QualityBadge quality={template.quality_score} dictionary={dict} />
+              </>
+            )}
           </div>
+
+          {(rejectionReason || template.previous_category) && (
+            <div className="mt-2 space-y-1 text-xs template-status-details">
+              {rejectionReason && (
+                <p className="flex items-start gap-1 text-destructive template-rejected-reason">
+                  <AlertCircle className="w-3.5 h-3.5 mt-px shrink-0" />
+                  {statusDetails.rejected_reason.replace("{reason}", rejectionReason)}
+                </p>
+              )}
+              {template.previous_category && template.previous_category !== template.category && (
+                <p className="text-muted-foreground template-previous-category">
+                  {statusDetails.recategorized.replace("{category}", template.previous_category)}
+                </p>
+              )}
+            </div>
+          )}
         </CardHeader>
 
         <CardContent className={`pt-0 pb-4 flex flex-col template-card-content ${hideActions ? "" : "flex-1 min-h-0"}`}>
@@ -803,6 +1172,18 @@ export function TemplateCard({
                 </div>
               </div>
             )}
+
+          {hasCallPermissionRequest && (
+            <div className="shrink-0 mt-4 space-y-2 template-call-permission-section">
+              <Separator className="template-buttons-separator" />
+              <div className="flex items-center gap-2 p-2.5 rounded-md border border-brand-green/20 bg-brand-green-dim text-sm text-brand-green template-call-permission">
+                <Phone className="w-3 h-3 shrink-0" />
+                <span className="truncate">
+                  {dict.templates.call_permission_request ?? "Asks to allow WhatsApp calls"}
+                </span>
+              </div>
+            </div>
+          )}
         </CardContent>
 
       </Card>
@@ -965,6 +1346,112 @@ function PaginationControls({
 }
 // #endregion
 
+// #region FILTER BAR
+const SEARCH_DEBOUNCE_MS = 400;
+
+interface TemplateFilterBarProps {
+  searchQuery: string;
+  selectedCategory: string;
+  selectedLanguage: string;
+  onSearchChange?: (query: string) => void;
+  onCategoryChange?: (category: string) => void;
+  onLanguageChange?: (language: string) => void;
+  dictionary: TemplateManagerDictionary;
+}
+
+function TemplateFilterBar({
+  searchQuery,
+  selectedCategory,
+  selectedLanguage,
+  onSearchChange,
+  onCategoryChange,
+  onLanguageChange,
+  dictionary,
+}: TemplateFilterBarProps) {
+  const dict = dictionary;
+  const filterDict = dict.templates.filters ?? fallbackDictionary.templates.filters!;
+  const [query, setQuery] = useState(searchQuery);
+  const latestSearch = useRef(searchQuery);
+
+  // Follow outside changes, e.g. when the filters are cleared
+  useEffect(() => {
+    latestSearch.current = searchQuery;
+    setQuery(searchQuery);
+  }, [searchQuery]);
+
+  // Every search is a Graph API request, so wait until typing pauses
+  useEffect(() => {
+    if (!onSearchChange || query === latestSearch.current) return;
+    const timeout = setTimeout(() => {
+      latestSearch.current = query;
+      onSearchChange(query);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query, onSearchChange]);
+
+  const hasFilters = !!searchQuery || selectedCategory !== "all" || selectedLanguage !== "all";
+
+  const clearFilters = () => {
+    setQuery("");
+    if (searchQuery) onSearchChange?.("");
+    if (selectedCategory !== "all") onCategoryChange?.("all");
+    if (selectedLanguage !== "all") onLanguageChange?.("all");
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 template-filter-bar">
+      {onSearchChange && (
+        <div className="relative flex-1 template-filter-search">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={filterDict.search_placeholder}
+            aria-label={filterDict.search_placeholder}
+            className="pl-9 text-base sm:text-sm"
+          />
+        </div>
+      )}
+      {onCategoryChange && (
+        <Select value={selectedCategory} onValueChange={onCategoryChange}>
+          <SelectTrigger className="sm:w-48 text-base sm:text-sm template-filter-category" aria-label={dict.createTemplate.category}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{filterDict.all_categories}</SelectItem>
+            <SelectItem value="MARKETING">{dict.createTemplate.categories.marketing}</SelectItem>
+            <SelectItem value="UTILITY">{dict.createTemplate.categories.utility}</SelectItem>
+            <SelectItem value="AUTHENTICATION">{dict.createTemplate.categories.authentication}</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      {onLanguageChange && (
+        <Select value={selectedLanguage} onValueChange={onLanguageChange}>
+          <SelectTrigger className="sm:w-56 text-base sm:text-sm template-filter-language" aria-label={dict.createTemplate.language}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{filterDict.all_languages}</SelectItem>
+            {SUPPORTED_LANGUAGES.map((lang) => (
+              <SelectItem key={lang.code} value={lang.code}>
+                {lang.name} ({lang.code})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {hasFilters && (
+        <Button variant="ghost" size="sm" className="gap-2 template-filter-clear" onClick={clearFilters}>
+          <X className="w-4 h-4" />
+          {filterDict.clear}
+        </Button>
+      )}
+    </div>
+  );
+}
+// #endregion
+
 // #region MAIN COMPONENT
 const TemplateManager: React.FC<TemplateManagerProps> = ({
   templates,
@@ -975,24 +1462,116 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
   dictionary: providedDictionary,
   deletingTemplateId,
   creatingTemplate = false,
+  updatingTemplate = false,
+  flows,
+  validationRules,
   currentFilter,
   totalTemplates,
   pagination,
+  paginationMode = "pages",
+  loadingMore = false,
   onRetry,
   onSync,
   onCreate,
   onCreateClick,
+  importThrottleMs,
+  onFetchAllTemplates,
   onFilterChange,
   onPreview,
   onEdit,
+  onUpdate,
   onCopy,
   onDelete,
   onUseCampaign,
+  onCopyToAccount,
+  historyStore = templateHistory,
+  statusWatcher = templateStatusWatcher,
+  onStatusChange,
+  searchQuery = "",
+  selectedCategory = "all",
+  selectedLanguage = "all",
+  onSearchChange,
+  onCategoryChange,
+  onLanguageChange,
   onNextPage,
   onPreviousPage,
+  onLoadMore,
 }) => {
   const dict = providedDictionary || fallbackDictionary;
-  const [view, setView] = useState<"list" | "create">("list");
+  const [view, setView] = useState<"list" | "create" | "edit">("list");
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const editingTemplate = templates.find((t) => t.id === editingTemplateId);
+  const [previewTemplateId, setPreviewTemplateId] = useState<string | null>(null);
+  const previewTemplate = templates.find((t) => t.id === previewTemplateId) || null;
+  const [importOpen, setImportOpen] = useState(false);
+  // Selected templates are kept whole so the selection survives paging and filtering
+  const [selectedTemplates, setSelectedTemplates] = useState<Record<string, MessageTemplate>>({});
+  const [exporting, setExporting] = useState(false);
+  const selectedCount = Object.keys(selectedTemplates).length;
+  const { toast } = useToast();
+  const { wabaId: activeWabaId, accounts } = useWabaContext();
+  const copyTargetAccounts = accounts.filter((account) => account.wabaId !== activeWabaId);
+  const [copyTemplateId, setCopyTemplateId] = useState<string | null>(null);
+  const copyTemplate = templates.find((t) => t.id === copyTemplateId) || null;
+  const [historyTemplateId, setHistoryTemplateId] = useState<string | null>(null);
+  const historyTemplate = templates.find((t) => t.id === historyTemplateId) || null;
+
+  // Every list load is compared with the recorded history to catch re-categorisations and rejections
+  useEffect(() => {
+    if (templates.length === 0) return;
+    historyStore.recordObservedTemplates(templates, activeWabaId).catch((err) => {
+      console.error("Error recording template history:", err);
+    });
+  }, [templates, activeWabaId, historyStore]);
+
+  // Reviews finish while the list is open, let the user know without a manual sync
+  useTemplateStatusWatcher(
+    templates,
+    (change) => {
+      const notifications = dict.templates.status_notifications ?? fallbackDictionary.templates.status_notifications!;
+      const name = change.template.name;
+      if (change.status === "APPROVED") {
+        toast({
+          title: notifications.approved,
+          description: notifications.approved_description.replace("{name}", name),
+          variant: "success",
+        });
+      } else if (change.status === "REJECTED") {
+        toast({
+          title: notifications.rejected,
+          description: notifications.rejected_description
+            .replace("{name}", name)
+            .replace("{reason}", getRejectionReason(change.reason, dict) || "-"),
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: notifications.changed,
+          description: notifications.changed_description
+            .replace("{name}", name)
+            .replace("{status}", change.status.replace(/_/g, " ").toLowerCase()),
+        });
+      }
+      onStatusChange?.(change);
+    },
+    statusWatcher
+  );
+
+  const recordSubmission = (payload: CreateTemplatePayload, wabaId: string | null, templateId?: string) => {
+    historyStore.recordSubmission(payload, wabaId, templateId).catch((err) => {
+      console.error("Error recording template history:", err);
+    });
+  };
+
+  const handleImportCreate = async (payload: CreateTemplatePayload) => {
+    await onCreate!(payload);
+    recordSubmission(payload, activeWabaId);
+  };
+
+  const handleCopyToAccount = async (targetWabaId: string, payload: CreateTemplatePayload) => {
+    await onCopyToAccount!(targetWabaId, payload);
+    recordSubmission(payload, targetWabaId);
+  };
 
   const handleCreateClick = () => {
     if (onCreateClick) {
@@ -1004,17 +1583,102 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
     }
   };
 
+  const handlePreview = (templateId: string) => {
+    if (onPreview) {
+      // Use custom preview behavior
+      onPreview(templateId);
+    } else {
+      // Default behavior (show preview dialog)
+      setPreviewTemplateId(templateId);
+    }
+  };
+
+  const handleEdit = (templateId: string) => {
+    if (onEdit) {
+      // Use custom edit behavior (e.g., redirect to route)
+      onEdit(templateId);
+    } else {
+      // Default behavior (show inline form)
+      setEditingTemplateId(templateId);
+      setView("edit");
+    }
+  };
+
+  const handleSelectTemplate = (template: MessageTemplate, selected: boolean) => {
+    setSelectedTemplates((prev) => {
+      const next = { ...prev };
+      if (selected) {
+        next[template.id] = template;
+      } else {
+        delete next[template.id];
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async (format: TemplateExportFormat) => {
+    setExporting(true);
+    try {
+      const exportTemplates = selectedCount > 0
+        ? Object.values(selectedTemplates)
+        : onFetchAllTemplates
+          ? await onFetchAllTemplates()
+          : templates;
+      downloadTemplates(exportTemplates, format, selectedCount > 0 ? "templates-selected" : "templates");
+    } catch (err) {
+      console.error("Error exporting templates:", err);
+      toast({
+        title: dict.templates.export_menu?.failed ?? "Export failed",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleCancelCreate = () => {
     setView("list");
   };
 
+  const handleCancelEdit = () => {
+    setEditingTemplateId(null);
+    setView("list");
+  };
+
   const handleCreateTemplate = async (payload: CreateTemplatePayload) => {
     if (onCreate) {
       await onCreate(payload);
+      recordSubmission(payload, activeWabaId);
     }
     setView("list");
   };
 
+  // Errors from onUpdate reach the form, which stays open with Meta's reason instead of losing the edits
+  const handleUpdateTemplate = async (payload: CreateTemplatePayload) => {
+    if (!onUpdate || !editingTemplateId) {
+      throw new Error("Templates can't be edited here, no update handler is set.");
+    }
+    await onUpdate(editingTemplateId, payload);
+    recordSubmission(payload, activeWabaId, editingTemplateId);
+    handleCancelEdit();
+  };
+
+  if (view === "edit" && editingTemplate) {
+    return (
+      <CreateTemplateUI
+        key={editingTemplate.id}
+        initialTemplate={editingTemplate}
+        onCancel={handleCancelEdit}
+        onSubmit={handleUpdateTemplate}
+        dictionary={dict}
+        isLoading={updatingTemplate}
+        flows={flows}
+        validationRules={validationRules}
+      />
+    );
+  }
+
   if (view === "create") {
     return (
       <CreateTemplateUI
@@ -1022,10 +1686,61 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
         onSubmit={handleCreateTemplate}
         dictionary={dict}
         isLoading={creatingTemplate}
+        flows={flows}
+        validationRules={validationRules}
       />
     );
   }
 
+  // Rendered as a keyed child of both the loading and the list layout, so the list reloading
+  // after each imported template doesn't unmount the dialog and lose the per-row progress
+  const importDialog = onCreate ? (
+    <TemplateImportDialog
+      key="import-dialog"
+      open={importOpen}
+      onOpenChange={setImportOpen}
+      onCreate={handleImportCreate}
+      throttleMs={importThrottleMs}
+      validationRules={validationRules}
+      validationMessages={dict.validation}
+      dictionary={dict.templates.import_dialog}
+    />
+  ) : null;
+
+  const renderTemplateCard = (template: MessageTemplate, key?: string) => (
+    <TemplateCard
+      key={key}
+      template={template}
+      isDeleting={deletingTemplateId === template.id}
+      onPreview={handlePreview}
+      onEdit={onEdit || onUpdate ? handleEdit : undefined}
+      onCopy={onCopy}
+      onDelete={onDelete}
+      onUseCampaign={onUseCampaign}
+      onCopyToAccount={onCopyToAccount && copyTargetAccounts.length > 0 ? setCopyTemplateId : undefined}
+      onViewHistory={setHistoryTemplateId}
+      dictionary={dict}
+      selected={!!selectedTemplates[template.id]}
+      onSelectedChange={(selected) => handleSelectTemplate(template, selected)}
+    />
+  );
+
+  const filtersActive = !!searchQuery || selectedCategory !== "all" || selectedLanguage !== "all";
+
+  // Rendered in the loading skeleton as well, so the search input keeps focus while filtered results load
+  const filterBar = onSearchChange || onCategoryChange || onLanguageChange ? (
+    <TemplateFilterBar
+      key="template-filter-bar"
+      searchQuery={searchQuery}
+      selectedCategory={selectedCategory}
+      selectedLanguage={selectedLanguage}
+      onSearchChange={onSearchChange}
+      onCategoryChange={onCategoryChange}
+      onLanguageChange={onLanguageChange}
+      dictionary={dict}
+    />
+  ) : null;
+
   if (loading) {
     return (
       <div className="space-y-8 template-client-container">
@@ -1058,6 +1773,8 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
           ))}
         </div>
 
+        {filterBar}
+
         {/* Templates Grid Skeleton */}
         <div className="space-y-6">
           <Skeleton className="h-6 w-48" />
@@ -1067,6 +1784,7 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
             ))}
           </div>
         </div>
+        {importDialog}
       </div>
     );
   }
@@ -1096,6 +1814,53 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
             <Globe className="w-4 h-4" />
             {dict.templates.sync_templates}
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                className="gap-2 bg-transparent template-export-button"
+                disabled={exporting}
+              >
+                {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                {dict.templates.export_menu?.export ?? "Export"}
+                {selectedCount > 0 && <Badge variant="secondary">{selectedCount}</Badge>}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56 template-export-menu">
+              <DropdownMenuLabel>
+                {selectedCount > 0
+                  ? (dict.templates.export_menu?.selected ?? "{count} selected templates").replace("{count}", String(selectedCount))
+                  : dict.templates.export_menu?.all ?? "All templates"}
+              </DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => handleExport("json")}>
+                {dict.templates.export_menu?.json ?? "JSON (template payloads)"}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("csv")}>
+                {dict.templates.export_menu?.csv ?? "CSV (summary)"}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("zip")}>
+                {dict.templates.export_menu?.zip ?? "Zip of Meta-ready payloads"}
+              </DropdownMenuItem>
+              {selectedCount > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setSelectedTemplates({})}>
+                    {dict.templates.export_menu?.clear_selection ?? "Clear selection"}
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {onCreate && (
+            <Button
+              variant="outline"
+              className="gap-2 bg-transparent template-import-button"
+              onClick={() => setImportOpen(true)}
+            >
+              <Upload className="w-4 h-4" />
+              {dict.templates.import_templates || "Import"}
+            </Button>
+          )}
           <Button
             variant="success"
             className="gap-2 template-create-button"
@@ -1192,30 +1957,39 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
         </Card>
       </div>
 
+      {filterBar}
+
       {/* Template Grid */}
       <div className="space-y-6 template-grid-section">
         <div className="flex items-center justify-between template-grid-header">
           <h2 className="text-xl font-semibold template-grid-title">
             {dict.templates.templates_count}
           </h2>
-          <PaginationControls
-          pagination={pagination}
-          currentTemplatesCount={templates.length}
-          totalTemplates={totalTemplates}
-          onNextPage={onNextPage}
-          onPreviousPage={onPreviousPage}
-          dictionary={dict}
-        />
+          {paginationMode === "pages" && (
+            <PaginationControls
+              pagination={pagination}
+              currentTemplatesCount={templates.length}
+              totalTemplates={totalTemplates}
+              onNextPage={onNextPage}
+              onPreviousPage={onPreviousPage}
+              dictionary={dict}
+            />
+          )}
         </div>
 
-        {totalTemplates > 0 && templates.length === 0 ? (
+        {templates.length === 0 && (totalTemplates > 0 || filtersActive) ? (
           <Card className="template-empty-state">
             <CardContent className="flex flex-col items-center justify-center py-12">
               <FileText className="w-12 h-12 text-muted-foreground mb-4 template-empty-icon" />
               <h3 className="text-lg font-semibold mb-2 template-empty-title">
                 {dict.templates.no_templates_found}
               </h3>
-              {totalTemplates === 0 && (
+              {filtersActive && (
+                <p className="text-muted-foreground text-center template-empty-description">
+                  {dict.templates.filters?.no_matches ?? "No templates match these filters."}
+                </p>
+              )}
+              {totalTemplates === 0 && !filtersActive && (
                 <>
                   <p className="text-muted-foreground text-center mb-4 template-empty-description">
                     {dict.templates.no_templates_desc}
@@ -1233,21 +2007,18 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
               )}
             </CardContent>
           </Card>
+        ) : paginationMode === "loadMore" ? (
+          <VirtualizedTemplateGrid
+            templates={templates}
+            renderTemplate={(template) => renderTemplateCard(template)}
+            hasMore={!!pagination?.hasNextPage}
+            loadingMore={loadingMore}
+            onLoadMore={onLoadMore}
+            dictionary={dict.templates.load_more}
+          />
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6 template-grid items-stretch">
-            {templates.map((template, index) => (
-              <TemplateCard
-                key={`${template.id}-${index}`}
-                template={template}
-                isDeleting={deletingTemplateId === template.id}
-                onPreview={onPreview}
-                onEdit={onEdit}
-                onCopy={onCopy}
-                onDelete={onDelete}
-                onUseCampaign={onUseCampaign}
-                dictionary={dict}
-              />
-            ))}
+            {templates.map((template, index) => renderTemplateCard(template, `${template.id}-${index}`))}
           </div>
         )}
         
@@ -1261,6 +2032,38 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({
           dictionary={dict}
         /> */}
       </div>
+
+      <TemplatePreviewDialog
+        template={previewTemplate}
+        open={previewTemplate !== null}
+        onOpenChange={(open) => {
+          if (!open) setPreviewTemplateId(null);
+        }}
+        dictionary={dict.templates.preview_dialog}
+      />
+      {onCopyToAccount && (
+        <CopyToAccountDialog
+          template={copyTemplate}
+          open={copyTemplate !== null}
+          onOpenChange={(open) => {
+            if (!open) setCopyTemplateId(null);
+          }}
+          accounts={copyTargetAccounts}
+          onCopy={handleCopyToAccount}
+          dictionary={dict.templates.copy_account_dialog}
+        />
+      )}
+      <TemplateHistoryDialog
+        template={historyTemplate}
+        open={historyTemplate !== null}
+        onOpenChange={(open) => {
+          if (!open) setHistoryTemplateId(null);
+        }}
+        wabaId={activeWabaId}
+        store={historyStore}
+        dictionary={dict.templates.history_dialog}
+      />
+      {importDialog}
     </div>
   );
 };
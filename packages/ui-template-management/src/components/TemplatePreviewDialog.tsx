@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@workspace/ui-core/components/dialog";
+import { Button } from "@workspace/ui-core/components/button";
+import { Input } from "@workspace/ui-core/components/input";
+import { Label } from "@workspace/ui-core/components/label";
+import { Badge } from "@workspace/ui-core/components/badge";
+import { Moon, RotateCcw, Sun } from "lucide-react";
+import type { MessageTemplate } from "../types/templateTypes";
+import {
+  collectPreviewVariables,
+  getDefaultSampleValues,
+  getVariableKey,
+  type PreviewVariable,
+} from "../lib/templatePreview";
+import WhatsAppMessagePreview, { type WhatsAppPreviewTheme } from "./WhatsAppMessagePreview";
+
+export interface TemplatePreviewDictionary {
+  title: string;
+  description: string;
+  sampleValues: string;
+  noVariables: string;
+  header: string;
+  body: string;
+  button: string;
+  card: string;
+  reset: string;
+  lightTheme: string;
+  darkTheme: string;
+}
+
+// English text, used when no dictionary is passed and as the preview_dialog section of fallbackDictionary
+export const fallbackPreviewDictionary: TemplatePreviewDictionary = {
+  title: "Template Preview",
+  description: "See how this template will look to your customers.",
+  sampleValues: "Sample Values",
+  noVariables: "This template has no variables.",
+  header: "Header",
+  body: "Body",
+  button: "Button URL",
+  card: "Card {number}",
+  reset: "Reset",
+  lightTheme: "Light",
+  darkTheme: "Dark",
+};
+
+interface TemplatePreviewDialogProps {
+  template: MessageTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dictionary?: TemplatePreviewDictionary;
+}
+
+const TemplatePreviewDialog: React.FC<TemplatePreviewDialogProps> = ({
+  template,
+  open,
+  onOpenChange,
+  dictionary,
+}) => {
+  const dict = dictionary || fallbackPreviewDictionary;
+
+  const variables = useMemo(
+    () => collectPreviewVariables(template?.components),
+    [template]
+  );
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [theme, setTheme] = useState<WhatsAppPreviewTheme>("light");
+
+  // Start from Meta's examples every time a different template is previewed
+  useEffect(() => {
+    setValues(getDefaultSampleValues(variables));
+  }, [variables]);
+
+  const getScopeLabel = (variable: PreviewVariable) => {
+    if (variable.scope === "header") return dict.header;
+    if (variable.scope === "body") return dict.body;
+    if (variable.scope === "button") return dict.button;
+    return dict.card.replace("{number}", String(Number(variable.scope.replace("card_", "")) + 1));
+  };
+
+  if (!template) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-none w-screen max-w-none h-svh max-h-svh rounded-none top-0 sm:top-0 sm:translate-y-0 flex flex-col template-preview-dialog"
+        autoFocusFirstInput={false}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {dict.title}
+            <code className="text-xs font-mono bg-muted px-2 py-1 rounded text-muted-foreground">
+              {template.name}
+            </code>
+          </DialogTitle>
+          <DialogDescription>{dict.description}</DialogDescription>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="outline">{template.category}</Badge>
+            <Badge variant="outline">{template.language}</Badge>
+          </div>
+        </DialogHeader>
+
+        <div className="grid flex-1 min-h-0 grid-cols-1 lg:grid-cols-[minmax(0,360px)_1fr] gap-6">
+          <div className="space-y-4 overflow-y-auto template-preview-variables">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">{dict.sampleValues}</h3>
+              {variables.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => setValues(getDefaultSampleValues(variables))}
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  {dict.reset}
+                </Button>
+              )}
+            </div>
+            {variables.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{dict.noVariables}</p>
+            ) : (
+              variables.map((variable) => {
+                const key = getVariableKey(variable.scope, variable.name);
+                return (
+                  <div key={key} className="space-y-2">
+                    <Label htmlFor={`preview-var-${key}`} className="text-sm">
+                      {getScopeLabel(variable)} {`{{${variable.name}}}`}
+                    </Label>
+                    <Input
+                      id={`preview-var-${key}`}
+                      value={values[key] ?? ""}
+                      placeholder={variable.example || `{{${variable.name}}}`}
+                      onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                    />
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <div className="flex flex-col min-h-0 gap-3">
+            <div className="flex justify-end gap-2">
+              <Button
+                variant={theme === "light" ? "default" : "outline"}
+                size="sm"
+                className="gap-1"
+                onClick={() => setTheme("light")}
+              >
+                <Sun className="w-3 h-3" />
+                {dict.lightTheme}
+              </Button>
+              <Button
+                variant={theme === "dark" ? "default" : "outline"}
+                size="sm"
+                className="gap-1"
+                onClick={() => setTheme("dark")}
+              >
+                <Moon className="w-3 h-3" />
+                {dict.darkTheme}
+              </Button>
+            </div>
+            <WhatsAppMessagePreview
+              components={template.components || []}
+              values={values}
+              theme={theme}
+              className="flex-1 overflow-y-auto"
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplatePreviewDialog;
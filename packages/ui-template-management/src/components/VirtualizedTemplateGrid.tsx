@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+import { Button } from "@workspace/ui-core/components/button";
+import { Loader2 } from "lucide-react";
+import type { MessageTemplate } from "../types/templateTypes";
+
+export interface VirtualizedTemplateGridDictionary {
+  loadMore: string;
+  loadingMore: string;
+  showing: string;
+}
+
+// English text of the load more controls, fallbackDictionary.templates.load_more points here
+export const fallbackGridDictionary: VirtualizedTemplateGridDictionary = {
+  loadMore: "Load more",
+  loadingMore: "Loading more templates...",
+  showing: "Showing {count} templates",
+};
+
+interface VirtualizedTemplateGridProps {
+  templates: MessageTemplate[];
+  renderTemplate: (template: MessageTemplate, index: number) => React.ReactNode;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  estimatedRowHeight?: number; // Used until a row has been measured
+  overscanRows?: number; // Rows rendered above and below the viewport
+  dictionary?: VirtualizedTemplateGridDictionary;
+}
+
+// Same breakpoints as the paged grid: grid-cols-1 lg:grid-cols-2 xl:grid-cols-3
+const getColumnCount = () => {
+  if (typeof window === "undefined") return 1;
+  if (window.matchMedia("(min-width: 1280px)").matches) return 3;
+  if (window.matchMedia("(min-width: 1024px)").matches) return 2;
+  return 1;
+};
+
+const ROW_GAP = 24; // gap-6
+
+/**
+ * Template grid that only mounts the rows near the viewport, so thousands of templates don't mean
+ * thousands of cards and media requests. Rows are measured after render, cards can have any height.
+ * Calls onLoadMore when the last rows come into view.
+ */
+const VirtualizedTemplateGrid: React.FC<VirtualizedTemplateGridProps> = ({
+  templates,
+  renderTemplate,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  estimatedRowHeight = 420,
+  overscanRows = 2,
+  dictionary,
+}) => {
+  const dict = dictionary || fallbackGridDictionary;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowHeights = useRef<Map<number, number>>(new Map());
+  const rowElements = useRef<Map<number, HTMLDivElement>>(new Map());
+  const resizeObserver = useRef<ResizeObserver | null>(null);
+  const [columns, setColumns] = useState(1);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  const rowCount = Math.ceil(templates.length / columns);
+  const getRowHeight = (row: number) => rowHeights.current.get(row) ?? estimatedRowHeight + ROW_GAP;
+
+  // Measured heights belong to one column layout
+  useEffect(() => {
+    const handleResize = () => {
+      const next = getColumnCount();
+      setColumns((current) => {
+        if (current !== next) rowHeights.current.clear();
+        return next;
+      });
+    };
+    handleResize();
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Position of the viewport relative to the top of the grid, works for window and ancestor scrolling
+    const top = -container.getBoundingClientRect().top;
+    const bottom = top + window.innerHeight;
+
+    let offset = 0;
+    let start = 0;
+    while (start < rowCount && offset + getRowHeight(start) < top) {
+      offset += getRowHeight(start);
+      start++;
+    }
+    let end = start;
+    while (end < rowCount && offset < bottom) {
+      offset += getRowHeight(end);
+      end++;
+    }
+
+    const next = {
+      start: Math.max(0, start - overscanRows),
+      end: Math.min(rowCount, end + overscanRows),
+    };
+    setRange((current) => (current.start === next.start && current.end === next.end ? current : next));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rowCount, overscanRows, estimatedRowHeight]);
+
+  useEffect(() => {
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRange);
+    };
+    // Capture so scrolling inside any scrollable ancestor is noticed too
+    window.addEventListener("scroll", handleScroll, true);
+    window.addEventListener("resize", handleScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", handleScroll, true);
+      window.removeEventListener("resize", handleScroll);
+    };
+  }, [updateRange]);
+
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange, measureVersion, columns]);
+
+  // One observer for all mounted rows, a changed height moves every row below it
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      let changed = false;
+      entries.forEach((entry) => {
+        const row = Number((entry.target as HTMLElement).dataset.row);
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (height > 0 && rowHeights.current.get(row) !== height) {
+          rowHeights.current.set(row, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion((version) => version + 1);
+    });
+    resizeObserver.current = observer;
+    rowElements.current.forEach((element) => observer.observe(element));
+    return () => observer.disconnect();
+  }, []);
+
+  const registerRow = (row: number) => (element: HTMLDivElement | null) => {
+    const previous = rowElements.current.get(row);
+    if (previous && previous !== element) {
+      resizeObserver.current?.unobserve(previous);
+      rowElements.current.delete(row);
+    }
+    if (element) {
+      rowElements.current.set(row, element);
+      resizeObserver.current?.observe(element);
+    }
+  };
+
+  // Fetch the next page before the user reaches the end of the loaded templates
+  useEffect(() => {
+    if (hasMore && !loadingMore && onLoadMore && rowCount > 0 && range.end >= rowCount) {
+      onLoadMore();
+    }
+  }, [range.end, rowCount, hasMore, loadingMore, onLoadMore]);
+
+  let paddingTop = 0;
+  for (let row = 0; row < range.start; row++) paddingTop += getRowHeight(row);
+  let paddingBottom = 0;
+  for (let row = range.end; row < rowCount; row++) paddingBottom += getRowHeight(row);
+
+  const rows: React.ReactNode[] = [];
+  for (let row = range.start; row < range.end; row++) {
+    const first = row * columns;
+    rows.push(
+      <div
+        key={`${columns}-${row}`}
+        ref={registerRow(row)}
+        data-row={row}
+        className="grid gap-6 items-stretch template-grid-row"
+        style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, paddingBottom: ROW_GAP }}
+      >
+        {templates.slice(first, first + columns).map((template, index) => (
+          <React.Fragment key={`${template.id}-${first + index}`}>
+            {renderTemplate(template, first + index)}
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 template-virtual-grid">
+      <div ref={containerRef} style={{ paddingTop, paddingBottom }} className="template-grid">
+        {rows}
+      </div>
+      <div className="flex flex-col items-center gap-2 template-load-more">
+        <p className="text-sm text-muted-foreground">
+          {dict.showing.replace("{count}", String(templates.length))}
+        </p>
+        {loadingMore ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {dict.loadingMore}
+          </div>
+        ) : (
+          hasMore &&
+          onLoadMore && (
+            <Button variant="outline" size="sm" onClick={onLoadMore}>
+              {dict.loadMore}
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualizedTemplateGrid;
@@ -0,0 +1,52 @@
+"use client";
+
+import React from 'react';
+import { useWabaContext } from '../context/WabaContext';
+import { Label } from '@workspace/ui-core/components/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@workspace/ui-core/components/select';
+import { Building2 } from 'lucide-react';
+
+interface WabaSwitcherProps {
+    label?: string;
+    placeholder?: string;
+    disabled?: boolean;
+    className?: string;
+}
+
+/**
+ * Select the active WhatsApp Business Account of the surrounding WabaProvider.
+ * Renders nothing when the provider has fewer than two accounts to choose from.
+ */
+const WabaSwitcher: React.FC<WabaSwitcherProps> = ({
+    label = 'Business Account',
+    placeholder = 'Select an account',
+    disabled = false,
+    className,
+}) => {
+    const { accounts, wabaId, setActiveWabaId } = useWabaContext();
+
+    if (accounts.length < 2) return null;
+
+    return (
+        <div className={`flex items-center gap-2 ${className || ''}`}>
+            <Label htmlFor="waba-switcher" className="flex items-center gap-1 text-xs sm:text-sm whitespace-nowrap">
+                <Building2 className="h-4 w-4" />
+                {label}
+            </Label>
+            <Select value={wabaId || undefined} onValueChange={setActiveWabaId} disabled={disabled}>
+                <SelectTrigger id="waba-switcher" className="w-full sm:w-64 text-base sm:text-sm">
+                    <SelectValue placeholder={placeholder} />
+                </SelectTrigger>
+                <SelectContent>
+                    {accounts.map(account => (
+                        <SelectItem key={account.wabaId} value={account.wabaId}>
+                            {account.name || account.wabaId}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+};
+
+export default WabaSwitcher;
@@ -0,0 +1,310 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Copy,
+  ExternalLink,
+  FileText,
+  Gift,
+  ImageIcon,
+  MapPin,
+  MessageSquare,
+  Phone,
+  ShoppingBag,
+  ShoppingCart,
+  Video,
+  Workflow,
+} from "lucide-react";
+import type {
+  ResponseButton,
+  ResponseCarouselCard,
+  ResponseComponent,
+  ResponseHeaderComponent,
+  ResponseLimitedTimeOfferComponent,
+} from "../types/templateTypes";
+import { fillVariables, type PreviewVariableScope } from "../lib/templatePreview";
+
+export type WhatsAppPreviewTheme = "light" | "dark";
+
+interface WhatsAppMessagePreviewProps {
+  components: ResponseComponent[];
+  values?: Record<string, string>;
+  theme?: WhatsAppPreviewTheme;
+  className?: string;
+  offerExpiresAt?: number; // Expiration shown in the limited-time offer countdown, defaults to 24 hours from now
+}
+
+const DEFAULT_OFFER_DURATION_MS = 24 * 60 * 60 * 1000;
+
+const THEME_CLASSES: Record<WhatsAppPreviewTheme, { chat: string; bubble: string; text: string; muted: string; button: string }> = {
+  light: {
+    chat: "bg-[#efeae2]",
+    bubble: "bg-white",
+    text: "text-[#111b21]",
+    muted: "text-[#667781]",
+    button: "bg-white text-[#00a5f4] border-[#e9edef]",
+  },
+  dark: {
+    chat: "bg-[#0b141a]",
+    bubble: "bg-[#202c33]",
+    text: "text-[#e9edef]",
+    muted: "text-[#8696a0]",
+    button: "bg-[#202c33] text-[#53bdeb] border-[#2a3942]",
+  },
+};
+
+/**
+ * Render WhatsApp inline formatting: *bold*, _italic_, ~strikethrough~ and ```monospace```
+ */
+function renderFormattedText(text: string): React.ReactNode[] {
+  const pattern = /(```[^`]+```|\*[^*\n]+\*|_[^_\n]+_|~[^~\n]+~)/g;
+  return text.split(pattern).map((part, index) => {
+    if (part.startsWith("```") && part.endsWith("```") && part.length > 6) {
+      return <code key={index} className="font-mono">{part.slice(3, -3)}</code>;
+    }
+    if (part.length > 2 && part.startsWith("*") && part.endsWith("*")) {
+      return <strong key={index}>{part.slice(1, -1)}</strong>;
+    }
+    if (part.length > 2 && part.startsWith("_") && part.endsWith("_")) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    if (part.length > 2 && part.startsWith("~") && part.endsWith("~")) {
+      return <s key={index}>{part.slice(1, -1)}</s>;
+    }
+    return <React.Fragment key={index}>{part}</React.Fragment>;
+  });
+}
+
+const isRemoteUrl = (value?: string) => !!value && /^https?:\/\//i.test(value);
+
+const PreviewButtonIcon = ({ type }: { type: ResponseButton["type"] }) => {
+  switch (type) {
+    case "URL":
+      return <ExternalLink className="w-4 h-4" />;
+    case "PHONE_NUMBER":
+      return <Phone className="w-4 h-4" />;
+    case "CATALOG":
+    case "SPM":
+      return <ShoppingBag className="w-4 h-4" />;
+    case "MPM":
+      return <ShoppingCart className="w-4 h-4" />;
+    case "COPY_CODE":
+      return <Copy className="w-4 h-4" />;
+    case "FLOW":
+      return <Workflow className="w-4 h-4" />;
+    default:
+      return <MessageSquare className="w-4 h-4" />;
+  }
+};
+
+const PreviewMedia = ({ header, muted }: { header: ResponseHeaderComponent; muted: string }) => {
+  const placeholder = (icon: React.ReactNode, label: string) => (
+    <div className="w-full h-36 rounded-md bg-black/10 flex flex-col items-center justify-center gap-1 template-preview-media-placeholder">
+      {icon}
+      <span className={`text-xs ${muted}`}>{label}</span>
+    </div>
+  );
+
+  switch (header.format) {
+    case "IMAGE": {
+      const url = header.example?.header_handle?.[0];
+      return isRemoteUrl(url) ? (
+        <img src={url} alt="Header" className="w-full max-h-48 object-cover rounded-md template-preview-media-image" />
+      ) : (
+        placeholder(<ImageIcon className={`w-8 h-8 ${muted}`} />, "Image")
+      );
+    }
+    case "VIDEO": {
+      const url = header.example?.header_handle?.[0];
+      return isRemoteUrl(url) ? (
+        <video src={url} controls className="w-full max-h-48 rounded-md template-preview-media-video" />
+      ) : (
+        placeholder(<Video className={`w-8 h-8 ${muted}`} />, "Video")
+      );
+    }
+    case "DOCUMENT":
+      return (
+        <div className="flex items-center gap-3 rounded-md bg-black/5 p-3 template-preview-media-document">
+          <FileText className="w-8 h-8 text-red-500 shrink-0" />
+          <span className={`text-sm ${muted}`}>Document.pdf</span>
+        </div>
+      );
+    case "LOCATION":
+      return placeholder(<MapPin className={`w-8 h-8 ${muted}`} />, "Location");
+    case "PRODUCT":
+      return placeholder(<ShoppingBag className={`w-8 h-8 ${muted}`} />, "Product");
+    default:
+      return null;
+  }
+};
+
+const PreviewButtons = ({ buttons, className }: { buttons: ResponseButton[]; className: string }) => (
+  <div className="mt-0.5 space-y-0.5 template-preview-buttons">
+    {buttons.map((button, index) => (
+      <div
+        key={index}
+        className={`flex items-center justify-center gap-2 rounded-md border py-2 text-sm font-medium ${className}`}
+      >
+        <PreviewButtonIcon type={button.type} />
+        <span className="truncate">{button.text || (button.type === "COPY_CODE" ? "Copy offer code" : "")}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map((part) => String(part).padStart(2, "0")).join(":");
+};
+
+/**
+ * Limited-time offer banner with a live countdown when the offer expires
+ */
+const PreviewOffer = ({
+  offer,
+  expiresAt,
+  text,
+  muted,
+}: {
+  offer: ResponseLimitedTimeOfferComponent["limited_time_offer"];
+  expiresAt: number;
+  text: string;
+  muted: string;
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!offer.has_expiration) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [offer.has_expiration]);
+
+  return (
+    <div className="flex items-center gap-3 rounded-md bg-black/5 p-2 mt-1 template-preview-offer">
+      <div className="rounded-full bg-[#25d366]/15 p-2">
+        <Gift className="w-5 h-5 text-[#25d366]" />
+      </div>
+      <div className="min-w-0">
+        <p className={`text-sm font-semibold truncate ${text}`}>{offer.text}</p>
+        {offer.has_expiration && (
+          <p className={`text-xs template-preview-offer-countdown ${muted}`}>
+            Ends in {formatCountdown(expiresAt - now)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders template components as a received WhatsApp message
+ */
+const WhatsAppMessagePreview: React.FC<WhatsAppMessagePreviewProps> = ({
+  components,
+  values = {},
+  theme = "light",
+  className = "",
+  offerExpiresAt,
+}) => {
+  const styles = THEME_CLASSES[theme];
+  const [defaultOfferExpiresAt] = useState(() => Date.now() + DEFAULT_OFFER_DURATION_MS);
+
+  const header = components.find((c) => c.type === "HEADER") as ResponseHeaderComponent | undefined;
+  const body = components.find((c) => c.type === "BODY");
+  const footer = components.find((c) => c.type === "FOOTER");
+  const buttons = components.find((c) => c.type === "BUTTONS");
+  const carousel = components.find((c) => c.type === "CAROUSEL");
+  const offer = components.find((c) => c.type === "LIMITED_TIME_OFFER");
+  const callPermissionRequest = components.some((c) => c.type === "CALL_PERMISSION_REQUEST");
+
+  const renderText = (text: string | undefined, scope: PreviewVariableScope) =>
+    renderFormattedText(fillVariables(text, scope, values));
+
+  const renderCard = (card: ResponseCarouselCard, cardIndex: number) => {
+    const cardHeader = card.components.find((c) => c.type === "HEADER") as ResponseHeaderComponent | undefined;
+    const cardBody = card.components.find((c) => c.type === "BODY");
+    const cardButtons = card.components.find((c) => c.type === "BUTTONS");
+
+    return (
+      <div key={cardIndex} className="w-56 shrink-0 template-preview-carousel-card">
+        <div className={`rounded-lg p-1.5 shadow-sm ${styles.bubble}`}>
+          {cardHeader && <PreviewMedia header={cardHeader} muted={styles.muted} />}
+          {cardBody && "text" in cardBody && (
+            <p className={`px-1.5 pt-2 text-sm whitespace-pre-wrap wrap-break-word ${styles.text}`}>
+              {renderText(cardBody.text, `card_${cardIndex}`)}
+            </p>
+          )}
+        </div>
+        {cardButtons && "buttons" in cardButtons && (
+          <PreviewButtons buttons={cardButtons.buttons} className={styles.button} />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`rounded-lg p-4 template-preview-chat template-preview-chat-${theme} ${styles.chat} ${className}`}>
+      <div className="max-w-[85%] template-preview-message">
+        <div className={`rounded-lg rounded-tl-none p-1.5 shadow-sm template-preview-bubble ${styles.bubble}`}>
+          {header && header.format !== "TEXT" && <PreviewMedia header={header} muted={styles.muted} />}
+          {offer && "limited_time_offer" in offer && (
+            <PreviewOffer
+              offer={offer.limited_time_offer}
+              expiresAt={offerExpiresAt ?? defaultOfferExpiresAt}
+              text={styles.text}
+              muted={styles.muted}
+            />
+          )}
+          <div className="px-1.5 pt-1">
+            {header && header.format === "TEXT" && (
+              <p className={`font-semibold text-sm mb-1 wrap-break-word template-preview-header ${styles.text}`}>
+                {renderText(header.text, "header")}
+              </p>
+            )}
+            {body && "text" in body && (
+              <p className={`text-sm whitespace-pre-wrap wrap-break-word template-preview-body ${styles.text}`}>
+                {renderText(body.text, "body")}
+              </p>
+            )}
+            {footer && "text" in footer && footer.text && (
+              <p className={`text-xs mt-1 template-preview-footer ${styles.muted}`}>{footer.text}</p>
+            )}
+            <p className={`text-[10px] text-right mt-0.5 ${styles.muted}`}>12:00</p>
+          </div>
+        </div>
+        {buttons && "buttons" in buttons && buttons.buttons.length > 0 && (
+          <PreviewButtons buttons={buttons.buttons} className={styles.button} />
+        )}
+        {callPermissionRequest && (
+          <div className={`mt-0.5 rounded-lg p-3 shadow-sm template-preview-call-permission ${styles.bubble}`}>
+            <div className="flex items-center gap-2">
+              <Phone className="w-4 h-4 text-[#25d366]" />
+              <p className={`text-sm font-semibold ${styles.text}`}>Allow voice calls?</p>
+            </div>
+            <p className={`text-xs mt-1 ${styles.muted}`}>This business would like to call you on WhatsApp.</p>
+          </div>
+        )}
+        {callPermissionRequest && (
+          <PreviewButtons
+            buttons={[
+              { type: "QUICK_REPLY", text: "Always allow" },
+              { type: "QUICK_REPLY", text: "Not now" },
+            ]}
+            className={styles.button}
+          />
+        )}
+      </div>
+
+      {carousel && "cards" in carousel && carousel.cards.length > 0 && (
+        <div className="mt-2 flex gap-2 overflow-x-auto pb-2 template-preview-carousel">
+          {carousel.cards.map(renderCard)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhatsAppMessagePreview;
@@ -1,11 +1,23 @@
-import React, { createContext, useContext, ReactNode } from 'react';
+"use client";
+
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+
+export interface WabaAccount {
+  wabaId: string;
+  name?: string;
+  phoneId?: string | null;
+}
 
 interface WabaContextType {
   wabaId: string | null;
   phoneId: string | null;
   isOnboarded: boolean;
+  accounts: WabaAccount[];
+  setActiveWabaId: (wabaId: string) => void;
 }
 
+const DEFAULT_STORAGE_KEY = 'template-management:active-waba';
+
 const WabaContext = createContext<WabaContextType | null>(null);
 
 interface WabaProviderProps {
@@ -13,16 +25,72 @@ interface WabaProviderProps {
   wabaId?: string | null;
   phoneId?: string | null;
   isOnboarded?: boolean;
+  /** Accounts the user can switch between. When given, `wabaId` is only the initial selection. */
+  accounts?: WabaAccount[];
+  /** localStorage key used to remember the selected account, pass null to disable persistence */
+  storageKey?: string | null;
+  onWabaChange?: (wabaId: string) => void;
 }
 
-export function WabaProvider({ 
-  children, 
-  wabaId = null, 
-  phoneId = null, 
-  isOnboarded = false 
+const readStoredWabaId = (storageKey: string | null): string | null => {
+  if (!storageKey || typeof window === 'undefined') return null;
+  try {
+    return localStorage.getItem(storageKey);
+  } catch {
+    return null;
+  }
+};
+
+const writeStoredWabaId = (storageKey: string | null, wabaId: string) => {
+  if (!storageKey || typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(storageKey, wabaId);
+  } catch {
+    // Ignore localStorage errors (private mode, quota)
+  }
+};
+
+export function WabaProvider({
+  children,
+  wabaId = null,
+  phoneId = null,
+  isOnboarded = false,
+  accounts = [],
+  storageKey = DEFAULT_STORAGE_KEY,
+  onWabaChange,
 }: WabaProviderProps) {
+  const [selectedWabaId, setSelectedWabaId] = useState<string | null>(null);
+
+  // Accounts may arrive after the first render, so resolve the selection whenever the list changes:
+  // keep the current pick if it is still available, otherwise restore the stored one, then fall back to the first account
+  useEffect(() => {
+    if (accounts.length === 0) return;
+    if (selectedWabaId && accounts.some(a => a.wabaId === selectedWabaId)) return;
+
+    const storedWabaId = readStoredWabaId(storageKey);
+    const nextWabaId = accounts.some(a => a.wabaId === storedWabaId)
+      ? (storedWabaId as string)
+      : accounts.some(a => a.wabaId === wabaId)
+        ? (wabaId as string)
+        : accounts[0]!.wabaId;
+    setSelectedWabaId(nextWabaId);
+  }, [accounts, selectedWabaId, storageKey, wabaId]);
+
+  const setActiveWabaId = (nextWabaId: string) => {
+    if (nextWabaId === selectedWabaId) return;
+    setSelectedWabaId(nextWabaId);
+    writeStoredWabaId(storageKey, nextWabaId);
+    onWabaChange?.(nextWabaId);
+  };
+
+  const activeAccount = accounts.find(a => a.wabaId === selectedWabaId);
+  const activeWabaId = accounts.length > 0 ? (activeAccount?.wabaId ?? null) : wabaId;
+  const activePhoneId = activeAccount ? (activeAccount.phoneId ?? null) : phoneId;
+
   return (
-    <WabaContext.Provider value={{ wabaId, phoneId, isOnboarded }}>
+    <WabaContext.Provider
+      value={{ wabaId: activeWabaId, phoneId: activePhoneId, isOnboarded, accounts, setActiveWabaId }}
+    >
       {children}
     </WabaContext.Provider>
   );
@@ -30,7 +98,5 @@ export function WabaProvider({
 
 export function useWabaContext(): WabaContextType {
   const context = useContext(WabaContext);
-  return context || { wabaId: null, phoneId: null, isOnboarded: false };
+  return context || { wabaId: null, phoneId: null, isOnboarded: false, accounts: [], setActiveWabaId: () => {} };
 }
-
-
@@ -0,0 +1,30 @@
+/**
+ * Hook for Template Status Watching
+ * Follows the pending templates of a list and calls back when Meta approves or rejects them
+ */
+
+import { useEffect, useRef } from 'react';
+import { MessageTemplate } from '../types/templateTypes';
+import {
+  templateStatusWatcher,
+  TemplateStatusChange,
+  TemplateStatusWatcher,
+} from '../lib/templateStatusWatcher';
+
+export const useTemplateStatusWatcher = (
+  templates: MessageTemplate[],
+  onStatusChange: (change: TemplateStatusChange) => void,
+  watcher: TemplateStatusWatcher = templateStatusWatcher
+): void => {
+  // Keep the latest callback without resubscribing, which would restart the backoff
+  const onStatusChangeRef = useRef(onStatusChange);
+  onStatusChangeRef.current = onStatusChange;
+
+  useEffect(() => {
+    return watcher.subscribe((change) => onStatusChangeRef.current(change));
+  }, [watcher]);
+
+  useEffect(() => {
+    watcher.watch(templates);
+  }, [templates, watcher]);
+};
@@ -1,11 +1,14 @@
 /**
  * Hook for Meta Template Validation
- * Provides validation functionality for template creation
+ * Provides validation functionality for template creation, with Meta's rules or a custom rule set.
+ * Pass the validation section of the dictionary to get errorMessage in the user's language.
  */
 
 import { useState, useCallback } from 'react';
 import { CreateTemplatePayload } from '../types/templateTypes';
 import MetaTemplateValidator, { ValidationResult, ValidationError } from '../lib/metaTemplateValidator';
+import { ValidationRuleSet } from '../lib/validationRules';
+import { ValidationMessages } from '../lib/validationMessages';
 
 export interface UseTemplateValidationReturn {
   validateTemplate: (payload: CreateTemplatePayload) => ValidationResult;
@@ -22,7 +25,10 @@ export interface UseTemplateValidationReturn {
   hasUserWarnings: boolean;
 }
 
-export const useTemplateValidation = (): UseTemplateValidationReturn => {
+export const useTemplateValidation = (
+  ruleSet?: ValidationRuleSet,
+  messages?: Partial<ValidationMessages>
+): UseTemplateValidationReturn => {
   const [validationResult, setValidationResult] = useState<ValidationResult>({
     isValid: true,
     errors: [],
@@ -32,10 +38,10 @@ export const useTemplateValidation = (): UseTemplateValidationReturn => {
   });
 
   const validateTemplate = useCallback((payload: CreateTemplatePayload): ValidationResult => {
-    const result = MetaTemplateValidator.validateTemplate(payload);
+    const result = MetaTemplateValidator.validateTemplate(payload, ruleSet);
     setValidationResult(result);
     return result;
-  }, []);
+  }, [ruleSet]);
 
   const clearValidation = useCallback(() => {
     setValidationResult({
@@ -47,7 +53,7 @@ export const useTemplateValidation = (): UseTemplateValidationReturn => {
     });
   }, []);
 
-  const errorMessage = MetaTemplateValidator.formatValidationResult(validationResult);
+  const errorMessage = MetaTemplateValidator.formatValidationResult(validationResult, messages);
 
   return {
     validateTemplate,
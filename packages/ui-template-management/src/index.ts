@@ -2,19 +2,39 @@
 export { default as TemplateManager, TemplateCard, fallbackDictionary } from './components/TemplateManager';
 export { default as CreateTemplateUI } from './components/CreateTemplateUI';
 export { default as HeaderComponentEditor } from './components/HeaderComponentEditor';
+export { default as CarouselComponentEditor } from './components/CarouselComponentEditor';
+export { default as LimitedTimeOfferEditor } from './components/LimitedTimeOfferEditor';
+export { default as FlowButtonEditor } from './components/FlowButtonEditor';
+export { default as CommerceTemplateEditor } from './components/CommerceTemplateEditor';
+export type { TemplateKind } from './components/CommerceTemplateEditor';
 export { default as FilePreview } from './components/FilePreview';
 export { default as TemplateErrorUI } from './components/TemplateErrorUI';
 export { FileUploadTest } from './components/FileUploadTest';
 export { default as AuthenticationTemplateForm } from './components/AuthenticationTemplateForm';
+export { default as TemplatePreviewDialog } from './components/TemplatePreviewDialog';
+export type { TemplatePreviewDictionary } from './components/TemplatePreviewDialog';
+export { default as CopyToAccountDialog } from './components/CopyToAccountDialog';
+export type { CopyToAccountDictionary } from './components/CopyToAccountDialog';
+export { default as TemplateHistoryDialog } from './components/TemplateHistoryDialog';
+export type { TemplateHistoryDictionary } from './components/TemplateHistoryDialog';
+export { default as WhatsAppMessagePreview } from './components/WhatsAppMessagePreview';
+export { default as WabaSwitcher } from './components/WabaSwitcher';
+export { default as VirtualizedTemplateGrid } from './components/VirtualizedTemplateGrid';
+export type { VirtualizedTemplateGridDictionary } from './components/VirtualizedTemplateGrid';
 
 // Export hooks
 export { useWabaId, useWabaIdRequired } from './hooks/useWabaId';
+export { useTemplateStatusWatcher } from './hooks/useTemplateStatusWatcher';
+export { useTemplateValidation } from './hooks/useTemplateValidation';
+export type { UseTemplateValidationReturn } from './hooks/useTemplateValidation';
 
 // Export context
 export { WabaProvider, useWabaContext } from './context/WabaContext';
+export type { WabaAccount } from './context/WabaContext';
 
 // Export types
 export type * from './types/templateTypes';
+export type * from './types/webhookTypes';
 
 // Export services
 export { fileUploadService, FileUploadService } from './lib/fileUploadService';
@@ -28,3 +48,67 @@ export type {
   UploadFileDataParams,
   UploadFileDataResponse,
 } from './lib/fileUploadService';
+export {
+  templateHistory,
+  TemplateHistoryStore,
+  IndexedDBHistoryStorage,
+  MemoryHistoryStorage,
+} from './lib/templateHistory';
+export type {
+  TemplateHistoryEntry,
+  TemplateHistoryEntryKind,
+  TemplateHistoryStorage,
+} from './lib/templateHistory';
+export { templateStatusWatcher, TemplateStatusWatcher } from './lib/templateStatusWatcher';
+export type {
+  FetchTemplateFn,
+  TemplateStatusChange,
+  TemplateStatusListener,
+  TemplateStatusSource,
+  TemplateStatusUpdate,
+  TemplateStatusWatcherOptions,
+} from './lib/templateStatusWatcher';
+export { parseTemplateWebhook, applyTemplateWebhookEvent } from './lib/templateWebhooks';
+export {
+  MetaTemplateValidator,
+  createValidationRuleSet,
+  defaultValidationRuleSet,
+} from './lib/metaTemplateValidator';
+export type { ValidationError, ValidationResult } from './lib/metaTemplateValidator';
+export { DEFAULT_VALIDATION_LIMITS, metaTemplateRules } from './lib/metaTemplateRules';
+export { bannedWordsRule, requiredFooterRule, allowedUrlDomainsRule } from './lib/customValidationRules';
+export {
+  DEFAULT_VALIDATION_MESSAGES,
+  interpolateValidationMessage,
+  localizeValidationMessage,
+} from './lib/validationMessages';
+export type { ValidationMessages, ValidationMessageParams } from './lib/validationMessages';
+export type {
+  ValidationRule,
+  ValidationRuleSet,
+  ValidationRuleSetOptions,
+  ValidationRuleOverride,
+  ValidationContext,
+  ValidationLimits,
+  ValidationLimit,
+  ValidationLimitOverrides,
+  ValidationSeverity,
+  RuleViolation,
+  RuleComponent,
+  RuleButton,
+  LocatedComponent,
+  LocatedButton,
+  LocatedCard,
+} from './lib/validationRules';
+export { componentField } from './lib/validationRules';
+export {
+  FIELD_PATH_ATTRIBUTE,
+  fieldPath,
+  parentFieldPath,
+  isWithinFieldPath,
+  findFieldError,
+  fieldPathProps,
+  focusFieldPath,
+  focusFirstFieldPath,
+} from './lib/fieldPaths';
+export type { FieldPath } from './lib/fieldPaths';
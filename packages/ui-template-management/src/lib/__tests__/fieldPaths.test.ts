@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { fieldPath, fieldPathProps, isWithinFieldPath, parentFieldPath } from '../fieldPaths';
+
+describe('fieldPaths', () => {
+  it('joins segments with dots and indexes', () => {
+    expect(fieldPath('components', 'BUTTONS', 'buttons', 1, 'url')).toBe('components.BUTTONS.buttons[1].url');
+    expect(fieldPath('components', 'BODY', 'example', 'body_text', 0, 2)).toBe('components.BODY.example.body_text[0][2]');
+    expect(fieldPath('name')).toBe('name');
+  });
+
+  it('walks up to the enclosing field', () => {
+    expect(parentFieldPath('components.BUTTONS.buttons[1].url')).toBe('components.BUTTONS.buttons[1]');
+    expect(parentFieldPath('components.BUTTONS.buttons[1]')).toBe('components.BUTTONS.buttons');
+    expect(parentFieldPath('name')).toBe('');
+  });
+
+  it('matches nested fields only', () => {
+    expect(isWithinFieldPath('components.BUTTONS.buttons[1].url', 'components.BUTTONS.buttons[1]')).toBe(true);
+    expect(isWithinFieldPath('components.BUTTONS.buttons[1]', 'components.BUTTONS.buttons[1]')).toBe(true);
+    expect(isWithinFieldPath('components.BUTTONS.buttons[10].url', 'components.BUTTONS.buttons[1]')).toBe(false);
+    expect(isWithinFieldPath('components.BODY_EXTRA', 'components.BODY')).toBe(false);
+  });
+
+  it('marks inputs with an error as invalid', () => {
+    expect(fieldPathProps('name', 'Template name is required')).toEqual({ 'data-field-path': 'name', 'aria-invalid': true });
+    expect(fieldPathProps('name')).toEqual({ 'data-field-path': 'name', 'aria-invalid': undefined });
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CreateUploadSessionFn,
+  FileUploadService,
+  GetPartnerConfigFn,
+  UploadFileDataFn,
+} from '../fileUploadService';
+
+const WABA_ID = '100000000000001';
+
+const fakes = () => ({
+  getPartnerConfig: vi.fn<GetPartnerConfigFn>(async () => ({
+    partner_id: 'partner',
+    meta_app_id: '987654321',
+    meta_partner_config_id: 'config',
+  })),
+  createUploadSession: vi.fn<CreateUploadSessionFn>(async () => ({ id: 'upload:MTphdHRhY2htZW50' })),
+  uploadFileData: vi.fn<UploadFileDataFn>(async () => ({ h: '4::aW1hZ2UvanBlZw==:ARb' })),
+});
+
+const configured = (api = fakes()) => {
+  const service = new FileUploadService();
+  service.configure(api);
+  return { service, api };
+};
+
+const file = (name: string, size = 4, type = '') => new File([new Uint8Array(size).fill(7)], name, { type });
+
+describe('FileUploadService', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { hostname: 'localhost' } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('uploadFile', () => {
+    it('runs the three upload steps with the injected functions', async () => {
+      const { service, api } = configured();
+
+      const result = await service.uploadFile(file('banner.jpg', 4, 'application/octet-stream'), WABA_ID);
+
+      expect(result).toEqual({ success: true, fileId: '4::aW1hZ2UvanBlZw==:ARb' });
+      expect(api.getPartnerConfig).toHaveBeenCalledWith('app.sendzen.io');
+      expect(api.createUploadSession).toHaveBeenCalledWith({
+        appId: '987654321',
+        fileName: 'banner.jpg',
+        fileType: 'image/jpeg',
+        fileLength: 4,
+        wabaId: WABA_ID,
+      });
+      const upload = api.uploadFileData.mock.calls[0]![0];
+      expect(upload).toMatchObject({ wabaId: WABA_ID, uploadSession: 'upload:MTphdHRhY2htZW50', fileOffset: 0 });
+      expect(Array.from(new Uint8Array(upload.fileData))).toEqual([7, 7, 7, 7]);
+    });
+
+    it('falls back to file_id when the upload returns no handle', async () => {
+      const api = fakes();
+      api.uploadFileData.mockResolvedValue({ file_id: 'file-42' });
+      const { service } = configured(api);
+
+      expect(await service.uploadFile(file('terms.pdf'), WABA_ID)).toEqual({ success: true, fileId: 'file-42' });
+    });
+
+    it('asks for the app ID once and reuses it', async () => {
+      const { service, api } = configured();
+
+      await service.uploadFile(file('one.png'), WABA_ID);
+      await service.uploadFile(file('two.mp4'), WABA_ID);
+
+      expect(api.getPartnerConfig).toHaveBeenCalledTimes(1);
+      expect(api.createUploadSession).toHaveBeenCalledTimes(2);
+      expect(api.createUploadSession.mock.calls[1]![0].fileType).toBe('video/mp4');
+    });
+
+    it('refuses to upload before configure() is called', async () => {
+      const service = new FileUploadService();
+
+      expect(service.isConfigured()).toBe(false);
+      expect(await service.uploadFile(file('banner.jpg'), WABA_ID)).toEqual({
+        success: false,
+        error: 'File upload service not configured. Please ensure the service is properly initialized.',
+      });
+    });
+
+    it('needs a WABA ID', async () => {
+      const { service, api } = configured();
+
+      const result = await service.uploadFile(file('banner.jpg'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/WABA functionality is not available/);
+      expect(api.createUploadSession).not.toHaveBeenCalled();
+    });
+
+    it('rejects unsupported file types before calling the API', async () => {
+      const { service, api } = configured();
+
+      expect(await service.uploadFile(file('logo.gif'), WABA_ID)).toEqual({
+        success: false,
+        error: 'Invalid file type. Allowed types: pdf, jpeg, jpg, png, mp4',
+      });
+      expect(api.getPartnerConfig).not.toHaveBeenCalled();
+    });
+
+    it('reports a partner config without app ID', async () => {
+      const api = fakes();
+      api.getPartnerConfig.mockResolvedValue({ partner_id: 'partner', meta_app_id: '', meta_partner_config_id: 'config' });
+      const { service } = configured(api);
+
+      expect(await service.uploadFile(file('banner.jpg'), WABA_ID)).toEqual({
+        success: false,
+        error: 'Failed to get app ID: No app ID found in partner config',
+      });
+    });
+
+    it('reports a session response without ID', async () => {
+      const api = fakes();
+      api.createUploadSession.mockResolvedValue({ id: '' });
+      const { service } = configured(api);
+
+      expect(await service.uploadFile(file('banner.jpg'), WABA_ID)).toEqual({
+        success: false,
+        error: 'No upload session ID found in response',
+      });
+      expect(api.uploadFileData).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['error.detail', '{"error":{"detail":"File is too large"}}', 'File is too large'],
+      ['error.message', 'Request failed: {"error":{"message":"Invalid OAuth access token"}}', 'Invalid OAuth access token'],
+      ['detail', '{"detail":"Session expired"}', 'Session expired'],
+      ['message', '{"message":"Unsupported file type"}', 'Unsupported file type'],
+      ['plain text', 'Network Error', 'Network Error'],
+    ])('extracts the %s of a failed session request', async (_, message, expected) => {
+      const api = fakes();
+      api.createUploadSession.mockRejectedValue(new Error(message));
+      const { service } = configured(api);
+
+      expect(await service.uploadFile(file('banner.jpg'), WABA_ID)).toEqual({ success: false, error: expected });
+    });
+
+    it('returns a failed result when sending the bytes fails', async () => {
+      const api = fakes();
+      api.uploadFileData.mockRejectedValue(new Error('{"error":{"message":"Upload session expired"}}'));
+      const { service } = configured(api);
+
+      expect(await service.uploadFile(file('banner.jpg'), WABA_ID)).toEqual({ success: false, error: 'Upload session expired' });
+    });
+  });
+
+  describe('validateFile', () => {
+    it.each([
+      ['photo.png', 5 * 1024 * 1024, true],
+      ['photo.PNG', 5 * 1024 * 1024 + 1, false],
+      ['clip.mp4', 16 * 1024 * 1024, true],
+      ['clip.mp4', 16 * 1024 * 1024 + 1, false],
+      ['terms.pdf', 100 * 1024 * 1024, true],
+      ['archive.zip', 1, false],
+      ['no_extension', 1, false],
+    ])('%s of %i bytes is valid: %s', (name, size, isValid) => {
+      const fakeFile = { name, size } as File;
+      expect(FileUploadService.validateFile(fakeFile).isValid).toBe(isValid);
+    });
+
+    it('names the size limit of the file type', () => {
+      expect(FileUploadService.validateFile({ name: 'photo.jpg', size: 6 * 1024 * 1024 } as File).error).toBe(
+        'File is too large. Maximum size for JPG files is 5MB'
+      );
+    });
+  });
+});
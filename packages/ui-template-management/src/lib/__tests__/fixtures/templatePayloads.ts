@@ -0,0 +1,590 @@
+/**
+ * Template Payload Fixtures
+ * Valid payloads for every template type, plus one broken payload per validator error code
+ */
+
+// #region Builders
+
+type Category = 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
+type Fixture = Record<string, unknown>;
+
+export const template = (category: Category | string, components: Fixture[], overrides: Fixture = {}): Fixture => ({
+  name: 'summer_sale',
+  language: 'en_US',
+  category,
+  components,
+  ...overrides,
+});
+
+export const textHeader = (overrides: Fixture = {}): Fixture => ({ type: 'HEADER', format: 'TEXT', text: 'Summer sale', ...overrides });
+export const mediaHeader = (format = 'IMAGE', overrides: Fixture = {}): Fixture => ({
+  type: 'HEADER',
+  format,
+  example: { header_handle: ['4::aW1hZ2UvanBlZw==:ARb'] },
+  ...overrides,
+});
+export const productHeader = (): Fixture => ({ type: 'HEADER', format: 'PRODUCT' });
+
+// Pass null as example for a body without one
+export const body = (text = 'Hi {{1}}, our summer sale starts today.', example: unknown = { body_text: [['Ana']] }): Fixture =>
+  example === null ? { type: 'BODY', text } : { type: 'BODY', text, example };
+export const footer = (text = 'Reply STOP to opt out'): Fixture => ({ type: 'FOOTER', text });
+export const buttons = (...items: Fixture[]): Fixture => ({ type: 'BUTTONS', buttons: items });
+
+export const urlButton = (overrides: Fixture = {}): Fixture => ({ type: 'URL', text: 'Shop now', url: 'https://example.com/shop', ...overrides });
+export const dynamicUrlButton = (overrides: Fixture = {}): Fixture =>
+  urlButton({ url: 'https://example.com/orders/{{1}}', example: ['A1234'], ...overrides });
+export const phoneButton = (overrides: Fixture = {}): Fixture => ({ type: 'PHONE_NUMBER', text: 'Call us', phone_number: '+15550100', ...overrides });
+export const quickReply = (text = 'Not now'): Fixture => ({ type: 'QUICK_REPLY', text });
+export const copyCodeButton = (example: unknown = 'SAVE20'): Fixture => ({ type: 'COPY_CODE', example });
+export const flowButton = (overrides: Fixture = {}): Fixture => ({
+  type: 'FLOW',
+  text: 'Book now',
+  flow_id: '1234567890',
+  flow_action: 'navigate',
+  navigate_screen: 'WELCOME',
+  ...overrides,
+});
+export const otpButton = (overrides: Fixture = {}): Fixture => ({ type: 'OTP', otp_type: 'copy_code', text: 'Copy code', ...overrides });
+export const supportedApp = (overrides: Fixture = {}): Fixture => ({ package_name: 'com.example.app', signature_hash: 'K8a/AINcGX7', ...overrides });
+
+export const card = (components: Fixture[]): Fixture => ({ components });
+export const mediaCard = (overrides: { header?: Fixture; body?: Fixture; buttons?: Fixture[] } = {}): Fixture => card([
+  overrides.header || mediaHeader(),
+  overrides.body || body('Linen shirt, now 20% off', null),
+  buttons(...(overrides.buttons || [quickReply('Interested'), urlButton({ text: 'Buy' })])),
+]);
+export const carousel = (cards: Fixture[]): Fixture => ({ type: 'CAROUSEL', cards });
+
+export const limitedTimeOffer = (offer: unknown = { text: 'Expiring offer!', has_expiration: true }): Fixture => ({
+  type: 'LIMITED_TIME_OFFER',
+  limited_time_offer: offer,
+});
+export const callPermissionRequest = (): Fixture => ({ type: 'CALL_PERMISSION_REQUEST' });
+
+// #endregion
+
+// #region Valid templates
+
+export const validTemplates: Record<string, Fixture> = {
+  marketing: template('MARKETING', [
+    textHeader(),
+    body(),
+    footer(),
+    buttons(urlButton(), phoneButton(), quickReply()),
+  ]),
+  marketingNamedParams: template('MARKETING', [
+    body('Hi {{first_name}}, your code is {{code}}', {
+      body_text_named_params: [
+        { param_name: 'first_name', example: 'Ana' },
+        { param_name: 'code', example: 'SAVE20' },
+      ],
+    }),
+  ], { parameter_format: 'named' }),
+  utility: template('UTILITY', [
+    textHeader({ text: 'Order {{1}}', example: { header_text: ['A1234'] } }),
+    body('Your order {{1}} has shipped.'),
+    buttons(dynamicUrlButton({ text: 'Track order' })),
+  ]),
+  authentication: template('AUTHENTICATION', [
+    { type: 'BODY', add_security_recommendation: true },
+    { type: 'FOOTER', code_expiration_minutes: 10 },
+    buttons(otpButton()),
+  ], { message_send_ttl_seconds: 600 }),
+  authenticationOneTap: template('AUTHENTICATION', [
+    { type: 'BODY', add_security_recommendation: true },
+    buttons(otpButton({ otp_type: 'one_tap', autofill_text: 'Autofill', supported_apps: [supportedApp()] })),
+  ]),
+  authenticationZeroTap: template('AUTHENTICATION', [
+    { type: 'BODY', add_security_recommendation: true },
+    buttons(otpButton({ otp_type: 'zero_tap', zero_tap_terms_accepted: true, supported_apps: [supportedApp()] })),
+  ]),
+  carousel: template('MARKETING', [
+    body(),
+    carousel([mediaCard(), mediaCard()]),
+  ]),
+  productCarousel: template('MARKETING', [
+    body(),
+    carousel([
+      card([productHeader(), buttons({ type: 'SPM', text: 'View' })]),
+      card([productHeader(), buttons({ type: 'SPM', text: 'View' })]),
+    ]),
+  ]),
+  limitedTimeOffer: template('MARKETING', [
+    mediaHeader(),
+    limitedTimeOffer(),
+    body(),
+    buttons(copyCodeButton(), urlButton()),
+  ]),
+  callPermission: template('UTILITY', [
+    body('We would like to call you about your order.', null),
+    callPermissionRequest(),
+  ]),
+  catalog: template('MARKETING', [
+    body(),
+    footer(),
+    buttons({ type: 'CATALOG', text: 'View catalog' }),
+  ]),
+  singleProduct: template('MARKETING', [
+    productHeader(),
+    body(),
+    buttons({ type: 'SPM', text: 'View' }),
+  ]),
+  multiProduct: template('MARKETING', [
+    textHeader({ text: 'Our picks' }),
+    body(),
+    buttons({ type: 'MPM', text: 'View items' }),
+  ]),
+  flow: template('MARKETING', [
+    body(),
+    buttons(flowButton()),
+  ]),
+  inlineFlow: template('UTILITY', [
+    body(),
+    buttons(flowButton({ flow_id: undefined, flow_json: '{"version":"6.0","screens":[]}', flow_action: 'data_exchange', navigate_screen: undefined })),
+  ]),
+};
+
+// #endregion
+
+// #region Invalid templates
+
+export interface ErrorCodeFixture {
+  code: string;
+  description: string;
+  payload: Fixture;
+  severity?: 'error' | 'warning';
+}
+
+const tooLong = (length: number) => 'a'.repeat(length + 1);
+
+export const errorCodeFixtures: ErrorCodeFixture[] = [
+  // Basic fields
+  { code: 'MISSING_NAME', description: 'blank name', payload: template('MARKETING', [body()], { name: '   ' }) },
+  { code: 'NAME_TOO_LONG', description: 'name over 512 characters', payload: template('MARKETING', [body()], { name: tooLong(512) }) },
+  { code: 'INVALID_NAME_CHARS', description: 'name with dashes', payload: template('MARKETING', [body()], { name: 'summer-sale' }) },
+  { code: 'INVALID_NAME_CHARS', description: 'name with uppercase letters', payload: template('MARKETING', [body()], { name: 'Summer_Sale' }) },
+  { code: 'MISSING_LANGUAGE', description: 'blank language', payload: template('MARKETING', [body()], { language: '' }) },
+  { code: 'UNSUPPORTED_LANGUAGE', description: 'unknown language code', payload: template('MARKETING', [body()], { language: 'xx_XX' }) },
+  { code: 'INVALID_CATEGORY', description: 'unknown category', payload: template('PROMOTIONAL', [body()]) },
+
+  // Authentication
+  {
+    code: 'AUTH_MISSING_BODY',
+    description: 'authentication template without body',
+    payload: template('AUTHENTICATION', [buttons(otpButton())]),
+  },
+  {
+    code: 'AUTH_MISSING_BUTTON',
+    description: 'authentication template without buttons',
+    payload: template('AUTHENTICATION', [{ type: 'BODY', add_security_recommendation: true }]),
+  },
+  {
+    code: 'AUTH_MULTIPLE_BUTTONS',
+    description: 'authentication template with two button components',
+    payload: template('AUTHENTICATION', [{ type: 'BODY', add_security_recommendation: true }, buttons(otpButton()), buttons(otpButton())]),
+  },
+  {
+    code: 'AUTH_NO_OTP_BUTTON',
+    description: 'authentication template with a quick reply instead of an OTP button',
+    payload: template('AUTHENTICATION', [{ type: 'BODY', add_security_recommendation: true }, buttons(quickReply())]),
+  },
+  {
+    code: 'AUTH_MULTIPLE_OTP_BUTTONS',
+    description: 'authentication template with two OTP buttons',
+    payload: template('AUTHENTICATION', [{ type: 'BODY', add_security_recommendation: true }, buttons(otpButton(), otpButton())]),
+  },
+  {
+    code: 'AUTH_HEADER_WARNING',
+    description: 'authentication template with a header',
+    severity: 'warning',
+    payload: template('AUTHENTICATION', [textHeader(), { type: 'BODY', add_security_recommendation: true }, buttons(otpButton())]),
+  },
+  {
+    code: 'OTP_MISSING_TYPE',
+    description: 'OTP button without otp_type',
+    payload: template('AUTHENTICATION', [{ type: 'BODY', add_security_recommendation: true }, buttons(otpButton({ otp_type: undefined }))]),
+  },
+  {
+    code: 'INVALID_OTP_TYPE',
+    description: 'unknown otp_type',
+    payload: template('AUTHENTICATION', [{ type: 'BODY', add_security_recommendation: true }, buttons(otpButton({ otp_type: 'two_tap' }))]),
+  },
+  {
+    code: 'OTP_MISSING_PACKAGE_NAME',
+    description: 'supported app without package name',
+    payload: template('AUTHENTICATION', [
+      { type: 'BODY', add_security_recommendation: true },
+      buttons(otpButton({ otp_type: 'one_tap', supported_apps: [supportedApp({ package_name: '' })] })),
+    ]),
+  },
+  {
+    code: 'OTP_INVALID_PACKAGE_NAME',
+    description: 'package name with a single segment',
+    payload: template('AUTHENTICATION', [
+      { type: 'BODY', add_security_recommendation: true },
+      buttons(otpButton({ otp_type: 'one_tap', supported_apps: [supportedApp({ package_name: 'example' })] })),
+    ]),
+  },
+  {
+    code: 'OTP_MISSING_SIGNATURE_HASH',
+    description: 'supported app without signature hash',
+    payload: template('AUTHENTICATION', [
+      { type: 'BODY', add_security_recommendation: true },
+      buttons(otpButton({ otp_type: 'one_tap', supported_apps: [supportedApp({ signature_hash: '' })] })),
+    ]),
+  },
+  {
+    code: 'OTP_INVALID_SIGNATURE_HASH',
+    description: 'signature hash shorter than 11 characters',
+    payload: template('AUTHENTICATION', [
+      { type: 'BODY', add_security_recommendation: true },
+      buttons(otpButton({ otp_type: 'one_tap', supported_apps: [supportedApp({ signature_hash: 'K8a/AIN' })] })),
+    ]),
+  },
+  {
+    code: 'ZERO_TAP_TERMS_NOT_ACCEPTED',
+    description: 'zero-tap button without accepted terms',
+    payload: template('AUTHENTICATION', [{ type: 'BODY', add_security_recommendation: true }, buttons(otpButton({ otp_type: 'zero_tap' }))]),
+  },
+
+  // Marketing and utility
+  { code: 'MARKETING_MISSING_BODY', description: 'marketing template without body', payload: template('MARKETING', [textHeader()]) },
+  {
+    code: 'MARKETING_TOO_MANY_BUTTONS',
+    description: 'marketing template with 11 buttons',
+    payload: template('MARKETING', [body(), buttons(...Array.from({ length: 11 }, (_, i) => quickReply(`Option ${i + 1}`)))]),
+  },
+  { code: 'UTILITY_MISSING_BODY', description: 'utility template without body', payload: template('UTILITY', [textHeader()]) },
+  {
+    code: 'UTILITY_TOO_MANY_BUTTONS',
+    description: 'utility template with 4 buttons',
+    payload: template('UTILITY', [body(), buttons(quickReply('Yes'), quickReply('No'), quickReply('Later'), quickReply('Stop'))]),
+  },
+
+  // Components
+  { code: 'MISSING_COMPONENTS', description: 'no components', payload: template('MARKETING', []) },
+  { code: 'INVALID_COMPONENT_TYPE', description: 'unknown component type', payload: template('MARKETING', [body(), { type: 'BANNER' }]) },
+
+  // Header
+  { code: 'HEADER_MISSING_FORMAT', description: 'header without format', payload: template('MARKETING', [{ type: 'HEADER', text: 'Sale' }, body()]) },
+  { code: 'INVALID_HEADER_FORMAT', description: 'unknown header format', payload: template('MARKETING', [{ type: 'HEADER', format: 'GIF' }, body()]) },
+  { code: 'HEADER_MISSING_TEXT', description: 'empty text header', payload: template('MARKETING', [textHeader({ text: ' ' }), body()]) },
+  { code: 'HEADER_TEXT_TOO_LONG', description: 'header over 60 characters', payload: template('MARKETING', [textHeader({ text: tooLong(60) }), body()]) },
+  {
+    code: 'HEADER_MISSING_VARIABLE_EXAMPLE',
+    description: 'header variable without example',
+    payload: template('MARKETING', [textHeader({ text: 'Order {{1}}' }), body()]),
+  },
+  {
+    code: 'HEADER_MISSING_MEDIA_EXAMPLE',
+    description: 'image header without handle',
+    payload: template('MARKETING', [mediaHeader('IMAGE', { example: { header_handle: [''] } }), body()]),
+  },
+
+  // Body
+  { code: 'BODY_MISSING_TEXT', description: 'empty body', payload: template('MARKETING', [body('', null)]) },
+  { code: 'BODY_TEXT_TOO_LONG', description: 'body over 1024 characters', payload: template('MARKETING', [body(tooLong(1024), null)]) },
+  {
+    code: 'BODY_MISSING_VARIABLE_EXAMPLES',
+    description: 'positional variables without examples',
+    payload: template('MARKETING', [body('Hi {{1}}', null)]),
+  },
+  {
+    code: 'BODY_INCOMPLETE_VARIABLE_EXAMPLES',
+    description: 'two positional variables with one example',
+    payload: template('MARKETING', [body('Hi {{1}}, your code is {{2}}', { body_text: [['Ana']] })]),
+  },
+  {
+    code: 'BODY_MISSING_NAMED_VARIABLE_EXAMPLES',
+    description: 'named variables without examples',
+    payload: template('MARKETING', [body('Hi {{first_name}}', null)]),
+  },
+  {
+    code: 'BODY_INCOMPLETE_NAMED_VARIABLE_EXAMPLES',
+    description: 'named variable missing from the examples',
+    payload: template('MARKETING', [body('Hi {{first_name}}, your code is {{code}}', {
+      body_text_named_params: [{ param_name: 'first_name', example: 'Ana' }],
+    })]),
+  },
+  {
+    code: 'BODY_EMPTY_NAMED_VARIABLE_EXAMPLES',
+    description: 'named variable with a blank example',
+    payload: template('MARKETING', [body('Hi {{first_name}}', {
+      body_text_named_params: [{ param_name: 'first_name', example: ' ' }],
+    })]),
+  },
+
+  // Footer
+  { code: 'FOOTER_MISSING_TEXT', description: 'empty footer', payload: template('MARKETING', [body(), { type: 'FOOTER', text: '' }]) },
+  { code: 'FOOTER_TEXT_TOO_LONG', description: 'footer over 60 characters', payload: template('MARKETING', [body(), footer(tooLong(60))]) },
+
+  // Buttons
+  { code: 'BUTTONS_MISSING_BUTTONS', description: 'empty buttons component', payload: template('MARKETING', [body(), buttons()]) },
+  { code: 'BUTTON_MISSING_TYPE', description: 'button without type', payload: template('MARKETING', [body(), buttons({ text: 'Go' })]) },
+  { code: 'INVALID_BUTTON_TYPE', description: 'unknown button type', payload: template('MARKETING', [body(), buttons({ type: 'VOICE_CALL', text: 'Call' })]) },
+  { code: 'BUTTON_MISSING_TEXT', description: 'quick reply without text', payload: template('MARKETING', [body(), buttons(quickReply(''))]) },
+  { code: 'BUTTON_TEXT_TOO_LONG', description: 'button text over 25 characters', payload: template('MARKETING', [body(), buttons(quickReply(tooLong(25)))]) },
+  {
+    code: 'DUPLICATE_BUTTON_TYPES',
+    description: 'two quick replies in one component',
+    payload: template('MARKETING', [body(), buttons(quickReply('Yes'), quickReply('No'))]),
+  },
+
+  // URL buttons
+  { code: 'URL_BUTTON_MISSING_URL', description: 'URL button without url', payload: template('MARKETING', [body(), buttons(urlButton({ url: '' }))]) },
+  {
+    code: 'URL_TOO_LONG',
+    description: 'URL over 2000 characters',
+    payload: template('MARKETING', [body(), buttons(urlButton({ url: `https://example.com/${tooLong(2000)}` }))]),
+  },
+  { code: 'URL_INVALID_FORMAT', description: 'static URL without scheme', payload: template('MARKETING', [body(), buttons(urlButton({ url: 'example.com/shop' }))]) },
+  {
+    code: 'URL_INVALID_DYNAMIC_FORMAT',
+    description: 'dynamic URL that is only a variable',
+    payload: template('MARKETING', [body(), buttons(dynamicUrlButton({ url: '{{1}}' }))]),
+  },
+  {
+    code: 'URL_INVALID_DYNAMIC_BASE',
+    description: 'dynamic URL base without scheme',
+    payload: template('MARKETING', [body(), buttons(dynamicUrlButton({ url: 'example.com/orders/{{1}}' }))]),
+  },
+  {
+    code: 'URL_MISSING_EXAMPLE_VALUE',
+    description: 'dynamic URL without example',
+    payload: template('MARKETING', [body(), buttons(dynamicUrlButton({ example: undefined }))]),
+  },
+  {
+    code: 'URL_INVALID_EXAMPLE_FORMAT',
+    description: 'dynamic URL example that is a full URL',
+    payload: template('MARKETING', [body(), buttons(dynamicUrlButton({ example: ['https://example.com/orders/A1234'] }))]),
+  },
+
+  // Phone number buttons
+  {
+    code: 'PHONE_BUTTON_MISSING_NUMBER',
+    description: 'phone button without number',
+    payload: template('MARKETING', [body(), buttons(phoneButton({ phone_number: '' }))]),
+  },
+  {
+    code: 'PHONE_NUMBER_TOO_LONG',
+    description: 'phone number over 20 characters',
+    payload: template('MARKETING', [body(), buttons(phoneButton({ phone_number: '+1555010012345678901234' }))]),
+  },
+
+  // Copy code buttons
+  { code: 'COPY_CODE_MISSING_EXAMPLE', description: 'copy code without offer code', payload: template('MARKETING', [body(), buttons(copyCodeButton(''))]) },
+  {
+    code: 'COPY_CODE_EXAMPLE_TOO_LONG',
+    description: 'offer code over 15 characters',
+    payload: template('MARKETING', [body(), buttons(copyCodeButton('SUMMERSALE2025XYZ'))]),
+  },
+  {
+    code: 'COPY_CODE_TOO_MANY',
+    description: 'two copy code buttons',
+    payload: template('MARKETING', [body(), buttons(copyCodeButton(), copyCodeButton('SAVE30'))]),
+  },
+
+  // Flow buttons
+  {
+    code: 'FLOW_BUTTON_MISSING_FLOW',
+    description: 'flow button without a Flow',
+    payload: template('MARKETING', [body(), buttons(flowButton({ flow_id: undefined }))]),
+  },
+  {
+    code: 'FLOW_BUTTON_MULTIPLE_SOURCES',
+    description: 'flow button with flow_id and flow_json',
+    payload: template('MARKETING', [body(), buttons(flowButton({ flow_json: '{}' }))]),
+  },
+  {
+    code: 'FLOW_INVALID_JSON',
+    description: 'flow_json that does not parse',
+    payload: template('MARKETING', [body(), buttons(flowButton({ flow_id: undefined, flow_json: '{"screens":' }))]),
+  },
+  {
+    code: 'FLOW_INVALID_ACTION',
+    description: 'unknown flow_action',
+    payload: template('MARKETING', [body(), buttons(flowButton({ flow_action: 'open' }))]),
+  },
+  {
+    code: 'FLOW_MISSING_NAVIGATE_SCREEN',
+    description: 'navigate flow without first screen',
+    payload: template('MARKETING', [body(), buttons(flowButton({ navigate_screen: '' }))]),
+  },
+  {
+    code: 'FLOW_TOO_MANY',
+    description: 'two flow buttons',
+    payload: template('MARKETING', [body(), buttons(flowButton(), flowButton({ text: 'Sign up' }))]),
+  },
+  {
+    code: 'URL_BUTTONS_TOO_MANY',
+    description: 'three URL buttons',
+    payload: template('MARKETING', [body(), buttons(urlButton(), urlButton({ text: 'Track' }), urlButton({ text: 'Help' }))]),
+  },
+  {
+    code: 'PHONE_BUTTONS_TOO_MANY',
+    description: 'two phone buttons',
+    payload: template('MARKETING', [body(), buttons(phoneButton(), phoneButton({ text: 'Call sales' }))]),
+  },
+  {
+    code: 'BUTTONS_NOT_GROUPED',
+    description: 'quick replies split by a URL button',
+    payload: template('MARKETING', [body(), buttons(quickReply('Yes'), urlButton(), quickReply('No'))]),
+  },
+
+  // Carousel
+  {
+    code: 'CAROUSEL_UNSUPPORTED_COMPONENT',
+    description: 'carousel template with a footer',
+    payload: template('MARKETING', [body(), footer(), carousel([mediaCard(), mediaCard()])]),
+  },
+  { code: 'CAROUSEL_MISSING_CARDS', description: 'carousel without cards', payload: template('MARKETING', [body(), carousel([])]) },
+  { code: 'CAROUSEL_TOO_FEW_CARDS', description: 'carousel with one card', payload: template('MARKETING', [body(), carousel([mediaCard()])]) },
+  {
+    code: 'CAROUSEL_TOO_MANY_CARDS',
+    description: 'carousel with 11 cards',
+    payload: template('MARKETING', [body(), carousel(Array.from({ length: 11 }, () => mediaCard()))]),
+  },
+  {
+    code: 'CAROUSEL_CARD_MISSING_HEADER',
+    description: 'card without header',
+    payload: template('MARKETING', [body(), carousel([mediaCard(), card([body('Linen shirt', null), buttons(quickReply('Interested'), urlButton({ text: 'Buy' }))])])]),
+  },
+  {
+    code: 'CAROUSEL_CARD_INVALID_HEADER_FORMAT',
+    description: 'card with a text header',
+    payload: template('MARKETING', [body(), carousel([mediaCard(), mediaCard({ header: textHeader() })])]),
+  },
+  {
+    code: 'CAROUSEL_CARD_MISSING_BODY',
+    description: 'media card without body',
+    payload: template('MARKETING', [body(), carousel([mediaCard(), card([mediaHeader(), buttons(quickReply('Interested'), urlButton({ text: 'Buy' }))])])]),
+  },
+  {
+    code: 'CAROUSEL_CARD_BODY_TOO_LONG',
+    description: 'card body over 160 characters',
+    payload: template('MARKETING', [body(), carousel([mediaCard(), mediaCard({ body: body(tooLong(160), null) })])]),
+  },
+  {
+    code: 'CAROUSEL_CARD_MISSING_BUTTONS',
+    description: 'card without buttons',
+    payload: template('MARKETING', [body(), carousel([mediaCard(), card([mediaHeader(), body('Linen shirt', null)])])]),
+  },
+  {
+    code: 'CAROUSEL_CARD_TOO_MANY_BUTTONS',
+    description: 'card with three buttons',
+    payload: template('MARKETING', [body(), carousel([mediaCard(), mediaCard({ buttons: [quickReply('Interested'), urlButton({ text: 'Buy' }), phoneButton()] })])]),
+  },
+  {
+    code: 'CAROUSEL_MIXED_HEADER_FORMATS',
+    description: 'image and video cards',
+    payload: template('MARKETING', [body(), carousel([mediaCard(), mediaCard({ header: mediaHeader('VIDEO') })])]),
+  },
+  {
+    code: 'CAROUSEL_BUTTONS_MISMATCH',
+    description: 'cards with buttons in a different order',
+    payload: template('MARKETING', [body(), carousel([mediaCard(), mediaCard({ buttons: [urlButton({ text: 'Buy' }), quickReply('Interested')] })])]),
+  },
+
+  // Limited-time offer
+  {
+    code: 'LTO_MISSING_TEXT',
+    description: 'offer without text',
+    payload: template('MARKETING', [mediaHeader(), limitedTimeOffer({ text: '' }), body(), buttons(copyCodeButton(), urlButton())]),
+  },
+  {
+    code: 'LTO_TEXT_TOO_LONG',
+    description: 'offer text over 16 characters',
+    payload: template('MARKETING', [mediaHeader(), limitedTimeOffer({ text: tooLong(16) }), body(), buttons(copyCodeButton(), urlButton())]),
+  },
+  {
+    code: 'LTO_INVALID_EXPIRATION',
+    description: 'has_expiration that is not a boolean',
+    payload: template('MARKETING', [mediaHeader(), limitedTimeOffer({ text: 'Expiring offer!', has_expiration: 'yes' }), body(), buttons(copyCodeButton(), urlButton())]),
+  },
+  {
+    code: 'LTO_INVALID_CATEGORY',
+    description: 'utility limited-time offer',
+    payload: template('UTILITY', [mediaHeader(), limitedTimeOffer(), body(), buttons(copyCodeButton(), urlButton())]),
+  },
+  {
+    code: 'LTO_FOOTER_NOT_ALLOWED',
+    description: 'limited-time offer with a footer',
+    payload: template('MARKETING', [mediaHeader(), limitedTimeOffer(), body(), footer(), buttons(copyCodeButton(), urlButton())]),
+  },
+  {
+    code: 'LTO_INVALID_HEADER_FORMAT',
+    description: 'limited-time offer with a text header',
+    payload: template('MARKETING', [textHeader(), limitedTimeOffer(), body(), buttons(copyCodeButton(), urlButton())]),
+  },
+  {
+    code: 'LTO_BODY_TOO_LONG',
+    description: 'limited-time offer body over 600 characters',
+    payload: template('MARKETING', [mediaHeader(), limitedTimeOffer(), body(tooLong(600), null), buttons(copyCodeButton(), urlButton())]),
+  },
+  {
+    code: 'LTO_MISSING_COPY_CODE_BUTTON',
+    description: 'limited-time offer without copy code button',
+    payload: template('MARKETING', [mediaHeader(), limitedTimeOffer(), body(), buttons(urlButton())]),
+  },
+  {
+    code: 'LTO_MISSING_URL_BUTTON',
+    description: 'limited-time offer without URL button',
+    payload: template('MARKETING', [mediaHeader(), limitedTimeOffer(), body(), buttons(copyCodeButton())]),
+  },
+
+  // Call permission request
+  {
+    code: 'CALL_PERMISSION_INVALID_CATEGORY',
+    description: 'authentication call permission request',
+    payload: template('AUTHENTICATION', [{ type: 'BODY', add_security_recommendation: true }, buttons(otpButton()), callPermissionRequest()]),
+  },
+  {
+    code: 'CALL_PERMISSION_DUPLICATE',
+    description: 'two call permission requests',
+    payload: template('UTILITY', [body(), callPermissionRequest(), callPermissionRequest()]),
+  },
+  {
+    code: 'CALL_PERMISSION_UNSUPPORTED_COMPONENT',
+    description: 'call permission request with a footer',
+    payload: template('UTILITY', [body(), footer(), callPermissionRequest()]),
+  },
+
+  // Catalog and product templates
+  {
+    code: 'COMMERCE_INVALID_CATEGORY',
+    description: 'utility catalog template',
+    payload: template('UTILITY', [body(), buttons({ type: 'CATALOG', text: 'View catalog' })]),
+  },
+  {
+    code: 'COMMERCE_TOO_MANY_BUTTONS',
+    description: 'catalog button next to a quick reply',
+    payload: template('MARKETING', [body(), buttons({ type: 'CATALOG', text: 'View catalog' }, quickReply())]),
+  },
+  {
+    code: 'CATALOG_HEADER_NOT_ALLOWED',
+    description: 'catalog template with a header',
+    payload: template('MARKETING', [textHeader(), body(), buttons({ type: 'CATALOG', text: 'View catalog' })]),
+  },
+  {
+    code: 'SPM_MISSING_PRODUCT_HEADER',
+    description: 'single-product template with an image header',
+    payload: template('MARKETING', [mediaHeader(), body(), buttons({ type: 'SPM', text: 'View' })]),
+  },
+  {
+    code: 'MPM_MISSING_TEXT_HEADER',
+    description: 'multi-product template without header',
+    payload: template('MARKETING', [body(), buttons({ type: 'MPM', text: 'View items' })]),
+  },
+];
+
+/**
+ * Codes the validator declares but cannot produce today, with the reason.
+ * The coverage test fails if one of them becomes reachable without a fixture.
+ */
+export const unreachableErrorCodes: Record<string, string> = {
+  NAME_TOO_SHORT: 'the minimum name length is 1 and blank names already fail with MISSING_NAME',
+  URL_INVALID_EXAMPLE_FULL: 'a base URL that passes URL_INVALID_DYNAMIC_BASE always forms a valid full URL',
+};
+
+// #endregion
@@ -0,0 +1,291 @@
+import { describe, expect, it, vi } from 'vitest';
+import { allowedUrlDomainsRule, bannedWordsRule, requiredFooterRule } from '../customValidationRules';
+import { metaTemplateRules } from '../metaTemplateRules';
+import { createValidationRuleSet, MetaTemplateValidator } from '../metaTemplateValidator';
+import { DEFAULT_VALIDATION_MESSAGES, interpolateValidationMessage } from '../validationMessages';
+import type { ValidationRuleSet } from '../validationRules';
+import type { CreateTemplatePayload } from '../../types/templateTypes';
+import { errorCodeFixtures, unreachableErrorCodes, validTemplates } from './fixtures/templatePayloads';
+
+const validate = (payload: unknown, ruleSet?: ValidationRuleSet) =>
+  MetaTemplateValidator.validateTemplate(payload as CreateTemplatePayload, ruleSet);
+
+const codes = (errors: { code: string }[]) => errors.map(error => error.code);
+
+// Every code of the built-in rules, so new rules can't ship without a fixture
+const declaredErrorCodes = (): string[] => metaTemplateRules.map(rule => rule.code).sort();
+
+describe('MetaTemplateValidator', () => {
+  describe('valid templates', () => {
+    it.each(Object.entries(validTemplates))('accepts the %s fixture', (_, payload) => {
+      const result = validate(payload);
+      expect(result.errors).toEqual([]);
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe('error codes', () => {
+    it.each(errorCodeFixtures.map(fixture => [fixture.code, fixture.description, fixture] as const))(
+      '%s: %s',
+      (code, _, fixture) => {
+        const result = validate(fixture.payload);
+        const reported = fixture.severity === 'warning' ? result.warnings : result.errors;
+        const issue = reported.find(error => error.code === code);
+
+        expect(issue, `expected ${code} in ${JSON.stringify(reported.map(error => error.code))}`).toBeDefined();
+        expect(issue!.severity).toBe(fixture.severity || 'error');
+        expect(issue!.message).not.toBe('');
+        if (issue!.userFacing && issue!.severity === 'error') {
+          expect(result.isValid).toBe(false);
+          expect(result.userErrors).toContainEqual(issue);
+        }
+      }
+    );
+
+    it('has a fixture for every code the validator declares', () => {
+      const fixtured = new Set(errorCodeFixtures.map(fixture => fixture.code));
+      const missing = declaredErrorCodes().filter(code => !fixtured.has(code) && !(code in unreachableErrorCodes));
+      expect(missing).toEqual([]);
+    });
+
+    it('registers one rule per code', () => {
+      expect(new Set(declaredErrorCodes()).size).toBe(metaTemplateRules.length);
+    });
+
+    it('only lists declared codes as unreachable', () => {
+      const declared = declaredErrorCodes();
+      Object.keys(unreachableErrorCodes).forEach(code => expect(declared).toContain(code));
+    });
+  });
+
+  describe('user-facing results', () => {
+    it('keeps technical errors out of userErrors without failing validation', () => {
+      const result = validate({ ...validTemplates.marketing, category: 'PROMOTIONAL' });
+      expect(result.errors.map(error => error.code)).toContain('INVALID_CATEGORY');
+      expect(result.userErrors.map(error => error.code)).not.toContain('INVALID_CATEGORY');
+    });
+
+    it('stays valid with user-facing warnings only', () => {
+      const fixture = errorCodeFixtures.find(f => f.code === 'AUTH_HEADER_WARNING')!;
+      const result = validate(fixture.payload);
+      expect(result.errors).toEqual([]);
+      expect(result.userWarnings.map(warning => warning.code)).toEqual(['AUTH_HEADER_WARNING']);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('formats user-facing messages for display', () => {
+      const fixture = errorCodeFixtures.find(f => f.code === 'MISSING_NAME')!;
+      expect(MetaTemplateValidator.formatValidationResult(validate(fixture.payload))).toBe(
+        'Please fix the following issues:\n❌ Template name is required'
+      );
+      expect(MetaTemplateValidator.formatValidationResult(validate(validTemplates.marketing))).toBe('Template validation passed!');
+    });
+  });
+
+  describe('field paths', () => {
+    const fieldOf = (code: string) => {
+      const fixture = errorCodeFixtures.find(f => f.code === code)!;
+      const result = validate(fixture.payload);
+      return [...result.errors, ...result.warnings].find(error => error.code === code)?.field;
+    };
+
+    it.each([
+      ['FOOTER_MISSING_TEXT', 'components.FOOTER.text'],
+      ['BODY_INCOMPLETE_VARIABLE_EXAMPLES', 'components.BODY.example.body_text[0][1]'],
+      ['OTP_MISSING_PACKAGE_NAME', 'components.BUTTONS.buttons[0].supported_apps[0].package_name'],
+      ['CAROUSEL_CARD_BODY_TOO_LONG', 'components.CAROUSEL.cards[1].components.BODY.text'],
+      ['LTO_MISSING_TEXT', 'components.LIMITED_TIME_OFFER.limited_time_offer.text'],
+      ['COPY_CODE_TOO_MANY', 'components.BUTTONS.buttons'],
+      ['MISSING_NAME', 'name'],
+    ])('reports %s at %s', (code, field) => {
+      expect(fieldOf(code)).toBe(field);
+    });
+
+    it('points button errors at the property of the exact button', () => {
+      const payload = {
+        ...validTemplates.marketing,
+        components: [
+          { type: 'BODY', text: 'Our summer sale starts today' },
+          { type: 'BUTTONS', buttons: [{ type: 'QUICK_REPLY', text: 'Stop' }, { type: 'URL', text: 'Shop', url: 'example.com' }] },
+        ],
+      };
+      expect(validate(payload).errors).toContainEqual(
+        expect.objectContaining({ code: 'URL_INVALID_FORMAT', field: 'components.BUTTONS.buttons[1].url' })
+      );
+    });
+  });
+
+  describe('rule sets', () => {
+    it('leaves out disabled rules', () => {
+      const fixture = errorCodeFixtures.find(f => f.code === 'AUTH_HEADER_WARNING')!;
+      const ruleSet = createValidationRuleSet({ disable: ['AUTH_HEADER_WARNING'] });
+      expect(validate(fixture.payload, ruleSet).warnings).toEqual([]);
+      expect(ruleSet.rules).toHaveLength(metaTemplateRules.length - 1);
+    });
+
+    it('reads limits from the rule set', () => {
+      const ruleSet = createValidationRuleSet({ limits: { body_text: { max: 20 } } });
+      const payload = {
+        ...validTemplates.utility,
+        components: [{ type: 'BODY', text: 'Your order has shipped and is on its way' }],
+      };
+
+      const error = validate(payload, ruleSet).errors.find(e => e.code === 'BODY_TEXT_TOO_LONG');
+      expect(error?.message).toBe('Body text must not exceed 20 characters');
+      expect(ruleSet.limits.body_text.min).toBe(1);
+      expect(codes(validate(payload).errors)).not.toContain('BODY_TEXT_TOO_LONG');
+    });
+
+    it('overrides severity and categories of a rule', () => {
+      const fixture = errorCodeFixtures.find(f => f.code === 'AUTH_HEADER_WARNING')!;
+      const strict = createValidationRuleSet({ overrides: { AUTH_HEADER_WARNING: { severity: 'error' } } });
+      expect(codes(validate(fixture.payload, strict).userErrors)).toEqual(['AUTH_HEADER_WARNING']);
+
+      const marketingOnly = createValidationRuleSet({ overrides: { AUTH_HEADER_WARNING: { categories: ['MARKETING'] } } });
+      expect(validate(fixture.payload, marketingOnly).warnings).toEqual([]);
+    });
+
+    it('runs custom rules and replaces built-in rules with the same code', () => {
+      const ruleSet = createValidationRuleSet({
+        rules: [
+          { code: 'MISSING_NAME', severity: 'warning', userFacing: true, validate: () => [] },
+          { code: 'NO_DRAFTS', severity: 'error', userFacing: true, validate: ({ payload }) =>
+            payload.name.startsWith('draft_') ? [{ field: 'name', message: 'Drafts cannot be submitted' }] : [] },
+        ],
+      });
+
+      expect(ruleSet.rules).toHaveLength(metaTemplateRules.length + 1);
+      expect(validate({ ...validTemplates.marketing, name: '' }, ruleSet).errors).toEqual(
+        expect.not.arrayContaining([expect.objectContaining({ code: 'MISSING_NAME' })])
+      );
+      expect(validate({ ...validTemplates.marketing, name: 'draft_sale' }, ruleSet).userErrors).toEqual([
+        { field: 'name', message: 'Drafts cannot be submitted', code: 'NO_DRAFTS', severity: 'error', userFacing: true },
+      ]);
+    });
+
+    it('layers rule sets on top of each other', () => {
+      const org = createValidationRuleSet({ disable: ['AUTH_HEADER_WARNING'] });
+      const team = createValidationRuleSet({ limits: { footer_text: { max: 10 } } }, org);
+      expect(team.rules.map(rule => rule.code)).not.toContain('AUTH_HEADER_WARNING');
+      expect(team.limits.footer_text.max).toBe(10);
+    });
+
+    it('skips a custom rule that throws', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const ruleSet = createValidationRuleSet({
+        rules: [{ code: 'BROKEN', severity: 'error', userFacing: true, validate: () => { throw new Error('boom'); } }],
+      });
+
+      expect(validate(validTemplates.marketing, ruleSet).isValid).toBe(true);
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('messages', () => {
+    const longBody = {
+      ...validTemplates.utility,
+      components: [{ type: 'BODY', text: 'x'.repeat(1025) }],
+    };
+
+    it('has an English message for every code', () => {
+      const missing = declaredErrorCodes().filter(code => !DEFAULT_VALIDATION_MESSAGES[code]);
+      expect(missing).toEqual([]);
+    });
+
+    it('translates messages and fills in their parameters', () => {
+      const error = validate(longBody).errors.find(e => e.code === 'BODY_TEXT_TOO_LONG')!;
+      expect(error.params).toEqual({ max: 1024 });
+      expect(MetaTemplateValidator.getErrorMessage(error, {
+        BODY_TEXT_TOO_LONG: 'El cuerpo no debe superar {max} caracteres',
+      })).toBe('El cuerpo no debe superar 1024 caracteres');
+    });
+
+    it('falls back to English for untranslated codes', () => {
+      const error = validate(longBody).errors.find(e => e.code === 'BODY_TEXT_TOO_LONG')!;
+      expect(MetaTemplateValidator.getErrorMessage(error, { MISSING_NAME: 'El nombre es obligatorio' }))
+        .toBe('Body text must not exceed 1024 characters');
+    });
+
+    it('prefers the message of the specific cause over the code', () => {
+      const fixture = errorCodeFixtures.find(f => f.code === 'OTP_INVALID_PACKAGE_NAME')!;
+      const error = validate(fixture.payload).errors.find(e => e.code === 'OTP_INVALID_PACKAGE_NAME')!;
+      expect(error.messageKey).toBe('OTP_INVALID_PACKAGE_NAME.TOO_FEW_SEGMENTS');
+      expect(MetaTemplateValidator.getErrorMessage(error, { OTP_INVALID_PACKAGE_NAME: 'App {app}: nombre de paquete no válido' }))
+        .toBe('App 1: nombre de paquete no válido');
+      expect(MetaTemplateValidator.getErrorMessage(error, {
+        OTP_INVALID_PACKAGE_NAME: 'App {app}: nombre de paquete no válido',
+        'OTP_INVALID_PACKAGE_NAME.TOO_FEW_SEGMENTS': 'App {app}: faltan segmentos',
+      })).toBe('App 1: faltan segmentos');
+    });
+
+    it('translates the summary of a result', () => {
+      const fixture = errorCodeFixtures.find(f => f.code === 'MISSING_NAME')!;
+      const spanish = {
+        'RESULT.PASSED': '¡La plantilla es válida!',
+        'RESULT.FIX_ISSUES': 'Corrige los siguientes problemas:',
+        MISSING_NAME: 'El nombre es obligatorio',
+      };
+      expect(MetaTemplateValidator.formatValidationResult(validate(fixture.payload), spanish)).toBe(
+        'Corrige los siguientes problemas:\n❌ El nombre es obligatorio'
+      );
+      expect(MetaTemplateValidator.formatValidationResult(validate(validTemplates.marketing), spanish)).toBe('¡La plantilla es válida!');
+    });
+
+    it('leaves template variables and unknown placeholders alone', () => {
+      expect(interpolateValidationMessage('Use {{1}} before {max} and {min}', { max: 3 })).toBe('Use {{1}} before 3 and {min}');
+    });
+  });
+
+  describe('house rules', () => {
+    it('finds banned words as whole words in any text', () => {
+      const ruleSet = createValidationRuleSet({ rules: [bannedWordsRule({ words: ['free', 'act now'] })] });
+      const payload = {
+        ...validTemplates.marketing,
+        components: [
+          { type: 'BODY', text: 'Get a FREE gift, freedom included' },
+          { type: 'BUTTONS', buttons: [{ type: 'QUICK_REPLY', text: 'Act now' }] },
+        ],
+      };
+
+      const errors = validate(payload, ruleSet).errors.filter(error => error.code === 'BANNED_WORD');
+      expect(errors).toEqual([
+        expect.objectContaining({ field: 'components.BODY.text', message: '"free" is not allowed in templates' }),
+        expect.objectContaining({ field: 'components.BUTTONS.buttons[0].text', message: '"act now" is not allowed in templates' }),
+      ]);
+    });
+
+    it('requires a footer on marketing templates', () => {
+      const ruleSet = createValidationRuleSet({ rules: [requiredFooterRule({ text: 'Reply STOP to opt out' })] });
+      const withFooter = (text: string) => ({
+        ...validTemplates.marketing,
+        components: [{ type: 'BODY', text: 'Our summer sale starts today' }, { type: 'FOOTER', text }],
+      });
+
+      expect(codes(validate(withFooter('Reply STOP to opt out'), ruleSet).errors)).not.toContain('FOOTER_REQUIRED');
+      expect(validate(withFooter('Thanks'), ruleSet).errors).toContainEqual(
+        expect.objectContaining({ code: 'FOOTER_REQUIRED', field: 'components.FOOTER.text' })
+      );
+      expect(codes(validate({ ...withFooter('Thanks'), components: [{ type: 'BODY', text: 'Hi' }] }, ruleSet).errors))
+        .toContain('FOOTER_REQUIRED');
+      expect(codes(validate(validTemplates.utility, ruleSet).errors)).not.toContain('FOOTER_REQUIRED');
+    });
+
+    it('only allows links to brand domains', () => {
+      const ruleSet = createValidationRuleSet({ rules: [allowedUrlDomainsRule({ domains: ['example.com'] })] });
+      const withUrl = (url: string, example?: string[]) => ({
+        ...validTemplates.marketing,
+        components: [
+          { type: 'BODY', text: 'Our summer sale starts today' },
+          { type: 'BUTTONS', buttons: [{ type: 'URL', text: 'Shop', url, ...(example ? { example } : {}) }] },
+        ],
+      });
+
+      expect(codes(validate(withUrl('https://shop.example.com/sale'), ruleSet).errors)).not.toContain('URL_DOMAIN_NOT_ALLOWED');
+      expect(codes(validate(withUrl('https://example.com/p/{{1}}', ['42']), ruleSet).errors)).not.toContain('URL_DOMAIN_NOT_ALLOWED');
+      expect(validate(withUrl('https://notexample.com/sale'), ruleSet).errors).toContainEqual(
+        expect.objectContaining({ code: 'URL_DOMAIN_NOT_ALLOWED', field: 'components.BUTTONS.buttons[0].url' })
+      );
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { MetaButtonsComponent, MetaTemplatePayload, PayloadTransformer } from '../payloadTransformer';
+import type { CreateTemplatePayload } from '../../types/templateTypes';
+import { validTemplates } from './fixtures/templatePayloads';
+
+// #region Arbitraries
+
+const text = (maxLength = 40) => fc.string({ minLength: 1, maxLength });
+
+// Meta drops empty and undefined fields, so generated payloads leave optional keys out instead of setting them
+const record = <T extends Record<string, unknown>>(model: { [K in keyof T]: fc.Arbitrary<T[K]> }, requiredKeys: (keyof T)[]) =>
+  fc.record(model, { requiredKeys: requiredKeys as never[] }) as unknown as fc.Arbitrary<T>;
+
+const supportedApp = fc.record({ package_name: text(), signature_hash: text(11) });
+
+const metaButton = fc.oneof(
+  record({ type: fc.constant('URL'), text: text(25), url: fc.webUrl(), example: text() }, ['type', 'text', 'url']),
+  record({ type: fc.constant('PHONE_NUMBER'), text: text(25), phone_number: fc.stringMatching(/^\+[1-9]\d{6,14}$/) }, ['type', 'text', 'phone_number']),
+  record({ type: fc.constant('QUICK_REPLY'), text: text(25) }, ['type', 'text']),
+  record({ type: fc.constant('COPY_CODE'), example: text(15) }, ['type', 'example']),
+  record({
+    type: fc.constant('FLOW'),
+    text: text(25),
+    flow_id: fc.stringMatching(/^[1-9]\d{5,15}$/),
+    flow_json: fc.json(),
+    flow_action: fc.constantFrom('navigate', 'data_exchange'),
+    navigate_screen: text(),
+  }, ['type', 'text']),
+  record({
+    type: fc.constant('OTP'),
+    text: text(25),
+    otp_type: fc.constantFrom('one_tap', 'zero_tap', 'copy_code'),
+    autofill_text: text(25),
+    zero_tap_terms_accepted: fc.boolean(),
+    supported_apps: fc.array(supportedApp, { maxLength: 3 }),
+  }, ['type', 'otp_type']),
+  record({ type: fc.constantFrom('CATALOG', 'SPM', 'MPM'), text: text(25) }, ['type']),
+);
+
+const textHeader = record({ type: fc.constant('HEADER'), format: fc.constant('TEXT'), text: text(60), example: fc.record({ header_text: fc.array(text(), { minLength: 1, maxLength: 1 }) }) }, ['type', 'format', 'text']);
+const mediaHeader = (formats: string[]) => record({ type: fc.constant('HEADER'), format: fc.constantFrom(...formats), example: fc.record({ header_handle: fc.array(text(), { minLength: 1, maxLength: 1 }) }) }, ['type', 'format']);
+const body = record({
+  type: fc.constant('BODY'),
+  text: text(1024),
+  example: fc.oneof(
+    fc.record({ body_text: fc.array(fc.array(text(), { minLength: 1, maxLength: 3 }), { minLength: 1, maxLength: 1 }) }),
+    fc.record({ body_text_named_params: fc.array(fc.record({ param_name: fc.stringMatching(/^[a-z_]{1,12}$/), example: text() }), { minLength: 1, maxLength: 3 }) }),
+  ),
+}, ['type', 'text']);
+const buttons = (button: fc.Arbitrary<unknown>, maxLength: number) => record({ type: fc.constant('BUTTONS'), buttons: fc.array(button, { minLength: 1, maxLength }) }, ['type', 'buttons']);
+
+const carouselCard = fc.oneof(
+  fc.record({ components: fc.tuple(mediaHeader(['IMAGE', 'VIDEO']), body, buttons(metaButton, 2)) }),
+  fc.record({ components: fc.tuple(record({ type: fc.constant('HEADER'), format: fc.constant('PRODUCT') }, ['type', 'format']), buttons(metaButton, 2)) }),
+);
+
+const metaComponent = fc.oneof(
+  textHeader,
+  mediaHeader(['IMAGE', 'VIDEO', 'DOCUMENT']),
+  record({ type: fc.constant('HEADER'), format: fc.constantFrom('LOCATION', 'PRODUCT') }, ['type', 'format']),
+  body,
+  record({ type: fc.constant('BODY'), add_security_recommendation: fc.boolean() }, ['type', 'add_security_recommendation']),
+  record({ type: fc.constant('FOOTER'), text: text(60) }, ['type', 'text']),
+  record({ type: fc.constant('FOOTER'), code_expiration_minutes: fc.integer({ min: 1, max: 90 }) }, ['type', 'code_expiration_minutes']),
+  buttons(metaButton, 4),
+  record({ type: fc.constant('LIMITED_TIME_OFFER'), limited_time_offer: record({ text: text(16), has_expiration: fc.boolean() }, ['text']) }, ['type', 'limited_time_offer']),
+  record({ type: fc.constant('CAROUSEL'), cards: fc.array(carouselCard, { minLength: 1, maxLength: 3 }) }, ['type', 'cards']),
+  record({ type: fc.constant('CALL_PERMISSION_REQUEST') }, ['type']),
+);
+
+const metaPayload = record<Record<string, unknown>>({
+  name: fc.stringMatching(/^[a-z][a-z0-9_]{0,40}$/),
+  language: fc.constantFrom('en_US', 'es', 'pt_BR', 'de'),
+  category: fc.constantFrom('MARKETING', 'UTILITY', 'AUTHENTICATION'),
+  parameter_format: fc.constantFrom('named', 'positional'),
+  message_send_ttl_seconds: fc.integer({ min: 1, max: 86400 }),
+  components: fc.array(metaComponent, { minLength: 1, maxLength: 6 }),
+}, ['name', 'language', 'category', 'components']) as unknown as fc.Arbitrary<MetaTemplatePayload>;
+
+// #endregion
+
+// Payloads saved by older versions, which lowercased types and formats when reading templates back
+const lowercaseTypes = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(lowercaseTypes);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+    key,
+    (key === 'type' || key === 'format') && typeof entry === 'string' ? entry.toLowerCase() : lowercaseTypes(entry),
+  ]));
+};
+
+describe('PayloadTransformer', () => {
+  it('round-trips Meta payloads through the internal format without loss', () => {
+    fc.assert(fc.property(metaPayload, (meta) => {
+      expect(PayloadTransformer.transformToMeta(PayloadTransformer.transformFromMeta(meta))).toEqual(meta);
+    }));
+  });
+
+  it('round-trips internal payloads through the Meta format without loss', () => {
+    fc.assert(fc.property(metaPayload, (meta) => {
+      const internal = PayloadTransformer.transformFromMeta(meta);
+      expect(PayloadTransformer.transformFromMeta(PayloadTransformer.transformToMeta(internal))).toEqual(internal);
+    }));
+  });
+
+  it("keeps Meta's casing and carousel cards when reading templates back", () => {
+    fc.assert(fc.property(metaPayload, (meta) => {
+      expect(PayloadTransformer.transformFromMeta(meta)).toEqual(meta);
+    }));
+  });
+
+  it('reads lowercase types and formats saved by older versions', () => {
+    fc.assert(fc.property(metaPayload, (meta) => {
+      const legacy = lowercaseTypes(meta) as CreateTemplatePayload;
+      expect(PayloadTransformer.transformToMeta(legacy)).toEqual(meta);
+      expect(PayloadTransformer.normalize(legacy)).toEqual(meta);
+    }));
+  });
+
+  it('drops blank optional fields', () => {
+    const meta = PayloadTransformer.transformToMeta({
+      name: 'book_visit',
+      language: 'en_US',
+      category: 'MARKETING',
+      parameter_format: '',
+      components: [
+        { type: 'BODY', text: 'Book your visit' },
+        { type: 'BUTTONS', buttons: [{ type: 'FLOW', text: 'Book now', flow_id: '', flow_json: '{}', flow_action: 'data_exchange', navigate_screen: '' }] },
+      ],
+    });
+    expect(meta).toEqual({
+      name: 'book_visit',
+      language: 'en_US',
+      category: 'MARKETING',
+      components: [
+        { type: 'BODY', text: 'Book your visit' },
+        { type: 'BUTTONS', buttons: [{ type: 'FLOW', text: 'Book now', flow_json: '{}', flow_action: 'data_exchange' }] },
+      ],
+    });
+  });
+
+  it('reads flow IDs and offer codes the way the Graph API returns them', () => {
+    const internal = PayloadTransformer.transformFromMeta({
+      id: '1',
+      name: 'book_visit',
+      language: 'en_US',
+      category: 'MARKETING',
+      status: 'APPROVED',
+      components: [{
+        type: 'BUTTONS',
+        buttons: [
+          { type: 'FLOW', text: 'Book now', flow_id: 1234567890, flow_action: 'navigate', navigate_screen: 'WELCOME' },
+          { type: 'COPY_CODE', text: 'Copy offer code', example: ['SAVE20'] },
+        ],
+      }],
+    });
+    expect((internal.components[0] as MetaButtonsComponent).buttons).toEqual([
+      { type: 'FLOW', text: 'Book now', flow_id: '1234567890', flow_action: 'navigate', navigate_screen: 'WELCOME' },
+      { type: 'COPY_CODE', example: 'SAVE20' },
+    ]);
+  });
+
+  it('passes component and button types it does not know through untouched', () => {
+    const payload = {
+      name: 'future',
+      language: 'en_US',
+      category: 'MARKETING',
+      components: [{ type: 'SOMETHING_NEW', value: 1 }, { type: 'BUTTONS', buttons: [{ type: 'VOICE_CALL', text: 'Call' }] }],
+    } as unknown as CreateTemplatePayload;
+    expect(PayloadTransformer.transformToMeta(payload)).toEqual(payload);
+  });
+
+  it.each(Object.entries(validTemplates))('keeps the %s fixture intact', (_, payload) => {
+    const expected = JSON.parse(JSON.stringify(payload));
+    expect(PayloadTransformer.transformToMeta(payload as unknown as CreateTemplatePayload)).toEqual(expected);
+    expect(PayloadTransformer.normalize(payload as unknown as CreateTemplatePayload)).toEqual(expected);
+  });
+});
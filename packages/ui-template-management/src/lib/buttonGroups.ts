@@ -0,0 +1,33 @@
+/**
+ * Button Groups
+ * Meta displays buttons in groups, QR → COPY_CODE → URL → CALL → FLOW, and rejects templates where the buttons of
+ * a group are not next to each other. Shared by the BUTTONS_NOT_GROUPED rule and the button editor.
+ */
+
+/**
+ * Position of a button's group in the order Meta displays them
+ */
+export function getButtonGroupOrder(type: string): number {
+  if (type === 'QUICK_REPLY') return 0;
+  if (type === 'COPY_CODE') return 1;
+  if (type === 'URL') return 2;
+  if (type === 'FLOW') return 4;
+  return 3; // PHONE_NUMBER
+}
+
+/**
+ * Check that buttons of the same group are contiguous.
+ * Valid: [QR, QR, URL, CALL]. Invalid: [QR, URL, QR] (interrupted QR group).
+ */
+export function hasGroupedButtons(buttons: { type?: string }[]): boolean {
+  const groups = buttons.map(b => getButtonGroupOrder(String(b.type).toUpperCase()));
+  const distinctGroups = groups.filter((group, i) => groups.indexOf(group) === i).length;
+  let transitions = 0;
+  for (let i = 1; i < groups.length; i++) {
+    if (groups[i] !== groups[i - 1]) {
+      transitions++;
+    }
+  }
+  // Each group can only be entered once, so properly grouped buttons have one transition less than groups
+  return transitions <= Math.max(distinctGroups - 1, 0);
+}
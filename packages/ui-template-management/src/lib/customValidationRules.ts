@@ -0,0 +1,127 @@
+/**
+ * Ready-made house rules
+ * Factories for rules organisations commonly add on top of Meta's, pass them to createValidationRuleSet.
+ * Each factory takes the code, severity and categories as options so the same rule can run twice with other settings.
+ * Messages are keyed by the default code, so translations of BANNED_WORD etc. apply whatever code a rule runs under.
+ */
+
+import { fieldPath } from './fieldPaths';
+import { componentField, isBlank, RuleViolation, TemplateCategory, ValidationContext, ValidationRule, ValidationSeverity, violation } from './validationRules';
+
+interface HouseRuleOptions {
+  code?: string;
+  severity?: ValidationSeverity;
+  categories?: TemplateCategory[];
+}
+
+// #region Helpers
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Every piece of text a recipient reads, with the path of the field it comes from
+ */
+const readableTexts = (context: ValidationContext): { field: string; text: string }[] => [
+  ...context.headers.filter(({ component }) => component.format === 'TEXT'),
+  ...context.bodies,
+  ...context.footers,
+].flatMap(({ field, component }) => (component.text ? [{ field: fieldPath(field, 'text'), text: component.text }] : []))
+  .concat(context.buttons.flatMap(({ field, button }) => (button.text ? [{ field: fieldPath(field, 'text'), text: button.text }] : [])))
+  .concat(context.components.flatMap((component) => {
+    const text = component?.type === 'LIMITED_TIME_OFFER' ? component.limited_time_offer?.text : undefined;
+    return text ? [{ field: fieldPath(componentField(component.type), 'limited_time_offer', 'text'), text }] : [];
+  }));
+
+const hostOf = (url: string): string | undefined => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+};
+
+// #endregion
+
+/**
+ * Reject words or phrases anywhere in the template text. Matching ignores case and only hits whole words.
+ */
+export function bannedWordsRule({
+  words,
+  code = 'BANNED_WORD',
+  severity = 'error',
+  categories,
+}: HouseRuleOptions & { words: string[] }): ValidationRule {
+  const patterns = words
+    .filter(word => !isBlank(word))
+    .map(word => ({ word, pattern: new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(word.trim())}(?=$|[^\\p{L}\\p{N}_])`, 'iu') }));
+
+  return {
+    code,
+    severity,
+    userFacing: true,
+    categories,
+    validate: (context) => readableTexts(context).flatMap(({ field, text }) =>
+      patterns
+        .filter(({ pattern }) => pattern.test(text))
+        .map(({ word }) => violation(field, { word }, 'BANNED_WORD'))
+    ),
+  };
+}
+
+/**
+ * Require a footer, optionally with a fixed text such as an opt-out notice. Defaults to MARKETING templates,
+ * authentication footers carry the code expiry instead of text.
+ */
+export function requiredFooterRule({
+  text,
+  code = 'FOOTER_REQUIRED',
+  severity = 'error',
+  categories = ['MARKETING'],
+}: HouseRuleOptions & { text?: string } = {}): ValidationRule {
+  return {
+    code,
+    severity,
+    userFacing: true,
+    categories,
+    validate: (context) => {
+      // Carousel, call permission and limited-time offer templates can't have a footer
+      if (context.components.some(component => ['CAROUSEL', 'CALL_PERMISSION_REQUEST', 'LIMITED_TIME_OFFER'].includes(component?.type))) {
+        return [];
+      }
+      const footer = context.footers[0];
+      if (!footer) {
+        return [text ? violation('components', { text }, 'FOOTER_REQUIRED.TEXT') : violation('components', undefined, 'FOOTER_REQUIRED')];
+      }
+      if (text && footer.component.text?.trim() !== text.trim()) {
+        return [violation(fieldPath(footer.field, 'text'), { text }, 'FOOTER_REQUIRED.MISMATCH')];
+      }
+      return [];
+    },
+  };
+}
+
+/**
+ * Only allow URL buttons that link to the given domains or their subdomains
+ */
+export function allowedUrlDomainsRule({
+  domains,
+  code = 'URL_DOMAIN_NOT_ALLOWED',
+  severity = 'error',
+  categories,
+}: HouseRuleOptions & { domains: string[] }): ValidationRule {
+  const allowed = domains.map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ''));
+
+  return {
+    code,
+    severity,
+    userFacing: true,
+    categories,
+    validate: (context) => context.buttons.flatMap(({ field, button }): RuleViolation[] => {
+      if (String(button.type).toUpperCase() !== 'URL' || isBlank(button.url)) return [];
+      // The host of a dynamic URL is in the part before {{1}}, malformed URLs are reported by Meta's rules
+      const host = hostOf(button.url!.replace(/\{\{\d+\}\}.*$/, ''));
+      if (!host || allowed.some(domain => host === domain || host.endsWith(`.${domain}`))) return [];
+      return [violation(fieldPath(field, 'url'), { domains: allowed.join(', ') }, 'URL_DOMAIN_NOT_ALLOWED')];
+    }),
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Field Path Utilities
+ * Validation errors and the template editor address fields with the same paths. A path follows the payload,
+ * with components addressed by type instead of position, e.g. components.BUTTONS.buttons[1].url or
+ * components.CAROUSEL.cards[0].components.BODY.text.
+ */
+
+export type FieldPath = string;
+
+export const FIELD_PATH_ATTRIBUTE = 'data-field-path';
+
+// #region Paths
+
+/**
+ * Join path segments, numbers become indexes: fieldPath('components', 'BUTTONS', 'buttons', 1) is components.BUTTONS.buttons[1]
+ */
+export function fieldPath(...segments: (string | number)[]): FieldPath {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return `${path}[${segment}]`;
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Path of the enclosing field, empty for top-level fields
+ */
+export function parentFieldPath(path: FieldPath): FieldPath {
+  const index = Math.max(path.lastIndexOf('.'), path.lastIndexOf('['));
+  return index > 0 ? path.slice(0, index) : '';
+}
+
+/**
+ * Whether a path is the given field or one of its nested fields
+ */
+export function isWithinFieldPath(path: FieldPath, ancestor: FieldPath): boolean {
+  return path === ancestor || path.startsWith(`${ancestor}.`) || path.startsWith(`${ancestor}[`);
+}
+
+/**
+ * First error reported on a field or one of its nested fields, for messages shown once per group of inputs
+ */
+export function findFieldError<T>(errors: Record<string, T> | undefined, path: FieldPath): T | undefined {
+  const key = Object.keys(errors || {}).find(errorPath => isWithinFieldPath(errorPath, path));
+  return key ? errors![key] : undefined;
+}
+
+// #endregion
+
+// #region DOM
+
+/**
+ * Props that tie an input to its path and mark it invalid while it has an error
+ */
+export function fieldPathProps(path: FieldPath, error?: unknown) {
+  return {
+    [FIELD_PATH_ATTRIBUTE]: path,
+    'aria-invalid': error ? true : undefined,
+  };
+}
+
+const findFieldElement = (path: FieldPath, root: ParentNode): HTMLElement | null => {
+  const elements = Array.from(root.querySelectorAll<HTMLElement>(`[${FIELD_PATH_ATTRIBUTE}]`));
+  const pathOf = (element: HTMLElement) => element.getAttribute(FIELD_PATH_ATTRIBUTE) || '';
+
+  // The field itself, else its first nested field (an error on a card jumps to the card's first input)
+  const match = elements.find(element => pathOf(element) === path)
+    || elements.find(element => isWithinFieldPath(pathOf(element), path));
+  if (match) return match;
+
+  // Else the closest enclosing field that is on screen
+  const parent = parentFieldPath(path);
+  return parent ? elements.find(element => pathOf(element) === parent) || findFieldElement(parent, root) : null;
+};
+
+const focusElement = (element: HTMLElement) => {
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  element.focus({ preventScroll: true });
+};
+
+/**
+ * Scroll to the input of a path and focus it. Falls back to nested or enclosing fields when the exact one isn't rendered.
+ * Returns false when nothing on the page matches.
+ */
+export function focusFieldPath(path: FieldPath, root: ParentNode = document): boolean {
+  const element = findFieldElement(path, root);
+  if (!element) return false;
+
+  focusElement(element);
+  return true;
+}
+
+/**
+ * Focus whichever of the paths comes first on the page, so the user starts at the top of the form
+ */
+export function focusFirstFieldPath(paths: FieldPath[], root: ParentNode = document): boolean {
+  const [first] = paths
+    .map(path => findFieldElement(path, root))
+    .filter((element): element is HTMLElement => !!element)
+    .sort((a, b) => (a === b ? 0 : a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+  if (!first) return false;
+
+  focusElement(first);
+  return true;
+}
+
+// #endregion
@@ -0,0 +1,1279 @@
+/**
+ * Meta WhatsApp Business API template rules
+ * The built-in rules of the template validator, one per error code, with the limits Meta enforces
+ */
+
+import { hasGroupedButtons } from './buttonGroups';
+import { fieldPath } from './fieldPaths';
+import { SUPPORTED_LANGUAGES } from './languages';
+import {
+  componentField,
+  isBlank,
+  LocatedButton,
+  LocatedComponent,
+  RuleButton,
+  RuleViolation,
+  ValidationContext,
+  ValidationLimits,
+  ValidationRule,
+  violation,
+} from './validationRules';
+
+export const DEFAULT_VALIDATION_LIMITS: ValidationLimits = {
+  template_name: { min: 1, max: 512 },
+  header_text: { min: 1, max: 60 },
+  body_text: { min: 1, max: 1024 },
+  footer_text: { min: 1, max: 60 },
+  button_text: { min: 1, max: 25 },
+  url: { min: 1, max: 2000 },
+  phone_number: { min: 1, max: 20 },
+  copy_code_example: { min: 1, max: 15 },
+  card_body_text: { min: 1, max: 160 },
+  offer_text: { min: 1, max: 16 },
+  offer_body_text: { min: 1, max: 600 },
+  carousel_cards: { min: 2, max: 10 },
+  carousel_card_buttons: { min: 1, max: 2 },
+  url_buttons: { min: 0, max: 2 },
+  phone_number_buttons: { min: 0, max: 1 },
+  marketing_buttons: { min: 0, max: 10 }, // Confirmed from Meta's official UI
+  utility_buttons: { min: 0, max: 3 },
+};
+
+// #region Helpers
+
+const LANGUAGE_CODES = SUPPORTED_LANGUAGES.map(language => language.code);
+const COMPONENT_TYPES = ['HEADER', 'BODY', 'FOOTER', 'BUTTONS', 'CAROUSEL', 'LIMITED_TIME_OFFER', 'CALL_PERMISSION_REQUEST'];
+const HEADER_FORMATS = ['TEXT', 'IMAGE', 'VIDEO', 'DOCUMENT', 'LOCATION', 'PRODUCT'];
+const BUTTON_TYPES = ['URL', 'PHONE_NUMBER', 'QUICK_REPLY', 'COPY_CODE', 'FLOW', 'OTP', 'CATALOG', 'SPM', 'MPM'];
+const OTP_TYPES = ['one_tap', 'zero_tap', 'copy_code'];
+const COMMERCE_BUTTON_TYPES = ['CATALOG', 'SPM', 'MPM'];
+
+const POSITIONAL_VARIABLE = /\{\{(\d+)\}\}/;
+
+const PACKAGE_NAME_MAX_LENGTH = 224;
+const SIGNATURE_HASH_LENGTH = 11;
+
+/**
+ * Run a check over a list of items and keep the violations it reports
+ */
+const collect = <T>(items: T[], check: (item: T) => RuleViolation | null | undefined | false): RuleViolation[] =>
+  items.map(check).filter((item): item is RuleViolation => !!item);
+
+const topLevel = (items: LocatedComponent[]) => items.filter(item => !item.inCard);
+
+const typeOf = (item: { type?: string }): string => String(item.type).toUpperCase();
+
+const ofType = (context: ValidationContext, type: string) => context.components.filter(component => component?.type === type);
+
+// Button types are compared uppercase, lowercase types from older payloads are still accepted
+const typedButtons = (context: ValidationContext, type: string) =>
+  context.buttons.filter(({ button }) => !!button.type && typeOf(button) === type);
+
+// Buttons shown with a label, OTP buttons are checked by the authentication rules and copy code buttons have predefined text
+const labelledButtons = (context: ValidationContext) =>
+  context.buttons.filter(({ button }) => !!button.type && !['OTP', 'COPY_CODE'].includes(typeOf(button)));
+
+// Authentication bodies only carry add_security_recommendation
+const textBodies = (context: ValidationContext) =>
+  context.bodies.filter(({ component }) => !('add_security_recommendation' in component && !('text' in component)));
+
+// Authentication footers carry code_expiration_minutes instead of text, which is optional per Meta API
+const textFooters = (context: ValidationContext) =>
+  context.footers.filter(({ component }) =>
+    context.category !== 'AUTHENTICATION' &&
+    !('code_expiration_minutes' in component && !Object.prototype.hasOwnProperty.call(component, 'text'))
+  );
+
+const textHeaders = (context: ValidationContext) =>
+  context.headers.filter(({ component }) => component.format === 'TEXT');
+
+/**
+ * The only OTP button of an authentication template, the OTP rules are skipped until there is exactly one
+ */
+const otpButton = (context: ValidationContext): LocatedButton | undefined => {
+  if (context.buttonComponents.length !== 1) return undefined;
+  const otpButtons = context.buttons.filter(({ button, inCard }) => !inCard && button.type === 'OTP');
+  return otpButtons.length === 1 ? otpButtons[0] : undefined;
+};
+
+// Supported apps of the OTP button with the path of each app
+const supportedApps = (context: ValidationContext) => {
+  const otp = otpButton(context);
+  if (!otp || !['one_tap', 'zero_tap'].includes(otp.button.otp_type || '')) return [];
+  return (otp.button.supported_apps || []).map((app, index) => ({ app, index, field: fieldPath(otp.field, 'supported_apps', index) }));
+};
+
+/**
+ * Validate package name format, returns the message key of the first problem
+ */
+const packageNameError = (packageName: string): string | undefined => {
+  if (packageName.length > PACKAGE_NAME_MAX_LENGTH) {
+    return 'OTP_INVALID_PACKAGE_NAME.TOO_LONG';
+  }
+  // Must be alphanumeric, underscore, or period
+  if (!/^[a-zA-Z0-9_.]+$/.test(packageName)) {
+    return 'OTP_INVALID_PACKAGE_NAME.INVALID_CHARACTERS';
+  }
+  // Must have at least two segments separated by a dot, each starting with a letter
+  const segments = packageName.split('.');
+  if (segments.length < 2) {
+    return 'OTP_INVALID_PACKAGE_NAME.TOO_FEW_SEGMENTS';
+  }
+  if (segments.some(s => !/^[a-zA-Z]/.test(s))) {
+    return 'OTP_INVALID_PACKAGE_NAME.SEGMENT_START';
+  }
+  return undefined;
+};
+
+/**
+ * Validate signature hash format, returns the message key of the first problem
+ */
+const signatureHashError = (signatureHash: string): string | undefined => {
+  if (signatureHash.length !== SIGNATURE_HASH_LENGTH) {
+    return 'OTP_INVALID_SIGNATURE_HASH.LENGTH';
+  }
+  // Must be base64 characters (A-Z, a-z, 0-9, +, /, =)
+  if (!/^[a-zA-Z0-9+/=]+$/.test(signatureHash)) {
+    return 'OTP_INVALID_SIGNATURE_HASH.INVALID_CHARACTERS';
+  }
+  return undefined;
+};
+
+/**
+ * Validate URL format, a simplified check for the http:// or https:// prefix
+ */
+const isValidUrl = (url: string): boolean => /^https?:\/\/.+/i.test(url);
+
+interface UrlButtonInfo extends LocatedButton {
+  url: string;
+  isDynamic: boolean;
+  baseUrl: string; // Everything before {{1}} without trailing slashes, empty for static URLs
+}
+
+/**
+ * URL buttons with a URL within the length limit, the ones the format rules look at
+ */
+const urlButtons = (context: ValidationContext): UrlButtonInfo[] =>
+  typedButtons(context, 'URL')
+    .filter(({ button }) => !isBlank(button.url) && button.url!.length <= context.limits.url.max)
+    .map((located) => {
+      const url = located.button.url!;
+      const isDynamic = POSITIONAL_VARIABLE.test(url);
+      const paramMatch = url.match(/(.+?)\{\{(\d+)\}\}/);
+      // If {{1}} is at the start there is no base URL
+      const baseUrl = isDynamic
+        ? (paramMatch && paramMatch[1] ? paramMatch[1] : url.replace(/\{\{(\d+)\}\}.*$/, '')).replace(/\/+$/, '')
+        : '';
+      return { ...located, url, isDynamic, baseUrl };
+    });
+
+// The example of a dynamic URL, undefined when missing
+const urlExample = (button: RuleButton): string | undefined => {
+  const example = button.example;
+  return example && example.length && example[0] && example[0].trim() ? example[0].trim() : undefined;
+};
+
+const flowSources = (button: RuleButton) => ({
+  hasFlowId: !isBlank(button.flow_id) && !!button.flow_id,
+  hasFlowJson: !isBlank(button.flow_json),
+});
+
+// The button type of a catalog, single-product or multi-product template, read from its first buttons component
+const commerceType = (context: ValidationContext): string | undefined => {
+  const button = (ofType(context, 'BUTTONS')[0]?.buttons || []).find(b => COMMERCE_BUTTON_TYPES.includes(typeOf(b)));
+  return button ? typeOf(button) : undefined;
+};
+
+const firstButtons = (context: ValidationContext): RuleButton[] => ofType(context, 'BUTTONS')[0]?.buttons || [];
+
+const offerComponents = (context: ValidationContext) =>
+  ofType(context, 'LIMITED_TIME_OFFER').map(component => ({ component, field: componentField(component.type) }));
+
+// Components of a limited-time offer template, empty when the template has no offer
+const offerTemplateComponents = (context: ValidationContext) =>
+  ofType(context, 'LIMITED_TIME_OFFER').length > 0
+    ? context.components.map(component => ({ component, field: componentField(component?.type) }))
+    : [];
+
+const carousels = (context: ValidationContext) =>
+  ofType(context, 'CAROUSEL').map(component => ({ cards: component.cards || [], field: componentField(component.type) }));
+
+// Where errors about the set of top-level buttons are reported
+const buttonsField = (context: ValidationContext): string => {
+  const component = topLevel(context.buttonComponents)[0];
+  return component ? fieldPath(component.field, 'buttons') : 'components';
+};
+
+const cardsOf = (context: ValidationContext, carouselField: string) =>
+  context.cards.filter(card => card.carouselField === carouselField);
+
+const countTopLevelButtons = (context: ValidationContext) => context.buttons.filter(button => !button.inCard).length;
+
+const namedVariables = (text: string): string[] =>
+  Array.from(new Set((text.match(/\{\{([A-Za-z_][\w]*)\}\}/g) || []).map(match => match.replace(/[{}]/g, ''))));
+
+const positionalVariableCount = (text: string): number => (text.match(/\{\{(\d+)\}\}/g) || []).length;
+
+// #endregion
+
+// #region Template
+
+const templateRules: ValidationRule[] = [
+  {
+    code: 'MISSING_NAME',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ payload }) => (isBlank(payload.name) ? [violation('name')] : []),
+  },
+  {
+    code: 'NAME_TOO_SHORT',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ payload, limits }) =>
+      !isBlank(payload.name) && payload.name.length < limits.template_name.min
+        ? [violation('name', { min: limits.template_name.min })]
+        : [],
+  },
+  {
+    code: 'NAME_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ payload, limits }) =>
+      !isBlank(payload.name) && payload.name.length > limits.template_name.max
+        ? [violation('name', { max: limits.template_name.max })]
+        : [],
+  },
+  {
+    code: 'INVALID_NAME_CHARS',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ payload }) =>
+      !isBlank(payload.name) && !/^[a-z0-9_]+$/.test(payload.name)
+        ? [violation('name')]
+        : [],
+  },
+  {
+    code: 'MISSING_LANGUAGE',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ payload }) => (isBlank(payload.language) ? [violation('language')] : []),
+  },
+  {
+    code: 'UNSUPPORTED_LANGUAGE',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ payload }) =>
+      !isBlank(payload.language) && !LANGUAGE_CODES.includes(payload.language)
+        ? [violation('language', { language: payload.language })]
+        : [],
+  },
+  {
+    code: 'INVALID_CATEGORY',
+    severity: 'error',
+    userFacing: false,
+    validate: ({ category }) =>
+      !['MARKETING', 'UTILITY', 'AUTHENTICATION'].includes(category)
+        ? [violation('category')]
+        : [],
+  },
+];
+
+// #endregion
+
+// #region Categories
+
+const authenticationRules: ValidationRule[] = [
+  {
+    code: 'AUTH_MISSING_BODY',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: ({ bodies }) =>
+      topLevel(bodies).length === 0 ? [violation('components')] : [],
+  },
+  {
+    code: 'AUTH_MISSING_BUTTON',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: ({ buttonComponents }) =>
+      buttonComponents.length === 0
+        ? [violation('components')]
+        : [],
+  },
+  {
+    code: 'AUTH_MULTIPLE_BUTTONS',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: ({ buttonComponents }) =>
+      buttonComponents.length > 1
+        ? [violation('components')]
+        : [],
+  },
+  {
+    code: 'AUTH_NO_OTP_BUTTON',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: ({ buttonComponents }) =>
+      buttonComponents.length === 1 && !(buttonComponents[0]!.component.buttons || []).some(b => b.type === 'OTP')
+        ? [violation(fieldPath(buttonComponents[0]!.field, 'buttons'))]
+        : [],
+  },
+  {
+    code: 'AUTH_MULTIPLE_OTP_BUTTONS',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: ({ buttonComponents }) =>
+      buttonComponents.length === 1 && (buttonComponents[0]!.component.buttons || []).filter(b => b.type === 'OTP').length > 1
+        ? [violation(fieldPath(buttonComponents[0]!.field, 'buttons'))]
+        : [],
+  },
+  {
+    code: 'OTP_MISSING_TYPE',
+    severity: 'error',
+    userFacing: false,
+    categories: ['AUTHENTICATION'],
+    validate: (context) => {
+      const otp = otpButton(context);
+      return otp && !otp.button.otp_type
+        ? [violation(fieldPath(otp.field, 'otp_type'))]
+        : [];
+    },
+  },
+  {
+    code: 'INVALID_OTP_TYPE',
+    severity: 'error',
+    userFacing: false,
+    categories: ['AUTHENTICATION'],
+    validate: (context) => {
+      const otp = otpButton(context);
+      return otp?.button.otp_type && !OTP_TYPES.includes(otp.button.otp_type)
+        ? [violation(fieldPath(otp.field, 'otp_type'), { types: OTP_TYPES.join(', ') })]
+        : [];
+    },
+  },
+  // Supported apps are optional for one_tap and zero_tap, but the ones listed must be valid
+  {
+    code: 'OTP_MISSING_PACKAGE_NAME',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: (context) =>
+      collect(supportedApps(context), ({ app, index, field }) =>
+        isBlank(app.package_name) && violation(fieldPath(field, 'package_name'), { app: index + 1 })
+      ),
+  },
+  {
+    code: 'OTP_INVALID_PACKAGE_NAME',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: (context) =>
+      collect(supportedApps(context), ({ app, index, field }) => {
+        const error = isBlank(app.package_name) ? undefined : packageNameError(app.package_name!);
+        if (!error) return undefined;
+        return violation(fieldPath(field, 'package_name'), { app: index + 1, max: PACKAGE_NAME_MAX_LENGTH }, error);
+      }),
+  },
+  {
+    code: 'OTP_MISSING_SIGNATURE_HASH',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: (context) =>
+      collect(supportedApps(context), ({ app, index, field }) =>
+        isBlank(app.signature_hash) && violation(fieldPath(field, 'signature_hash'), { app: index + 1 })
+      ),
+  },
+  {
+    code: 'OTP_INVALID_SIGNATURE_HASH',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: (context) =>
+      collect(supportedApps(context), ({ app, index, field }) => {
+        const error = isBlank(app.signature_hash) ? undefined : signatureHashError(app.signature_hash!);
+        if (!error) return undefined;
+        return violation(fieldPath(field, 'signature_hash'), { app: index + 1, length: SIGNATURE_HASH_LENGTH }, error);
+      }),
+  },
+  {
+    code: 'ZERO_TAP_TERMS_NOT_ACCEPTED',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: (context) => {
+      const otp = otpButton(context);
+      return otp?.button.otp_type === 'zero_tap' && otp.button.zero_tap_terms_accepted !== true
+        ? [violation(fieldPath(otp.field, 'zero_tap_terms_accepted'))]
+        : [];
+    },
+  },
+  {
+    code: 'AUTH_HEADER_WARNING',
+    severity: 'warning',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: ({ headers }) =>
+      topLevel(headers).length > 0
+        ? [violation(topLevel(headers)[0]!.field)]
+        : [],
+  },
+];
+
+const marketingRules: ValidationRule[] = [
+  {
+    code: 'MARKETING_MISSING_BODY',
+    severity: 'error',
+    userFacing: true,
+    categories: ['MARKETING'],
+    validate: ({ bodies }) =>
+      topLevel(bodies).length === 0 ? [violation('components')] : [],
+  },
+  {
+    code: 'MARKETING_TOO_MANY_BUTTONS',
+    severity: 'error',
+    userFacing: true,
+    categories: ['MARKETING'],
+    validate: (context) =>
+      countTopLevelButtons(context) > context.limits.marketing_buttons.max
+        ? [violation(buttonsField(context), { max: context.limits.marketing_buttons.max })]
+        : [],
+  },
+];
+
+const utilityRules: ValidationRule[] = [
+  {
+    code: 'UTILITY_MISSING_BODY',
+    severity: 'error',
+    userFacing: true,
+    categories: ['UTILITY'],
+    validate: ({ bodies }) =>
+      topLevel(bodies).length === 0 ? [violation('components')] : [],
+  },
+  {
+    code: 'UTILITY_TOO_MANY_BUTTONS',
+    severity: 'error',
+    userFacing: true,
+    categories: ['UTILITY'],
+    validate: (context) =>
+      countTopLevelButtons(context) > context.limits.utility_buttons.max
+        ? [violation(buttonsField(context), { max: context.limits.utility_buttons.max })]
+        : [],
+  },
+];
+
+// #endregion
+
+// #region Components
+
+const componentRules: ValidationRule[] = [
+  {
+    code: 'MISSING_COMPONENTS',
+    severity: 'error',
+    userFacing: false,
+    validate: ({ components }) =>
+      components.length === 0 ? [violation('components')] : [],
+  },
+  {
+    code: 'INVALID_COMPONENT_TYPE',
+    severity: 'error',
+    userFacing: false,
+    validate: ({ components }) =>
+      collect(components.map((component, index) => ({ component, index })), ({ component, index }) =>
+        !COMPONENT_TYPES.includes(component?.type) && violation(fieldPath('components', index, 'type'), { type: String(component?.type) })
+      ),
+  },
+  {
+    code: 'HEADER_MISSING_FORMAT',
+    severity: 'error',
+    userFacing: false,
+    validate: ({ headers }) =>
+      collect(headers, ({ field, component }) => !component.format && violation(fieldPath(field, 'format'))),
+  },
+  {
+    code: 'INVALID_HEADER_FORMAT',
+    severity: 'error',
+    userFacing: false,
+    validate: ({ headers }) =>
+      collect(headers, ({ field, component }) =>
+        !!component.format && !HEADER_FORMATS.includes(component.format) && violation(fieldPath(field, 'format'), { format: component.format! })
+      ),
+  },
+  {
+    code: 'HEADER_MISSING_TEXT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textHeaders(context), ({ field, component }) => isBlank(component.text) && violation(fieldPath(field, 'text'))),
+  },
+  {
+    code: 'HEADER_TEXT_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textHeaders(context), ({ field, component }) =>
+        !isBlank(component.text) && component.text!.length > context.limits.header_text.max &&
+        violation(fieldPath(field, 'text'), { max: context.limits.header_text.max })
+      ),
+  },
+  {
+    // Headers can only have one variable, {{1}}
+    code: 'HEADER_MISSING_VARIABLE_EXAMPLE',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textHeaders(context), ({ field, component }) =>
+        !isBlank(component.text) && component.text!.length <= context.limits.header_text.max &&
+        POSITIONAL_VARIABLE.test(component.text!) && isBlank(component.example?.header_text?.[0]) &&
+        violation(fieldPath(field, 'example', 'header_text', 0))
+      ),
+  },
+  {
+    code: 'HEADER_MISSING_MEDIA_EXAMPLE',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ headers }) =>
+      collect(headers, ({ field, component }) =>
+        ['IMAGE', 'VIDEO', 'DOCUMENT'].includes(component.format || '') && isBlank(component.example?.header_handle?.[0]) &&
+        violation(fieldPath(field, 'example', 'header_handle', 0), { format: component.format! })
+      ),
+  },
+  {
+    code: 'BODY_MISSING_TEXT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textBodies(context), ({ field, component }) => isBlank(component.text) && violation(fieldPath(field, 'text'))),
+  },
+  {
+    code: 'BODY_TEXT_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textBodies(context), ({ field, component }) =>
+        !isBlank(component.text) && component.text!.length > context.limits.body_text.max &&
+        violation(fieldPath(field, 'text'), { max: context.limits.body_text.max })
+      ),
+  },
+  {
+    code: 'BODY_MISSING_VARIABLE_EXAMPLES',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textBodies(context), ({ field, component }) =>
+        !!component.text && positionalVariableCount(component.text) > 0 && !component.example?.body_text?.[0] &&
+        violation(fieldPath(field, 'example', 'body_text', 0, 0))
+      ),
+  },
+  {
+    code: 'BODY_INCOMPLETE_VARIABLE_EXAMPLES',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textBodies(context), ({ field, component }) => {
+        const examples = component.example?.body_text?.[0];
+        if (!component.text || !examples) return undefined;
+        const requiredCount = positionalVariableCount(component.text);
+        const providedCount = examples.filter(example => !isBlank(example)).length;
+        // Points at the first variable without an example
+        const missingIndex = Array.from({ length: requiredCount }, (_, index) => index).find(index => isBlank(examples[index])) ?? 0;
+        return providedCount < requiredCount && violation(
+          fieldPath(field, 'example', 'body_text', 0, missingIndex),
+          { required: requiredCount, provided: providedCount }
+        );
+      }),
+  },
+  {
+    code: 'BODY_MISSING_NAMED_VARIABLE_EXAMPLES',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textBodies(context), ({ field, component }) =>
+        !!component.text && namedVariables(component.text).length > 0 && !component.example?.body_text_named_params &&
+        violation(fieldPath(field, 'example', 'body_text_named_params'))
+      ),
+  },
+  {
+    code: 'BODY_INCOMPLETE_NAMED_VARIABLE_EXAMPLES',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textBodies(context), ({ field, component }) => {
+        const params = component.example?.body_text_named_params;
+        if (!component.text || !params) return undefined;
+        const providedNames = params.map(param => param.param_name);
+        const missingNames = namedVariables(component.text).filter(name => !providedNames.includes(name));
+        return missingNames.length > 0 && violation(
+          fieldPath(field, 'example', 'body_text_named_params'),
+          { variables: missingNames.map(n => `{{${n}}}`).join(', ') }
+        );
+      }),
+  },
+  {
+    code: 'BODY_EMPTY_NAMED_VARIABLE_EXAMPLES',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textBodies(context), ({ field, component }) => {
+        const params = component.example?.body_text_named_params;
+        if (!component.text || !params) return undefined;
+        const variableNames = namedVariables(component.text);
+        const providedNames = params.map(param => param.param_name);
+        // Missing names are reported first, empty examples once every variable has one
+        if (variableNames.length === 0 || variableNames.some(name => !providedNames.includes(name))) return undefined;
+        const emptyExamples = params.filter(param => isBlank(param.example));
+        return emptyExamples.length > 0 && violation(
+          fieldPath(field, 'example', 'body_text_named_params', params.indexOf(emptyExamples[0]!), 'example'),
+          { variables: emptyExamples.map(p => `{{${p.param_name}}}`).join(', ') }
+        );
+      }),
+  },
+  {
+    code: 'FOOTER_MISSING_TEXT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textFooters(context), ({ field, component }) => isBlank(component.text) && violation(fieldPath(field, 'text'))),
+  },
+  {
+    code: 'FOOTER_TEXT_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(textFooters(context), ({ field, component }) =>
+        !isBlank(component.text) && component.text!.length > context.limits.footer_text.max &&
+        violation(fieldPath(field, 'text'), { max: context.limits.footer_text.max })
+      ),
+  },
+  {
+    code: 'BUTTONS_MISSING_BUTTONS',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ buttonComponents }) =>
+      collect(buttonComponents, ({ field, component }) =>
+        (!component.buttons || component.buttons.length === 0) && violation(fieldPath(field, 'buttons'))
+      ),
+  },
+];
+
+// #endregion
+
+// #region Buttons
+
+const buttonRules: ValidationRule[] = [
+  {
+    code: 'BUTTON_MISSING_TYPE',
+    severity: 'error',
+    userFacing: false,
+    validate: ({ buttons }) => collect(buttons, ({ field, button }) => !button.type && violation(fieldPath(field, 'type'))),
+  },
+  {
+    code: 'INVALID_BUTTON_TYPE',
+    severity: 'error',
+    userFacing: false,
+    validate: ({ buttons }) =>
+      collect(buttons, ({ field, button }) =>
+        !!button.type && !BUTTON_TYPES.includes(typeOf(button)) && violation(fieldPath(field, 'type'), { type: button.type! })
+      ),
+  },
+  {
+    code: 'BUTTON_MISSING_TEXT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(labelledButtons(context), ({ field, button }) => isBlank(button.text) && violation(fieldPath(field, 'text'))),
+  },
+  {
+    code: 'BUTTON_TEXT_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(labelledButtons(context), ({ field, button }) =>
+        !isBlank(button.text) && button.text!.length > context.limits.button_text.max &&
+        violation(fieldPath(field, 'text'), { max: context.limits.button_text.max })
+      ),
+  },
+  {
+    code: 'URL_BUTTON_MISSING_URL',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'URL'), ({ field, button }) => isBlank(button.url) && violation(fieldPath(field, 'url'))),
+  },
+  {
+    code: 'URL_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'URL'), ({ field, button }) =>
+        !isBlank(button.url) && button.url!.length > context.limits.url.max &&
+        violation(fieldPath(field, 'url'), { max: context.limits.url.max })
+      ),
+  },
+  {
+    code: 'URL_INVALID_FORMAT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(urlButtons(context), ({ field, url, isDynamic }) => {
+        return !isDynamic && !isValidUrl(url) && violation(fieldPath(field, 'url'));
+      }),
+  },
+  {
+    code: 'URL_INVALID_DYNAMIC_FORMAT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(urlButtons(context), ({ field, isDynamic, baseUrl }) =>
+        isDynamic && baseUrl.trim().length === 0 &&
+        violation(fieldPath(field, 'url'))
+      ),
+  },
+  {
+    code: 'URL_INVALID_DYNAMIC_BASE',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(urlButtons(context), ({ field, isDynamic, baseUrl }) => {
+        if (!isDynamic || baseUrl.trim().length === 0) return undefined;
+        if (!baseUrl.startsWith('http://') && !baseUrl.startsWith('https://')) {
+          return violation(fieldPath(field, 'url'));
+        }
+        return !isValidUrl(baseUrl) && violation(fieldPath(field, 'url'), undefined, 'URL_INVALID_DYNAMIC_BASE.INCOMPLETE');
+      }),
+  },
+  {
+    // Dynamic URLs need an example value for {{1}}
+    code: 'URL_MISSING_EXAMPLE_VALUE',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(urlButtons(context), ({ field, button, isDynamic }) =>
+        isDynamic && !urlExample(button) &&
+        violation(fieldPath(field, 'example', 0))
+      ),
+  },
+  {
+    // The example should be just the parameter value, not a URL
+    code: 'URL_INVALID_EXAMPLE_FORMAT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(urlButtons(context), ({ field, button, isDynamic }) => {
+        const example = isDynamic ? urlExample(button) : undefined;
+        return !!example && (example.startsWith('http://') || example.startsWith('https://')) && violation(fieldPath(field, 'example', 0));
+      }),
+  },
+  {
+    code: 'URL_INVALID_EXAMPLE_FULL',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(urlButtons(context), ({ field, button, isDynamic, baseUrl }) => {
+        const example = isDynamic ? urlExample(button) : undefined;
+        if (!example || example.startsWith('http://') || example.startsWith('https://') || !baseUrl.startsWith('http')) {
+          return undefined;
+        }
+        return !isValidUrl(baseUrl + (baseUrl.endsWith('/') ? '' : '/') + example) && violation(fieldPath(field, 'example', 0));
+      }),
+  },
+  {
+    code: 'PHONE_BUTTON_MISSING_NUMBER',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'PHONE_NUMBER'), ({ field, button }) =>
+        isBlank(button.phone_number) && violation(fieldPath(field, 'phone_number'))
+      ),
+  },
+  {
+    code: 'PHONE_NUMBER_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'PHONE_NUMBER'), ({ field, button }) =>
+        !isBlank(button.phone_number) && button.phone_number!.length > context.limits.phone_number.max &&
+        violation(fieldPath(field, 'phone_number'), { max: context.limits.phone_number.max })
+      ),
+  },
+  {
+    code: 'COPY_CODE_MISSING_EXAMPLE',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'COPY_CODE'), ({ field, button }) =>
+        (!button.example || isBlank(button.example)) && violation(fieldPath(field, 'example'))
+      ),
+  },
+  {
+    code: 'COPY_CODE_EXAMPLE_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'COPY_CODE'), ({ field, button }) =>
+        !!button.example && !isBlank(button.example) && String(button.example).length > context.limits.copy_code_example.max &&
+        violation(fieldPath(field, 'example'), { max: context.limits.copy_code_example.max })
+      ),
+  },
+  // Flow buttons need one Flow source, a known action and the first screen for navigate
+  {
+    code: 'FLOW_BUTTON_MISSING_FLOW',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'FLOW'), ({ field, button }) => {
+        const { hasFlowId, hasFlowJson } = flowSources(button);
+        // An empty flow_json means the button is set up for a Flow JSON
+        const source = button.flow_json !== undefined ? 'flow_json' : 'flow_id';
+        return !hasFlowId && !hasFlowJson && violation(fieldPath(field, source));
+      }),
+  },
+  {
+    code: 'FLOW_BUTTON_MULTIPLE_SOURCES',
+    severity: 'error',
+    userFacing: false,
+    validate: (context) =>
+      collect(typedButtons(context, 'FLOW'), ({ field, button }) => {
+        const { hasFlowId, hasFlowJson } = flowSources(button);
+        return hasFlowId && hasFlowJson && violation(field);
+      }),
+  },
+  {
+    code: 'FLOW_INVALID_JSON',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'FLOW'), ({ field, button }) => {
+        const { hasFlowId, hasFlowJson } = flowSources(button);
+        if (hasFlowId || !hasFlowJson) return undefined;
+        try {
+          JSON.parse(button.flow_json!);
+          return undefined;
+        } catch {
+          return violation(fieldPath(field, 'flow_json'));
+        }
+      }),
+  },
+  {
+    code: 'FLOW_INVALID_ACTION',
+    severity: 'error',
+    userFacing: false,
+    validate: (context) =>
+      collect(typedButtons(context, 'FLOW'), ({ field, button }) =>
+        !['navigate', 'data_exchange'].includes(button.flow_action || 'navigate') &&
+        violation(fieldPath(field, 'flow_action'), { action: String(button.flow_action) })
+      ),
+  },
+  {
+    code: 'FLOW_MISSING_NAVIGATE_SCREEN',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(typedButtons(context, 'FLOW'), ({ field, button }) =>
+        (button.flow_action || 'navigate') === 'navigate' && isBlank(button.navigate_screen) &&
+        violation(fieldPath(field, 'navigate_screen'))
+      ),
+  },
+  {
+    code: 'DUPLICATE_BUTTON_TYPES',
+    severity: 'error',
+    userFacing: false,
+    validate: ({ buttonComponents }) =>
+      collect(buttonComponents, ({ field, component }) => {
+        const buttonTypes = (component.buttons || []).map(button => button.type);
+        return buttonTypes.length !== new Set(buttonTypes).size && violation(fieldPath(field, 'buttons'));
+      }),
+  },
+  {
+    code: 'COPY_CODE_TOO_MANY',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ buttonComponents }) =>
+      collect(buttonComponents, ({ field, component }) =>
+        (component.buttons || []).filter(button => button.type?.toUpperCase() === 'COPY_CODE').length > 1 &&
+        violation(fieldPath(field, 'buttons'))
+      ),
+  },
+  {
+    code: 'FLOW_TOO_MANY',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ buttonComponents }) =>
+      collect(buttonComponents, ({ field, component }) =>
+        (component.buttons || []).filter(button => button.type?.toUpperCase() === 'FLOW').length > 1 &&
+        violation(fieldPath(field, 'buttons'))
+      ),
+  },
+  {
+    code: 'URL_BUTTONS_TOO_MANY',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(context.buttonComponents, ({ field, component }) =>
+        (component.buttons || []).filter(button => button.type?.toUpperCase() === 'URL').length > context.limits.url_buttons.max &&
+        violation(fieldPath(field, 'buttons'), { max: context.limits.url_buttons.max })
+      ),
+  },
+  {
+    code: 'PHONE_BUTTONS_TOO_MANY',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(context.buttonComponents, ({ field, component }) =>
+        (component.buttons || []).filter(button => button.type?.toUpperCase() === 'PHONE_NUMBER').length > context.limits.phone_number_buttons.max &&
+        violation(fieldPath(field, 'buttons'), { max: context.limits.phone_number_buttons.max })
+      ),
+  },
+  {
+    // Buttons of the same type must be next to each other, see lib/buttonGroups
+    code: 'BUTTONS_NOT_GROUPED',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ buttonComponents }) =>
+      collect(buttonComponents, ({ field, component }) =>
+        !hasGroupedButtons(component.buttons || []) && violation(fieldPath(field, 'buttons'))
+      ),
+  },
+];
+
+// #endregion
+
+// #region Carousel
+
+const carouselRules: ValidationRule[] = [
+  {
+    code: 'CAROUSEL_MISSING_CARDS',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(carousels(context), ({ field, cards }) => cards.length === 0 && violation(fieldPath(field, 'cards'))),
+  },
+  {
+    code: 'CAROUSEL_TOO_FEW_CARDS',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(carousels(context), ({ field, cards }) =>
+        cards.length > 0 && cards.length < context.limits.carousel_cards.min &&
+        violation(fieldPath(field, 'cards'), { min: context.limits.carousel_cards.min })
+      ),
+  },
+  {
+    code: 'CAROUSEL_TOO_MANY_CARDS',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(carousels(context), ({ field, cards }) =>
+        cards.length > context.limits.carousel_cards.max &&
+        violation(fieldPath(field, 'cards'), { max: context.limits.carousel_cards.max })
+      ),
+  },
+  {
+    // Every card needs an image, video or product header
+    code: 'CAROUSEL_CARD_MISSING_HEADER',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ cards }) =>
+      collect(cards, ({ field, index, header }) => !header && violation(fieldPath(field, 'components', 'HEADER'), { card: index + 1 })),
+  },
+  {
+    code: 'CAROUSEL_CARD_INVALID_HEADER_FORMAT',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ cards }) =>
+      collect(cards, ({ field, index, header }) =>
+        !!header && !['IMAGE', 'VIDEO', 'PRODUCT'].includes(header.format || '') &&
+        violation(fieldPath(field, 'components', 'HEADER', 'format'), { card: index + 1 })
+      ),
+  },
+  {
+    // Media cards need body text, product cards may omit it
+    code: 'CAROUSEL_CARD_MISSING_BODY',
+    severity: 'error',
+    userFacing: true,
+    validate: ({ cards }) =>
+      collect(cards, ({ field, index, header, body }) =>
+        !body && header?.format !== 'PRODUCT' && violation(fieldPath(field, 'components', 'BODY', 'text'), { card: index + 1 })
+      ),
+  },
+  {
+    code: 'CAROUSEL_CARD_BODY_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(context.cards, ({ field, index, body }) =>
+        !!body?.text && body.text.length > context.limits.card_body_text.max &&
+        violation(fieldPath(field, 'components', 'BODY', 'text'), { card: index + 1, max: context.limits.card_body_text.max })
+      ),
+  },
+  {
+    code: 'CAROUSEL_CARD_MISSING_BUTTONS',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(context.cards, ({ field, index, buttons }) =>
+        buttons.length < context.limits.carousel_card_buttons.min &&
+        violation(fieldPath(field, 'components', 'BUTTONS', 'buttons'), { card: index + 1, min: context.limits.carousel_card_buttons.min })
+      ),
+  },
+  {
+    code: 'CAROUSEL_CARD_TOO_MANY_BUTTONS',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(context.cards, ({ field, index, buttons }) =>
+        buttons.length > context.limits.carousel_card_buttons.max &&
+        violation(fieldPath(field, 'components', 'BUTTONS', 'buttons'), { card: index + 1, max: context.limits.carousel_card_buttons.max })
+      ),
+  },
+  {
+    // All cards must look the same: one header format and the same buttons in the same order
+    code: 'CAROUSEL_MIXED_HEADER_FORMATS',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(carousels(context), ({ field }) => {
+        const formats = cardsOf(context, field)
+          .map(card => card.header?.format || '')
+          .filter(format => ['IMAGE', 'VIDEO', 'PRODUCT'].includes(format));
+        return new Set(formats).size > 1 && violation(fieldPath(field, 'cards'));
+      }),
+  },
+  {
+    code: 'CAROUSEL_BUTTONS_MISMATCH',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(carousels(context), ({ field }) => {
+        const layouts = cardsOf(context, field).map(card => card.buttons.map(typeOf).join(','));
+        return new Set(layouts).size > 1 &&
+          violation(fieldPath(field, 'cards'));
+      }),
+  },
+  {
+    // Carousel templates only allow a body next to the cards
+    code: 'CAROUSEL_UNSUPPORTED_COMPONENT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      ofType(context, 'CAROUSEL').length === 0 ? [] : collect(
+        context.components,
+        component => ['HEADER', 'FOOTER', 'BUTTONS'].includes(component?.type) && violation(
+          componentField(component.type),
+          { component: component.type.toLowerCase() }
+        )
+      ),
+  },
+];
+
+// #endregion
+
+// #region Limited-time offer
+
+const limitedTimeOfferRules: ValidationRule[] = [
+  {
+    code: 'LTO_MISSING_TEXT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(offerComponents(context), ({ field, component }) =>
+        isBlank(component.limited_time_offer?.text) && violation(fieldPath(field, 'limited_time_offer', 'text'))
+      ),
+  },
+  {
+    code: 'LTO_TEXT_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(offerComponents(context), ({ field, component }) => {
+        const text = component.limited_time_offer?.text;
+        return !isBlank(text) && text!.length > context.limits.offer_text.max &&
+          violation(fieldPath(field, 'limited_time_offer', 'text'), { max: context.limits.offer_text.max });
+      }),
+  },
+  {
+    code: 'LTO_INVALID_EXPIRATION',
+    severity: 'error',
+    userFacing: false,
+    validate: (context) =>
+      collect(offerComponents(context), ({ field, component }) => {
+        const offer = component.limited_time_offer;
+        return !!offer && offer.has_expiration !== undefined && typeof offer.has_expiration !== 'boolean' &&
+          violation(fieldPath(field, 'limited_time_offer', 'has_expiration'));
+      }),
+  },
+  {
+    code: 'LTO_INVALID_CATEGORY',
+    severity: 'error',
+    userFacing: true,
+    categories: ['UTILITY', 'AUTHENTICATION'],
+    validate: (context) =>
+      ofType(context, 'LIMITED_TIME_OFFER').length > 0
+        ? [violation('category')]
+        : [],
+  },
+  {
+    code: 'LTO_FOOTER_NOT_ALLOWED',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(offerTemplateComponents(context), ({ field, component }) =>
+        component?.type === 'FOOTER' && violation(field)
+      ),
+  },
+  {
+    code: 'LTO_INVALID_HEADER_FORMAT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(offerTemplateComponents(context), ({ field, component }) =>
+        component?.type === 'HEADER' && !['IMAGE', 'VIDEO'].includes(component.format || '') &&
+        violation(fieldPath(field, 'format'))
+      ),
+  },
+  {
+    code: 'LTO_BODY_TOO_LONG',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      collect(offerTemplateComponents(context), ({ field, component }) =>
+        component?.type === 'BODY' && !!component.text && component.text.length > context.limits.offer_body_text.max &&
+        violation(fieldPath(field, 'text'), { max: context.limits.offer_body_text.max })
+      ),
+  },
+  {
+    code: 'LTO_MISSING_COPY_CODE_BUTTON',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      ofType(context, 'LIMITED_TIME_OFFER').length > 0 && !firstButtons(context).some(button => typeOf(button) === 'COPY_CODE')
+        ? [violation(buttonsField(context))]
+        : [],
+  },
+  {
+    code: 'LTO_MISSING_URL_BUTTON',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      ofType(context, 'LIMITED_TIME_OFFER').length > 0 && !firstButtons(context).some(button => typeOf(button) === 'URL')
+        ? [violation(buttonsField(context))]
+        : [],
+  },
+];
+
+// #endregion
+
+// #region Call permission request
+
+const callPermissionRules: ValidationRule[] = [
+  {
+    code: 'CALL_PERMISSION_INVALID_CATEGORY',
+    severity: 'error',
+    userFacing: true,
+    categories: ['AUTHENTICATION'],
+    validate: (context) =>
+      ofType(context, 'CALL_PERMISSION_REQUEST').length > 0
+        ? [violation('category')]
+        : [],
+  },
+  {
+    code: 'CALL_PERMISSION_DUPLICATE',
+    severity: 'error',
+    userFacing: false,
+    validate: (context) =>
+      ofType(context, 'CALL_PERMISSION_REQUEST').length > 1
+        ? [violation(componentField('CALL_PERMISSION_REQUEST'))]
+        : [],
+  },
+  {
+    // Call permission request templates have a body and the permission request only
+    code: 'CALL_PERMISSION_UNSUPPORTED_COMPONENT',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      ofType(context, 'CALL_PERMISSION_REQUEST').length === 0 ? [] : collect(
+        context.components,
+        component => component?.type !== 'BODY' && component?.type !== 'CALL_PERMISSION_REQUEST' && violation(
+          componentField(component?.type),
+          { component: String(component?.type).toLowerCase() }
+        )
+      ),
+  },
+];
+
+// #endregion
+
+// #region Catalog and product
+
+const commerceRules: ValidationRule[] = [
+  {
+    code: 'COMMERCE_INVALID_CATEGORY',
+    severity: 'error',
+    userFacing: true,
+    categories: ['UTILITY', 'AUTHENTICATION'],
+    validate: (context) =>
+      commerceType(context)
+        ? [violation('category')]
+        : [],
+  },
+  {
+    code: 'COMMERCE_TOO_MANY_BUTTONS',
+    severity: 'error',
+    userFacing: false,
+    validate: (context) => {
+      const buttonType = commerceType(context);
+      return buttonType && firstButtons(context).length > 1
+        ? [violation(buttonsField(context), { type: buttonType })]
+        : [];
+    },
+  },
+  {
+    code: 'CATALOG_HEADER_NOT_ALLOWED',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      commerceType(context) === 'CATALOG' && ofType(context, 'HEADER').length > 0
+        ? [violation(componentField('HEADER'))]
+        : [],
+  },
+  {
+    code: 'SPM_MISSING_PRODUCT_HEADER',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      commerceType(context) === 'SPM' && ofType(context, 'HEADER')[0]?.format !== 'PRODUCT'
+        ? [violation(fieldPath(componentField('HEADER'), 'format'))]
+        : [],
+  },
+  {
+    code: 'MPM_MISSING_TEXT_HEADER',
+    severity: 'error',
+    userFacing: true,
+    validate: (context) =>
+      commerceType(context) === 'MPM' && ofType(context, 'HEADER')[0]?.format !== 'TEXT'
+        ? [violation(fieldPath(componentField('HEADER'), 'format'))]
+        : [],
+  },
+];
+
+// #endregion
+
+/**
+ * Meta's template rules in the order their errors are reported
+ */
+export const metaTemplateRules: ValidationRule[] = [
+  ...templateRules,
+  ...authenticationRules,
+  ...marketingRules,
+  ...utilityRules,
+  ...componentRules,
+  ...buttonRules,
+  ...carouselRules,
+  ...limitedTimeOfferRules,
+  ...callPermissionRules,
+  ...commerceRules,
+];
@@ -1,41 +1,67 @@
 /**
  * Payload Transformation Utility
- * Converts internal template format to Meta API format
+ * Converts internal template format to Meta API format and back
+ *
+ * Round-trip guarantee: both directions keep Meta's casing (HEADER, IMAGE, URL, ...), carry every known field and
+ * transform carousel cards component by component, so for any payload in the internal format
+ * `transformFromMeta(transformToMeta(payload))` deep-equals `payload`, and for any Meta payload
+ * `transformToMeta(transformFromMeta(meta))` deep-equals `meta`.
+ * The only values not carried over are blank optional fields (undefined, null or ''), which Meta treats as unset.
+ * Lowercase types and formats saved by older versions are read as their uppercase equivalents.
  */
 
-import { CreateTemplatePayload, TemplateComponent, AuthTemplateComponent } from '../types/templateTypes';
+import type {
+  AuthOtpButton,
+  CatalogButton,
+  CreateTemplatePayload,
+  FlowAction,
+  MPMButton,
+  MessageTemplate,
+  ResponseButton,
+  ResponseComponent,
+  ResponseFlowButton,
+  SPMButton,
+  TemplateButton,
+} from '../types/templateTypes';
+
+// #region Meta types
+
+export interface MetaUrlButton {
+  type: 'URL';
+  text: string;
+  url: string;
+  example?: string[];
+}
 
-export interface MetaTemplatePayload {
-  name: string;
-  language: string;
-  category: 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
-  parameter_format?: 'named' | 'positional';
-  message_send_ttl_seconds?: number;
-  components: MetaTemplateComponent[];
+export interface MetaPhoneNumberButton {
+  type: 'PHONE_NUMBER';
+  text: string;
+  phone_number: string;
 }
 
-export interface MetaTemplateComponent {
-  type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS' | 'CAROUSEL' | 'LIMITED_TIME_OFFER' | 'CALL_PERMISSION_REQUEST';
-  format?: 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION' | 'PRODUCT';
-  text?: string;
-  buttons?: MetaTemplateButton[];
-  example?: any;
-  add_security_recommendation?: boolean;
-  code_expiration_minutes?: number;
-  limited_time_offer?: {
-    text: string;
-    has_expiration?: boolean;
-  };
-  cards?: any[];
+export interface MetaQuickReplyButton {
+  type: 'QUICK_REPLY';
+  text: string;
+}
+
+export interface MetaCopyCodeButton {
+  type: 'COPY_CODE';
+  example: string;
+}
+
+export interface MetaFlowButton {
+  type: 'FLOW';
+  text: string;
+  flow_id?: string;
+  flow_json?: string;
+  flow_action?: FlowAction;
+  navigate_screen?: string;
 }
 
-export interface MetaTemplateButton {
-  type: 'URL' | 'PHONE_NUMBER' | 'QUICK_REPLY' | 'COPY_CODE' | 'OTP' | 'SPM' | 'MPM';
+export interface MetaOtpButton {
+  type: 'OTP';
+  otp_type: 'one_tap' | 'zero_tap' | 'copy_code';
   text?: string;
-  url?: string;
-  phone_number?: string;
-  example?: string;
-  otp_type?: 'one_tap' | 'zero_tap' | 'copy_code';
   autofill_text?: string;
   zero_tap_terms_accepted?: boolean;
   supported_apps?: {
@@ -44,29 +70,136 @@ export interface MetaTemplateButton {
   }[];
 }
 
+export interface MetaCommerceButton {
+  type: 'CATALOG' | 'SPM' | 'MPM';
+  text: string;
+}
+
+export type MetaTemplateButton =
+  | MetaUrlButton
+  | MetaPhoneNumberButton
+  | MetaQuickReplyButton
+  | MetaCopyCodeButton
+  | MetaFlowButton
+  | MetaOtpButton
+  | MetaCommerceButton;
+
+export interface MetaHeaderComponent {
+  type: 'HEADER';
+  format: 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION' | 'PRODUCT';
+  text?: string;
+  example?: {
+    header_text?: string[];
+    header_handle?: string[];
+  };
+}
+
+export interface MetaBodyComponent {
+  type: 'BODY';
+  text?: string; // Authentication bodies have no text, Meta writes it
+  add_security_recommendation?: boolean;
+  example?: {
+    body_text?: string[][];
+    body_text_named_params?: {
+      param_name: string;
+      example: string;
+    }[];
+  };
+}
+
+export interface MetaFooterComponent {
+  type: 'FOOTER';
+  text?: string; // Authentication footers have code_expiration_minutes instead
+  code_expiration_minutes?: number;
+}
+
+export interface MetaButtonsComponent {
+  type: 'BUTTONS';
+  buttons: MetaTemplateButton[];
+}
+
+export type MetaCarouselCardComponent = MetaHeaderComponent | MetaBodyComponent | MetaButtonsComponent;
+
+export interface MetaCarouselCard {
+  components: MetaCarouselCardComponent[];
+}
+
+export interface MetaCarouselComponent {
+  type: 'CAROUSEL';
+  cards: MetaCarouselCard[];
+}
+
+export interface MetaLimitedTimeOfferComponent {
+  type: 'LIMITED_TIME_OFFER';
+  limited_time_offer: {
+    text: string;
+    has_expiration?: boolean;
+  };
+}
+
+export interface MetaCallPermissionRequestComponent {
+  type: 'CALL_PERMISSION_REQUEST';
+}
+
+export type MetaTemplateComponent =
+  | MetaHeaderComponent
+  | MetaBodyComponent
+  | MetaFooterComponent
+  | MetaButtonsComponent
+  | MetaCarouselComponent
+  | MetaLimitedTimeOfferComponent
+  | MetaCallPermissionRequestComponent;
+
+export interface MetaTemplatePayload {
+  name: string;
+  language: string;
+  category: 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
+  parameter_format?: 'named' | 'positional';
+  message_send_ttl_seconds?: number;
+  components: MetaTemplateComponent[];
+}
+
+// #endregion
+
+// #region Internal types
+
+/** Any component of a create payload, whatever the template type */
+export type PayloadComponent = CreateTemplatePayload['components'][number];
+
+/** Any button of a create payload, whatever the template type */
+export type PayloadButton = TemplateButton | AuthOtpButton | CatalogButton | SPMButton | MPMButton;
+
+/** What transformFromMeta reads: a Meta payload, or a template as the Graph API returns it */
+export type MetaTemplateSource = MetaTemplatePayload | MessageTemplate;
+
+type SourceComponent = MetaTemplateComponent | ResponseComponent;
+type SourceButton = MetaTemplateButton | ResponseButton;
+
+// #endregion
+
+const isSet = <T>(value: T | null | undefined): value is T => value !== undefined && value !== null && (value as unknown) !== '';
+
+// Older versions read templates back with lowercase types and formats
+const toUpper = <T extends string>(value: string): T => value.toUpperCase() as T;
+
 export class PayloadTransformer {
   /**
    * Transform internal template payload to Meta API format
    */
   static transformToMeta(payload: CreateTemplatePayload): MetaTemplatePayload {
-    // Transform components first
-    const components = payload.components.map(component => 
-      this.transformComponent(component)
-    );
-
     const metaPayload: MetaTemplatePayload = {
       name: payload.name,
       language: payload.language,
       category: payload.category,
-      components,
+      components: (payload.components as PayloadComponent[]).map(component => this.transformComponent(component)),
     };
 
     // Add optional fields
-    if ('parameter_format' in payload && payload.parameter_format) {
-      metaPayload.parameter_format = payload.parameter_format as 'named' | 'positional';
+    if ('parameter_format' in payload && isSet(payload.parameter_format)) {
+      metaPayload.parameter_format = payload.parameter_format as MetaTemplatePayload['parameter_format'];
     }
 
-    if ('message_send_ttl_seconds' in payload && payload.message_send_ttl_seconds) {
+    if ('message_send_ttl_seconds' in payload && isSet(payload.message_send_ttl_seconds)) {
       metaPayload.message_send_ttl_seconds = payload.message_send_ttl_seconds;
     }
 
@@ -74,272 +207,257 @@ export class PayloadTransformer {
   }
 
   /**
-   * Transform individual component
-   */
-  private static transformComponent(component: any): MetaTemplateComponent {
-    const metaComponent: MetaTemplateComponent = {
-      type: component.type.toUpperCase() as any,
-    };
-
-    // Transform component-specific fields
-    switch (component.type.toLowerCase()) {
-      case 'header':
-        const headerComp = component as any;
-        if (headerComp.format) {
-          metaComponent.format = headerComp.format.toUpperCase() as any;
-        }
-        if (headerComp.text) {
-          metaComponent.text = headerComp.text;
-        }
-        if (headerComp.example) {
-          metaComponent.example = headerComp.example;
-        }
-        break;
-
-      case 'body':
-        const bodyComp = component as any;
-        if (bodyComp.text) {
-          metaComponent.text = bodyComp.text;
-        }
-        if (bodyComp.example) {
-          metaComponent.example = bodyComp.example;
-        }
-        if (bodyComp.add_security_recommendation !== undefined) {
-          metaComponent.add_security_recommendation = bodyComp.add_security_recommendation;
-        }
-        break;
-
-      case 'footer':
-        const footerComp = component as any;
-        if (footerComp.text) {
-          metaComponent.text = footerComp.text;
-        }
-        if (footerComp.code_expiration_minutes !== undefined) {
-          metaComponent.code_expiration_minutes = footerComp.code_expiration_minutes;
-        }
-        break;
-
-      case 'buttons':
-        const buttonsComp = component as any;
-        if (buttonsComp.buttons) {
-          metaComponent.buttons = buttonsComp.buttons.map((button: any) => 
-            this.transformButton(button)
-          );
-        }
-        break;
-
-      case 'limited_time_offer':
-        const ltoComp = component as any;
-        if (ltoComp.limited_time_offer) {
-          metaComponent.limited_time_offer = ltoComp.limited_time_offer;
-        }
-        break;
-
-      case 'carousel':
-        const carouselComp = component as any;
-        if (carouselComp.cards) {
-          metaComponent.cards = carouselComp.cards;
-        }
-        break;
-    }
-
-    return metaComponent;
-  }
-
-  /**
-   * Transform individual button
-   */
-  private static transformButton(button: any): MetaTemplateButton {
-    const metaButton: MetaTemplateButton = {
-      type: button.type.toUpperCase() as any,
-    };
-
-    // Transform button-specific fields
-    switch (button.type.toLowerCase()) {
-      case 'url':
-        if (button.text) metaButton.text = button.text;
-        if (button.url) metaButton.url = button.url;
-        if (button.example) metaButton.example = button.example;
-        break;
-
-      case 'phone_number':
-        if (button.text) metaButton.text = button.text;
-        if (button.phone_number) metaButton.phone_number = button.phone_number;
-        break;
-
-      case 'quick_reply':
-        if (button.text) metaButton.text = button.text;
-        break;
-
-      case 'copy_code':
-        if (button.example) metaButton.example = button.example;
-        break;
-
-      case 'otp':
-        if (button.text) metaButton.text = button.text;
-        if (button.otp_type) metaButton.otp_type = button.otp_type;
-        if (button.autofill_text) metaButton.autofill_text = button.autofill_text;
-        if (button.zero_tap_terms_accepted !== undefined) {
-          metaButton.zero_tap_terms_accepted = button.zero_tap_terms_accepted;
-        }
-        if (button.supported_apps) {
-          metaButton.supported_apps = button.supported_apps;
-        }
-        break;
-
-      case 'spm':
-      case 'mpm':
-        if (button.text) metaButton.text = button.text;
-        break;
-    }
-
-    return metaButton;
-  }
-
-  /**
-   * Transform Meta API response back to internal format
+   * Transform Meta API payload, or a template returned by the Graph API, back to internal format
    */
-  static transformFromMeta(metaPayload: any): CreateTemplatePayload {
-    const payload: any = {
+  static transformFromMeta(metaPayload: MetaTemplateSource): CreateTemplatePayload {
+    const payload: {
+      name: string;
+      language: string;
+      category: MetaTemplatePayload['category'];
+      parameter_format?: string;
+      message_send_ttl_seconds?: number;
+      components: PayloadComponent[];
+    } = {
       name: metaPayload.name,
       language: metaPayload.language,
       category: metaPayload.category,
+      components: ((metaPayload.components || []) as SourceComponent[]).map(component => this.transformComponentFromMeta(component)),
     };
 
     // Add optional fields
-    if (metaPayload.parameter_format) {
+    if (isSet(metaPayload.parameter_format)) {
       payload.parameter_format = metaPayload.parameter_format;
     }
 
-    if (metaPayload.message_send_ttl_seconds) {
+    if (isSet(metaPayload.message_send_ttl_seconds)) {
       payload.message_send_ttl_seconds = metaPayload.message_send_ttl_seconds;
     }
 
-    // Transform components back to internal format
-    payload.components = metaPayload.components.map((component: any) => 
-      this.transformComponentFromMeta(component)
-    );
+    return payload as CreateTemplatePayload;
+  }
 
-    return payload;
+  /**
+   * Rebuild a payload in the current internal format, e.g. one saved by an older version with lowercase types
+   */
+  static normalize(payload: CreateTemplatePayload): CreateTemplatePayload {
+    return this.transformFromMeta(this.transformToMeta(payload));
   }
 
   /**
-   * Transform Meta component back to internal format
+   * Transform individual component
    */
-  private static transformComponentFromMeta(metaComponent: any): TemplateComponent | AuthTemplateComponent {
-    const component: any = {
-      type: metaComponent.type.toLowerCase(),
-    };
+  private static transformComponent(component: PayloadComponent): MetaTemplateComponent {
+    const normalized = { ...component, type: toUpper<PayloadComponent['type']>(component.type) } as PayloadComponent;
 
-    // Transform component-specific fields
-    switch (metaComponent.type) {
+    switch (normalized.type) {
       case 'HEADER':
-        if (metaComponent.format) {
-          component.format = metaComponent.format.toLowerCase();
-        }
-        if (metaComponent.text) {
-          component.text = metaComponent.text;
-        }
-        if (metaComponent.example) {
-          component.example = metaComponent.example;
-        }
-        break;
-
       case 'BODY':
-        if (metaComponent.text) {
-          component.text = metaComponent.text;
-        }
-        if (metaComponent.example) {
-          component.example = metaComponent.example;
-        }
-        if (metaComponent.add_security_recommendation !== undefined) {
-          component.add_security_recommendation = metaComponent.add_security_recommendation;
-        }
-        break;
-
-      case 'FOOTER':
-        if (metaComponent.text) {
-          component.text = metaComponent.text;
-        }
-        if (metaComponent.code_expiration_minutes !== undefined) {
-          component.code_expiration_minutes = metaComponent.code_expiration_minutes;
-        }
-        break;
-
       case 'BUTTONS':
-        if (metaComponent.buttons) {
-          component.buttons = metaComponent.buttons.map((button: any) => 
-            this.transformButtonFromMeta(button)
-          );
-        }
-        break;
+        return this.transformCardComponent(normalized);
+
+      case 'FOOTER': {
+        const footer: MetaFooterComponent = normalized;
+        const metaFooter: MetaFooterComponent = { type: 'FOOTER' };
+        if (isSet(footer.text)) metaFooter.text = footer.text;
+        if (isSet(footer.code_expiration_minutes)) metaFooter.code_expiration_minutes = footer.code_expiration_minutes;
+        return metaFooter;
+      }
 
       case 'LIMITED_TIME_OFFER':
-        if (metaComponent.limited_time_offer) {
-          component.limited_time_offer = metaComponent.limited_time_offer;
-        }
-        break;
+        return { type: 'LIMITED_TIME_OFFER', limited_time_offer: this.copyOffer(normalized.limited_time_offer) };
 
       case 'CAROUSEL':
-        if (metaComponent.cards) {
-          component.cards = metaComponent.cards;
-        }
-        break;
+        return {
+          type: 'CAROUSEL',
+          cards: (normalized.cards || []).map(card => ({
+            components: (card.components as MetaCarouselCardComponent[]).map(cardComponent => this.transformCardComponent(cardComponent)),
+          })),
+        };
+
+      case 'CALL_PERMISSION_REQUEST':
+        // The component has no fields, its type alone asks the customer for call permission
+        return { type: 'CALL_PERMISSION_REQUEST' };
+
+      default:
+        // Component types added by Meta after this was written are passed through untouched
+        return normalized;
     }
+  }
 
-    return component;
+  /**
+   * Transform the components allowed both in a template and in a carousel card
+   */
+  private static transformCardComponent(component: MetaCarouselCardComponent): MetaCarouselCardComponent {
+    const type = toUpper<MetaCarouselCardComponent['type']>(component.type);
+
+    switch (type) {
+      case 'HEADER': {
+        const header = component as MetaHeaderComponent;
+        const metaHeader: MetaHeaderComponent = { type: 'HEADER', format: toUpper<MetaHeaderComponent['format']>(header.format) };
+        if (isSet(header.text)) metaHeader.text = header.text;
+        if (isSet(header.example)) metaHeader.example = header.example;
+        return metaHeader;
+      }
+
+      case 'BODY': {
+        const body = component as MetaBodyComponent;
+        const metaBody: MetaBodyComponent = { type: 'BODY' };
+        if (isSet(body.text)) metaBody.text = body.text;
+        if (isSet(body.example)) metaBody.example = body.example;
+        if (isSet(body.add_security_recommendation)) metaBody.add_security_recommendation = body.add_security_recommendation;
+        return metaBody;
+      }
+
+      case 'BUTTONS':
+        return {
+          type: 'BUTTONS',
+          buttons: ((component as MetaButtonsComponent).buttons || []).map(button => this.transformButton(button)),
+        };
+
+      default:
+        return component;
+    }
   }
 
   /**
-   * Transform Meta button back to internal format
+   * Transform individual button
    */
-  private static transformButtonFromMeta(metaButton: any): any {
-    const button: any = {
-      type: metaButton.type.toLowerCase(),
-    };
+  private static transformButton(button: PayloadButton | MetaTemplateButton): MetaTemplateButton {
+    const normalized = { ...button, type: toUpper<MetaTemplateButton['type']>(button.type) } as MetaTemplateButton;
 
-    // Transform button-specific fields
-    switch (metaButton.type) {
-      case 'URL':
-        if (metaButton.text) button.text = metaButton.text;
-        if (metaButton.url) button.url = metaButton.url;
-        if (metaButton.example) button.example = metaButton.example;
-        break;
+    switch (normalized.type) {
+      case 'URL': {
+        const metaButton: MetaUrlButton = { type: 'URL', text: normalized.text, url: normalized.url };
+        if (isSet(normalized.example)) metaButton.example = normalized.example;
+        return metaButton;
+      }
 
       case 'PHONE_NUMBER':
-        if (metaButton.text) button.text = metaButton.text;
-        if (metaButton.phone_number) button.phone_number = metaButton.phone_number;
-        break;
+        return { type: 'PHONE_NUMBER', text: normalized.text, phone_number: normalized.phone_number };
 
       case 'QUICK_REPLY':
-        if (metaButton.text) button.text = metaButton.text;
-        break;
+        return { type: 'QUICK_REPLY', text: normalized.text };
 
       case 'COPY_CODE':
-        if (metaButton.example) button.example = metaButton.example;
-        break;
+        return { type: 'COPY_CODE', example: normalized.example };
+
+      case 'FLOW':
+        return this.copyFlowButton(normalized);
 
       case 'OTP':
-        if (metaButton.text) button.text = metaButton.text;
-        if (metaButton.otp_type) button.otp_type = metaButton.otp_type;
-        if (metaButton.autofill_text) button.autofill_text = metaButton.autofill_text;
-        if (metaButton.zero_tap_terms_accepted !== undefined) {
-          button.zero_tap_terms_accepted = metaButton.zero_tap_terms_accepted;
-        }
-        if (metaButton.supported_apps) {
-          button.supported_apps = metaButton.supported_apps;
-        }
-        break;
+        return this.copyOtpButton(normalized);
 
+      case 'CATALOG':
       case 'SPM':
       case 'MPM':
-        if (metaButton.text) button.text = metaButton.text;
-        break;
+        return { type: normalized.type, text: normalized.text };
+
+      default:
+        // Button types added by Meta after this was written are passed through untouched
+        return normalized;
+    }
+  }
+
+  /**
+   * Transform Meta component back to internal format
+   */
+  private static transformComponentFromMeta(metaComponent: SourceComponent): PayloadComponent {
+    const type = toUpper<SourceComponent['type']>(metaComponent.type);
+
+    switch (type) {
+      case 'HEADER':
+      case 'BODY':
+      case 'BUTTONS':
+        return this.transformCardComponentFromMeta(metaComponent as MetaCarouselCardComponent) as PayloadComponent;
+
+      case 'FOOTER': {
+        const footer = metaComponent as MetaFooterComponent;
+        const component: MetaFooterComponent = { type: 'FOOTER' };
+        if (isSet(footer.text)) component.text = footer.text;
+        if (isSet(footer.code_expiration_minutes)) component.code_expiration_minutes = footer.code_expiration_minutes;
+        return component as PayloadComponent;
+      }
+
+      case 'LIMITED_TIME_OFFER':
+        return {
+          type: 'LIMITED_TIME_OFFER',
+          limited_time_offer: this.copyOffer((metaComponent as MetaLimitedTimeOfferComponent).limited_time_offer),
+        };
+
+      case 'CAROUSEL':
+        return {
+          type: 'CAROUSEL',
+          cards: ((metaComponent as MetaCarouselComponent).cards || []).map(card => ({
+            components: (card.components || []).map(cardComponent => this.transformCardComponentFromMeta(cardComponent)),
+          })),
+        } as PayloadComponent;
+
+      case 'CALL_PERMISSION_REQUEST':
+        return { type: 'CALL_PERMISSION_REQUEST' };
+
+      default:
+        return metaComponent as PayloadComponent;
     }
+  }
 
-    return button;
+  /**
+   * Transform Meta header, body or buttons component back to internal format
+   */
+  private static transformCardComponentFromMeta(metaComponent: MetaCarouselCardComponent): MetaCarouselCardComponent {
+    if (toUpper(metaComponent.type) === 'BUTTONS') {
+      return {
+        type: 'BUTTONS',
+        buttons: ((metaComponent as MetaButtonsComponent).buttons as SourceButton[] || []).map(button => this.transformButtonFromMeta(button)),
+      };
+    }
+    // Headers and bodies have the same shape in both formats
+    return this.transformCardComponent(metaComponent);
+  }
+
+  /**
+   * Transform Meta button back to internal format
+   */
+  private static transformButtonFromMeta(metaButton: SourceButton): MetaTemplateButton {
+    const type = toUpper<SourceButton['type']>(metaButton.type);
+
+    if (type === 'FLOW') {
+      const flow = metaButton as MetaFlowButton | ResponseFlowButton;
+      // Meta returns flow_id as a number on existing templates
+      return this.copyFlowButton({ ...flow, type: 'FLOW', flow_id: isSet(flow.flow_id) ? String(flow.flow_id) : undefined } as MetaFlowButton);
+    }
+
+    if (type === 'COPY_CODE') {
+      // Existing templates can return the offer code as a one-item list
+      const example = (metaButton as { example?: string | string[] }).example;
+      return { type: 'COPY_CODE', example: Array.isArray(example) ? example[0] ?? '' : example ?? '' };
+    }
+
+    return this.transformButton(metaButton as MetaTemplateButton);
+  }
+
+  private static copyOffer(offer: MetaLimitedTimeOfferComponent['limited_time_offer']): MetaLimitedTimeOfferComponent['limited_time_offer'] {
+    const copy: MetaLimitedTimeOfferComponent['limited_time_offer'] = { text: offer?.text };
+    if (isSet(offer?.has_expiration)) copy.has_expiration = offer.has_expiration;
+    return copy;
+  }
+
+  private static copyFlowButton(button: MetaFlowButton): MetaFlowButton {
+    const copy: MetaFlowButton = { type: 'FLOW', text: button.text };
+    if (isSet(button.flow_id)) copy.flow_id = String(button.flow_id);
+    if (isSet(button.flow_json)) copy.flow_json = button.flow_json;
+    if (isSet(button.flow_action)) copy.flow_action = button.flow_action;
+    if (isSet(button.navigate_screen)) copy.navigate_screen = button.navigate_screen;
+    return copy;
+  }
+
+  private static copyOtpButton(button: MetaOtpButton): MetaOtpButton {
+    const copy: MetaOtpButton = { type: 'OTP', otp_type: button.otp_type };
+    if (isSet(button.text)) copy.text = button.text;
+    if (isSet(button.autofill_text)) copy.autofill_text = button.autofill_text;
+    if (isSet(button.zero_tap_terms_accepted)) copy.zero_tap_terms_accepted = button.zero_tap_terms_accepted;
+    if (isSet(button.supported_apps)) copy.supported_apps = button.supported_apps;
+    return copy;
   }
 }
 
 export default PayloadTransformer;
-
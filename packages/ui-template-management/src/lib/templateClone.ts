@@ -0,0 +1,103 @@
+/**
+ * Template Clone Utilities
+ * Turns an existing template into a create payload for another WhatsApp Business Account
+ */
+
+import type { CreateTemplatePayload, MessageTemplate } from '../types/templateTypes';
+import PayloadTransformer, { type MetaCarouselCardComponent, type MetaHeaderComponent, type PayloadComponent } from './payloadTransformer';
+import { fileUploadService, type FileUploadService } from './fileUploadService';
+
+const MEDIA_FORMATS = ['IMAGE', 'VIDEO', 'DOCUMENT'];
+
+// Meta returns samples of existing templates as CDN URLs, handles of fresh uploads look like 4::aW1hZ2...
+const MEDIA_URL_PATTERN = /^https?:\/\//i;
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'video/mp4': 'mp4',
+  'application/pdf': 'pdf',
+};
+
+const DEFAULT_EXTENSIONS: Record<string, string> = {
+  IMAGE: 'jpg',
+  VIDEO: 'mp4',
+  DOCUMENT: 'pdf',
+};
+
+export interface CloneTemplateOptions {
+  name?: string;
+  language?: string;
+}
+
+/**
+ * Convert a template into a create payload, optionally under a new name or language
+ */
+export function toClonePayload(template: MessageTemplate, options: CloneTemplateOptions = {}): CreateTemplatePayload {
+  const payload = PayloadTransformer.transformFromMeta(template);
+  return {
+    ...payload,
+    name: options.name || payload.name,
+    language: options.language || payload.language,
+  };
+}
+
+/**
+ * Download the sample media behind a header handle URL as a File the upload service accepts
+ */
+async function fetchMediaFile(url: string, format: string, fileName: string): Promise<File> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download the ${format.toLowerCase()} sample (HTTP ${response.status}).`);
+  }
+  const blob = await response.blob();
+  const mimeType = blob.type.split(';')[0] || '';
+  const extension = EXTENSIONS_BY_MIME_TYPE[mimeType] || DEFAULT_EXTENSIONS[format] || 'jpg';
+  return new File([blob], `${fileName}.${extension}`, { type: mimeType });
+}
+
+/**
+ * Replace a header's media handle with one uploaded to the target WABA
+ */
+async function rehostHeader(header: MetaHeaderComponent | undefined, wabaId: string, fileName: string, uploader: FileUploadService): Promise<void> {
+  const handle = header?.example?.header_handle?.[0];
+  if (!header || !MEDIA_FORMATS.includes(header.format) || !handle || !MEDIA_URL_PATTERN.test(handle)) return;
+
+  const file = await fetchMediaFile(handle, header.format, fileName);
+  const result = await uploader.uploadFile(file, wabaId);
+  if (!result.success || !result.fileId) {
+    throw new Error(result.error || `Failed to upload the ${header.format.toLowerCase()} sample.`);
+  }
+  header.example = { ...header.example, header_handle: [result.fileId] };
+}
+
+/**
+ * Upload handles are tied to the app and WABA that created them, so every media sample in the payload
+ * (the template header and each carousel card header) is downloaded and uploaded again for the target WABA.
+ * Also used when editing, where samples kept from the existing template are CDN URLs Meta won't take back.
+ * Samples that are already upload handles are left as they are. Returns a new payload, the given one is left untouched.
+ */
+export async function rehostMediaHandles(
+  payload: CreateTemplatePayload,
+  wabaId: string,
+  uploader: FileUploadService = fileUploadService
+): Promise<CreateTemplatePayload> {
+  const copy: CreateTemplatePayload = JSON.parse(JSON.stringify(payload));
+  const components = copy.components as PayloadComponent[];
+
+  for (let i = 0; i < components.length; i++) {
+    const component = components[i]!;
+
+    if (component.type === 'HEADER') {
+      await rehostHeader(component, wabaId, `${copy.name}_header`, uploader);
+    } else if (component.type === 'CAROUSEL') {
+      const cards = component.cards || [];
+      for (let c = 0; c < cards.length; c++) {
+        const header = (cards[c]!.components as MetaCarouselCardComponent[]).find((cc): cc is MetaHeaderComponent => cc.type === 'HEADER');
+        await rehostHeader(header, wabaId, `${copy.name}_card_${c + 1}`, uploader);
+      }
+    }
+  }
+
+  return copy;
+}
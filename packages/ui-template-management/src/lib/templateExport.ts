@@ -0,0 +1,178 @@
+/**
+ * Template Export Utilities
+ * Serializes templates to JSON, CSV and zip bundles of Meta-ready payloads
+ */
+
+import type {
+  CreateTemplatePayload,
+  MessageTemplate,
+  ResponseBodyComponent,
+  ResponseButton,
+  ResponseButtonsComponent,
+  ResponseFooterComponent,
+} from '../types/templateTypes';
+import PayloadTransformer, { type MetaTemplatePayload } from './payloadTransformer';
+
+export type TemplateExportFormat = 'json' | 'csv' | 'zip';
+
+const CSV_COLUMNS = ['name', 'language', 'category', 'status', 'body', 'footer', 'buttons'];
+
+/**
+ * Template in the internal CreateTemplatePayload shape, the format the import dialog reads back
+ */
+export const toCreatePayload = (template: MessageTemplate): CreateTemplatePayload =>
+  PayloadTransformer.transformFromMeta(template);
+
+/**
+ * Template as the body of a create request to Meta, without the ID and review status Meta assigned
+ */
+export const toMetaPayload = (template: MessageTemplate): MetaTemplatePayload =>
+  PayloadTransformer.transformToMeta(toCreatePayload(template));
+
+export function exportTemplatesToJson(templates: MessageTemplate[]): string {
+  return JSON.stringify(templates.map(toCreatePayload), null, 2);
+}
+
+/**
+ * One-line summary of a button, e.g. "URL: Track order (https://example.com/{{1}})"
+ */
+function summarizeButton(button: ResponseButton): string {
+  const target = button.type === 'URL' ? button.url || button.example || ''
+    : button.type === 'PHONE_NUMBER' ? button.phone_number
+    : button.type === 'COPY_CODE' ? button.example || ''
+    : '';
+  const label = button.text ? `${button.type}: ${button.text}` : button.type;
+  return target ? `${label} (${Array.isArray(target) ? target.join(', ') : target})` : label;
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function exportTemplatesToCsv(templates: MessageTemplate[]): string {
+  const rows = templates.map((template) => {
+    const body = template.components?.find(c => c.type === 'BODY') as ResponseBodyComponent | undefined;
+    const footer = template.components?.find(c => c.type === 'FOOTER') as ResponseFooterComponent | undefined;
+    const buttons = template.components?.find(c => c.type === 'BUTTONS') as ResponseButtonsComponent | undefined;
+
+    return [
+      template.name,
+      template.language,
+      template.category,
+      template.status,
+      body?.text || '',
+      footer?.text || '',
+      (buttons?.buttons || []).map(summarizeButton).join('; '),
+    ];
+  });
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(cell => escapeCsvCell(String(cell))).join(','))
+    .join('\r\n');
+}
+
+// #region ZIP
+let crcTable: number[] | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build an uncompressed zip archive. Payload files are small JSON, so storing them keeps this dependency free.
+ */
+function createZip(files: { name: string; content: string }[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true); // Compressed size
+    local.setUint32(22, data.length, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true); // Offset of the local header
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralDirectory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+}
+// #endregion
+
+/**
+ * Zip with one Meta-ready payload per template, named <name>_<language>.json
+ */
+export function exportTemplatesToZip(templates: MessageTemplate[]): Blob {
+  return createZip(
+    templates.map(template => ({
+      name: `${template.name}_${template.language}.json`,
+      content: JSON.stringify(toMetaPayload(template), null, 2),
+    }))
+  );
+}
+
+/**
+ * Serialize templates to the given format and hand the file to the browser as a download
+ */
+export function downloadTemplates(templates: MessageTemplate[], format: TemplateExportFormat, baseName: string = 'templates'): void {
+  const blob =
+    format === 'zip'
+      ? exportTemplatesToZip(templates)
+      : format === 'csv'
+        ? new Blob([exportTemplatesToCsv(templates)], { type: 'text/csv;charset=utf-8' })
+        : new Blob([exportTemplatesToJson(templates)], { type: 'application/json' });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,282 @@
+/**
+ * Template History Store
+ * Keeps a local record of every payload submitted for a template and every status/category change observed,
+ * since the Graph API only returns the current state of a template
+ */
+
+import type { CreateTemplatePayload, MessageTemplate } from '../types/templateTypes';
+import PayloadTransformer, { type PayloadButton, type PayloadComponent } from './payloadTransformer';
+
+export type TemplateHistoryEntryKind = 'submitted' | 'status_change';
+
+export interface TemplateHistoryEntry {
+  id: string;
+  templateKey: string;
+  kind: TemplateHistoryEntryKind;
+  recordedAt: string; // ISO timestamp
+  name: string;
+  language: string;
+  templateId?: string;
+  payload?: CreateTemplatePayload;
+  status?: string;
+  previousStatus?: string;
+  category?: string;
+  previousCategory?: string;
+}
+
+/**
+ * Where history entries are kept. Implement this to store history somewhere else (e.g. your backend).
+ */
+export interface TemplateHistoryStorage {
+  getEntries(templateKey: string): Promise<TemplateHistoryEntry[]>;
+  addEntry(entry: TemplateHistoryEntry): Promise<void>;
+  clear(templateKey: string): Promise<void>;
+}
+
+/**
+ * Name and language identify a template within a WABA, and are known before Meta assigns an ID
+ */
+export const getTemplateHistoryKey = (name: string, language: string, wabaId?: string | null): string =>
+  `${wabaId || 'default'}:${name}:${language}`;
+
+const createEntryId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const byRecordedAt = (a: TemplateHistoryEntry, b: TemplateHistoryEntry) => a.recordedAt.localeCompare(b.recordedAt);
+
+// #region STORAGE ADAPTERS
+export class MemoryHistoryStorage implements TemplateHistoryStorage {
+  private entries: TemplateHistoryEntry[] = [];
+
+  async getEntries(templateKey: string): Promise<TemplateHistoryEntry[]> {
+    return this.entries.filter(entry => entry.templateKey === templateKey).sort(byRecordedAt);
+  }
+
+  async addEntry(entry: TemplateHistoryEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async clear(templateKey: string): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.templateKey !== templateKey);
+  }
+}
+
+const DB_NAME = 'template-management-history';
+const STORE_NAME = 'entries';
+
+export class IndexedDBHistoryStorage implements TemplateHistoryStorage {
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('templateKey', 'templateKey', { unique: false });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getEntries(templateKey: string): Promise<TemplateHistoryEntry[]> {
+    const entries = await this.run<TemplateHistoryEntry[]>('readonly', store =>
+      store.index('templateKey').getAll(templateKey)
+    );
+    return entries.sort(byRecordedAt);
+  }
+
+  async addEntry(entry: TemplateHistoryEntry): Promise<void> {
+    await this.run('readwrite', store => store.put(entry));
+  }
+
+  async clear(templateKey: string): Promise<void> {
+    const entries = await this.getEntries(templateKey);
+    for (let i = 0; i < entries.length; i++) {
+      await this.run('readwrite', store => store.delete(entries[i]!.id));
+    }
+  }
+}
+// #endregion
+
+export class TemplateHistoryStore {
+  private storage: TemplateHistoryStorage;
+  // Writes are chained so overlapping list reloads can't record the same status change twice
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(storage?: TemplateHistoryStorage) {
+    this.storage = storage || (typeof indexedDB !== 'undefined' ? new IndexedDBHistoryStorage() : new MemoryHistoryStorage());
+  }
+
+  /**
+   * Swap the storage adapter, e.g. to persist history on a server
+   */
+  setStorage(storage: TemplateHistoryStorage): void {
+    this.storage = storage;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Entries oldest first. Payloads are returned in the current internal format, so submitted payloads,
+   * templates read back from Meta and entries saved by older versions compare field by field.
+   */
+  async getHistory(name: string, language: string, wabaId?: string | null): Promise<TemplateHistoryEntry[]> {
+    const entries = await this.storage.getEntries(getTemplateHistoryKey(name, language, wabaId));
+    return entries.map(entry => (entry.payload ? { ...entry, payload: PayloadTransformer.normalize(entry.payload) } : entry));
+  }
+
+  clearHistory(name: string, language: string, wabaId?: string | null): Promise<void> {
+    return this.enqueue(() => this.storage.clear(getTemplateHistoryKey(name, language, wabaId)));
+  }
+
+  /**
+   * Record a payload sent to Meta, on create or edit
+   */
+  recordSubmission(payload: CreateTemplatePayload, wabaId?: string | null, templateId?: string): Promise<void> {
+    return this.enqueue(() =>
+      this.storage.addEntry({
+        id: createEntryId(),
+        templateKey: getTemplateHistoryKey(payload.name, payload.language, wabaId),
+        kind: 'submitted',
+        recordedAt: new Date().toISOString(),
+        name: payload.name,
+        language: payload.language,
+        templateId,
+        payload,
+        category: payload.category,
+      })
+    );
+  }
+
+  /**
+   * Compare templates returned by the Graph API with the last recorded state and record status or category changes.
+   * The first time a template is seen its current state is recorded as the starting point.
+   */
+  recordObservedTemplates(templates: MessageTemplate[], wabaId?: string | null): Promise<void> {
+    return this.enqueue(async () => {
+      for (let i = 0; i < templates.length; i++) {
+        const template = templates[i]!;
+        const templateKey = getTemplateHistoryKey(template.name, template.language, wabaId);
+        const entries = await this.storage.getEntries(templateKey);
+        const lastObserved = entries.filter(entry => entry.kind === 'status_change').pop();
+
+        if (lastObserved && lastObserved.status === template.status && lastObserved.category === template.category) {
+          continue;
+        }
+
+        let payload: CreateTemplatePayload | undefined;
+        try {
+          payload = PayloadTransformer.transformFromMeta(template);
+        } catch {
+          // Keep the status change even if the components can't be converted
+        }
+
+        await this.storage.addEntry({
+          id: createEntryId(),
+          templateKey,
+          kind: 'status_change',
+          recordedAt: new Date().toISOString(),
+          name: template.name,
+          language: template.language,
+          templateId: template.id,
+          payload,
+          status: template.status,
+          previousStatus: lastObserved?.status,
+          category: template.category,
+          previousCategory: lastObserved?.category,
+        });
+      }
+    });
+  }
+}
+
+// #region DIFF
+export interface TemplateDiffRow {
+  field: string;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Flatten a payload into labelled fields: component text, formats, examples and every button property
+ */
+export function flattenTemplatePayload(payload: CreateTemplatePayload | undefined): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (!payload) return fields;
+
+  fields['Category'] = payload.category;
+  (payload.components as PayloadComponent[]).forEach((component) => {
+    const label = component.type.charAt(0) + component.type.slice(1).toLowerCase();
+
+    if (component.type === 'BUTTONS') {
+      (component.buttons as PayloadButton[]).forEach((button, index) => {
+        Object.entries(button).forEach(([key, value]) => {
+          fields[`Button ${index + 1} ${key}`] = formatValue(value);
+        });
+      });
+      return;
+    }
+
+    Object.entries(component).forEach(([key, value]) => {
+      if (key === 'type') return;
+      fields[key === 'text' ? label : `${label} ${key}`] = formatValue(value);
+    });
+    if (!Object.keys(component).some(key => key !== 'type')) {
+      fields[label] = 'Included';
+    }
+  });
+
+  return fields;
+}
+
+/**
+ * Field-by-field comparison of two payloads, in the order fields first appear
+ */
+export function diffTemplatePayloads(
+  before: CreateTemplatePayload | undefined,
+  after: CreateTemplatePayload | undefined
+): TemplateDiffRow[] {
+  const beforeFields = flattenTemplatePayload(before);
+  const afterFields = flattenTemplatePayload(after);
+  const fields = Object.keys(beforeFields);
+  Object.keys(afterFields).forEach((field) => {
+    if (!fields.includes(field)) fields.push(field);
+  });
+
+  return fields.map((field) => {
+    const beforeValue = beforeFields[field] || '';
+    const afterValue = afterFields[field] || '';
+    return { field, before: beforeValue, after: afterValue, changed: beforeValue !== afterValue };
+  });
+}
+// #endregion
+
+// Export a singleton instance
+export const templateHistory = new TemplateHistoryStore();
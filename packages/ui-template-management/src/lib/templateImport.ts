@@ -0,0 +1,242 @@
+/**
+ * Template Import Utilities
+ * Parses bulk import files into CreateTemplatePayload entries and validates them before submission
+ *
+ * JSON files hold an array of CreateTemplatePayload objects.
+ * CSV files hold one row per template/language, with a header row naming the columns:
+ *   name, language, category   required
+ *   header_format              TEXT (default when header_text is set), IMAGE, VIDEO or DOCUMENT
+ *   header_text                text header, header_example holds the example for its {{1}}
+ *   header_handle              media header handle or URL
+ *   body                       body text, body_examples holds its examples separated by |
+ *   footer                     footer text
+ *   buttons                    JSON array of buttons
+ *   components                 JSON array of components, replaces every column above except name/language/category
+ */
+
+import type {
+  CreateTemplatePayload,
+  HeaderComponent,
+  TemplateButton,
+  TemplateComponent,
+} from '../types/templateTypes';
+import { MetaTemplateValidator } from './metaTemplateValidator';
+import type { ValidationRuleSet } from './validationRules';
+import type { ValidationMessages } from './validationMessages';
+
+const REQUIRED_CSV_COLUMNS = ['name', 'language', 'category'];
+const EXAMPLE_SEPARATOR = '|';
+
+export interface ImportEntry {
+  row: number; // Position in the source file: array index + 1 for JSON, spreadsheet line for CSV
+  payload?: CreateTemplatePayload;
+  parseError?: string;
+}
+
+export type ImportRowStatus = 'invalid' | 'ready' | 'submitting' | 'created' | 'failed';
+
+export interface ImportRow extends ImportEntry {
+  status: ImportRowStatus;
+  errors: string[];
+}
+
+/**
+ * Split CSV content into rows of cells. Handles quoted cells with commas, escaped quotes and line breaks.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines, spreadsheets often leave a few at the end
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+function parseJsonCell<T>(value: string, column: string): T {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`Column "${column}" is not valid JSON.`);
+  }
+}
+
+/**
+ * Build the components of a CSV row from its header, body, footer and buttons columns
+ */
+function buildComponentsFromColumns(cells: Record<string, string>): TemplateComponent[] {
+  if (cells.components) {
+    return parseJsonCell<TemplateComponent[]>(cells.components, 'components');
+  }
+
+  const components: TemplateComponent[] = [];
+
+  const headerFormat = (cells.header_format || (cells.header_text ? 'TEXT' : '')).toUpperCase();
+  if (headerFormat === 'TEXT') {
+    components.push({
+      type: 'HEADER',
+      format: 'TEXT',
+      text: cells.header_text || '',
+      ...(cells.header_example ? { example: { header_text: [cells.header_example] } } : {}),
+    });
+  } else if (headerFormat) {
+    components.push({
+      type: 'HEADER',
+      format: headerFormat,
+      example: { header_handle: [cells.header_handle || ''] },
+    } as HeaderComponent);
+  }
+
+  components.push({
+    type: 'BODY',
+    text: cells.body || '',
+    ...(cells.body_examples
+      ? { example: { body_text: [cells.body_examples.split(EXAMPLE_SEPARATOR).map(value => value.trim())] } }
+      : {}),
+  });
+
+  if (cells.footer) {
+    components.push({ type: 'FOOTER', text: cells.footer });
+  }
+
+  if (cells.buttons) {
+    components.push({ type: 'BUTTONS', buttons: parseJsonCell<TemplateButton[]>(cells.buttons, 'buttons') });
+  }
+
+  return components;
+}
+
+function parseCsvEntries(content: string): ImportEntry[] {
+  const [headerRow, ...dataRows] = parseCsv(content);
+  if (!headerRow) {
+    throw new Error('The CSV file is empty.');
+  }
+
+  const columns = headerRow.map(column => column.trim().toLowerCase());
+  const missingColumns = REQUIRED_CSV_COLUMNS.filter(column => !columns.includes(column));
+  if (missingColumns.length > 0) {
+    throw new Error(`The CSV file is missing the column(s): ${missingColumns.join(', ')}.`);
+  }
+
+  return dataRows.map((values, index) => {
+    // Header is line 1 of the spreadsheet
+    const row = index + 2;
+    const cells: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      cells[column] = (values[i] || '').trim();
+    });
+
+    try {
+      const payload = {
+        name: cells.name,
+        language: cells.language,
+        category: (cells.category || '').toUpperCase(),
+        components: buildComponentsFromColumns(cells),
+      } as CreateTemplatePayload;
+      return { row, payload };
+    } catch (error) {
+      return { row, parseError: error instanceof Error ? error.message : String(error) };
+    }
+  });
+}
+
+function parseJsonEntries(content: string): ImportEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The JSON file could not be parsed.');
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error('The JSON file must contain an array of templates.');
+  }
+
+  return data.map((item, index) => {
+    const row = index + 1;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { row, parseError: 'Entry is not a template object.' };
+    }
+    return { row, payload: item as CreateTemplatePayload };
+  });
+}
+
+/**
+ * Parse the content of an import file. JSON is detected from the file extension or the first character.
+ * Throws when the file as a whole can't be read, problems with single entries are reported per entry.
+ */
+export function parseTemplateImport(content: string, fileName: string = ''): ImportEntry[] {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(content);
+  return isJson ? parseJsonEntries(content) : parseCsvEntries(content);
+}
+
+/**
+ * Run every entry through the Meta validator, or a custom rule set, and flag entries that repeat an earlier name/language pair.
+ * Validator errors are translated with the given messages, see validationMessages.
+ */
+export function validateImportEntries(
+  entries: ImportEntry[],
+  ruleSet?: ValidationRuleSet,
+  messages?: Partial<ValidationMessages>
+): ImportRow[] {
+  const seen: Record<string, number> = {};
+
+  return entries.map((entry) => {
+    if (!entry.payload) {
+      return { ...entry, status: 'invalid', errors: [entry.parseError || 'Entry could not be read.'] };
+    }
+
+    let errors: string[];
+    try {
+      errors = MetaTemplateValidator.validateTemplate(entry.payload, ruleSet).errors.map(error => MetaTemplateValidator.getErrorMessage(error, messages));
+    } catch {
+      // Hand-written JSON can miss whole sections (e.g. no components array) that the validator expects
+      errors = ['Entry is not a complete template.'];
+    }
+
+    const key = `${entry.payload.name}:${entry.payload.language}`;
+    if (seen[key] !== undefined) {
+      errors.push(`Duplicate of row ${seen[key]} (same name and language).`);
+    } else {
+      seen[key] = entry.row;
+    }
+
+    return { ...entry, status: errors.length > 0 ? 'invalid' : 'ready', errors };
+  });
+}
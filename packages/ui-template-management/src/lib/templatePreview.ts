@@ -0,0 +1,130 @@
+/**
+ * Template Preview Utilities
+ * Extracts {{variable}} placeholders from template text and fills them with sample values
+ */
+
+import type { ResponseComponent } from '../types/templateTypes';
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/**
+ * Scope a variable belongs to. The same `{{1}}` can appear in the header,
+ * the body and a URL button with a different meaning in each.
+ */
+export type PreviewVariableScope = 'header' | 'body' | 'button' | `card_${number}`;
+
+export interface PreviewVariable {
+  scope: PreviewVariableScope;
+  name: string;
+  example: string;
+}
+
+/**
+ * Key used to store a sample value for a variable
+ */
+export const getVariableKey = (scope: PreviewVariableScope, name: string): string => `${scope}:${name}`;
+
+/**
+ * Get the unique variable names used in a piece of text, in order of appearance
+ */
+export function extractVariables(text: string | undefined): string[] {
+  if (!text) return [];
+  const names: string[] = [];
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!names.includes(name)) {
+      names.push(name);
+    }
+    return placeholder;
+  });
+  return names;
+}
+
+/**
+ * Replace variables in text with sample values. Variables without a value keep their placeholder.
+ */
+export function fillVariables(
+  text: string | undefined,
+  scope: PreviewVariableScope,
+  values: Record<string, string>
+): string {
+  if (!text) return '';
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[getVariableKey(scope, name)];
+    return value && value.trim() ? value : placeholder;
+  });
+}
+
+/**
+ * Look up the example Meta stored for a variable, used as the default sample value
+ */
+function getExample(component: ResponseComponent | undefined, name: string, position: number): string {
+  if (!component || !('example' in component) || !component.example) return '';
+  const example = component.example as {
+    header_text?: string[];
+    body_text?: string[][];
+    body_text_named_params?: { param_name: string; example: string }[];
+  };
+
+  const named = example.body_text_named_params?.find(param => param.param_name === name);
+  if (named) return named.example;
+  if (example.body_text?.[0]?.[position]) return example.body_text[0][position] || '';
+  if (example.header_text?.[position]) return example.header_text[position] || '';
+  return '';
+}
+
+/**
+ * Collect every variable a template uses, grouped by scope, with Meta's examples as defaults
+ */
+export function collectPreviewVariables(components: ResponseComponent[] = []): PreviewVariable[] {
+  const variables: PreviewVariable[] = [];
+
+  const header = components.find(c => c.type === 'HEADER');
+  if (header && 'text' in header) {
+    extractVariables(header.text).forEach((name, i) => {
+      variables.push({ scope: 'header', name, example: getExample(header, name, i) });
+    });
+  }
+
+  const body = components.find(c => c.type === 'BODY');
+  if (body && 'text' in body) {
+    extractVariables(body.text).forEach((name, i) => {
+      variables.push({ scope: 'body', name, example: getExample(body, name, i) });
+    });
+  }
+
+  const buttons = components.find(c => c.type === 'BUTTONS');
+  if (buttons && 'buttons' in buttons) {
+    buttons.buttons.forEach(button => {
+      if (button.type !== 'URL') return;
+      extractVariables(button.url).forEach(name => {
+        if (!variables.some(v => v.scope === 'button' && v.name === name)) {
+          variables.push({ scope: 'button', name, example: button.example?.[0] ?? '' });
+        }
+      });
+    });
+  }
+
+  const carousel = components.find(c => c.type === 'CAROUSEL');
+  if (carousel && 'cards' in carousel) {
+    carousel.cards.forEach((card, cardIndex) => {
+      const cardBody = card.components.find(c => c.type === 'BODY');
+      if (cardBody && 'text' in cardBody) {
+        extractVariables(cardBody.text).forEach((name, i) => {
+          variables.push({ scope: `card_${cardIndex}`, name, example: getExample(cardBody, name, i) });
+        });
+      }
+    });
+  }
+
+  return variables;
+}
+
+/**
+ * Build the initial sample value map from the examples stored on the template
+ */
+export function getDefaultSampleValues(variables: PreviewVariable[]): Record<string, string> {
+  return variables.reduce<Record<string, string>>((values, variable) => {
+    values[getVariableKey(variable.scope, variable.name)] = variable.example;
+    return values;
+  }, {});
+}
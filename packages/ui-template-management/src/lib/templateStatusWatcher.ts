@@ -0,0 +1,237 @@
+/**
+ * Template Status Watcher
+ * Follows templates that are waiting for Meta's review and reports when their status changes.
+ * Polls with backoff through an injected fetch function, or takes pushed updates (e.g. from webhooks) from an injected source.
+ */
+
+import type { MessageTemplate, TemplateStatus } from '../types/templateTypes';
+
+// Statuses that are expected to change without anything being done in the app
+const WATCHED_STATUSES: TemplateStatus[] = ['PENDING', 'IN_APPEAL'];
+
+export interface TemplateStatusChange {
+  template: MessageTemplate; // Template with the new status applied
+  previousStatus: TemplateStatus;
+  status: TemplateStatus;
+  reason?: string; // Rejection reason, when known
+}
+
+/**
+ * Status update pushed by a source, e.g. a message_template_status_update webhook forwarded to the browser
+ */
+export interface TemplateStatusUpdate {
+  id: string;
+  status: TemplateStatus;
+  reason?: string;
+}
+
+export interface TemplateStatusSource {
+  // Returns a function that stops the updates
+  subscribe(onUpdate: (update: TemplateStatusUpdate) => void): () => void;
+}
+
+// Types for injectable API functions
+export type FetchTemplateFn = (templateId: string) => Promise<MessageTemplate>;
+
+export type TemplateStatusListener = (change: TemplateStatusChange) => void;
+
+export interface TemplateStatusWatcherOptions {
+  fetchTemplate?: FetchTemplateFn;
+  source?: TemplateStatusSource | null;
+  initialIntervalMs?: number;
+  maxIntervalMs?: number;
+  backoffFactor?: number;
+}
+
+const DEFAULT_INITIAL_INTERVAL_MS = 15000;
+const DEFAULT_MAX_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_BACKOFF_FACTOR = 2;
+
+export class TemplateStatusWatcher {
+  private fetchTemplateFn: FetchTemplateFn | null = null;
+  private source: TemplateStatusSource | null = null;
+  private unsubscribeSource: (() => void) | null = null;
+  private initialIntervalMs = DEFAULT_INITIAL_INTERVAL_MS;
+  private maxIntervalMs = DEFAULT_MAX_INTERVAL_MS;
+  private backoffFactor = DEFAULT_BACKOFF_FACTOR;
+
+  private watched: Record<string, MessageTemplate> = {};
+  private listeners: TemplateStatusListener[] = [];
+  private intervalMs = DEFAULT_INITIAL_INTERVAL_MS;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+
+  /**
+   * Configure the service with the app's API client and optional push source
+   */
+  configure(options: TemplateStatusWatcherOptions): void {
+    if (options.fetchTemplate) this.fetchTemplateFn = options.fetchTemplate;
+    if (options.initialIntervalMs) this.initialIntervalMs = options.initialIntervalMs;
+    if (options.maxIntervalMs) this.maxIntervalMs = options.maxIntervalMs;
+    if (options.backoffFactor) this.backoffFactor = options.backoffFactor;
+    if (options.source !== undefined) this.setSource(options.source);
+    this.resetBackoff();
+  }
+
+  /**
+   * Swap the push source, pass null to rely on polling only
+   */
+  setSource(source: TemplateStatusSource | null): void {
+    this.unsubscribeSource?.();
+    this.unsubscribeSource = null;
+    this.source = source;
+    this.connectSource();
+  }
+
+  /**
+   * Start following the given templates that await review. Templates already followed are compared
+   * with the given state, so a change picked up by a manual sync is reported too.
+   */
+  watch(templates: MessageTemplate[]): void {
+    let added = false;
+    templates.forEach((template) => {
+      const current = this.watched[template.id];
+      if (current) {
+        this.applyTemplate(template);
+      } else if (WATCHED_STATUSES.includes(template.status)) {
+        this.watched[template.id] = template;
+        added = true;
+      }
+    });
+    if (added) this.resetBackoff();
+  }
+
+  unwatch(templateId: string): void {
+    delete this.watched[templateId];
+    if (this.getWatchedIds().length === 0) this.clearTimer();
+  }
+
+  getWatchedIds(): string[] {
+    return Object.keys(this.watched);
+  }
+
+  /**
+   * Listen for status changes. Polling and the push source only run while someone listens.
+   */
+  subscribe(listener: TemplateStatusListener): () => void {
+    this.listeners.push(listener);
+    if (this.listeners.length === 1) {
+      this.connectSource();
+      this.resetBackoff();
+    }
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+      if (this.listeners.length === 0) this.stop();
+    };
+  }
+
+  /**
+   * Stop polling and disconnect the push source, followed templates are kept
+   */
+  stop(): void {
+    this.clearTimer();
+    this.unsubscribeSource?.();
+    this.unsubscribeSource = null;
+  }
+
+  /**
+   * Check every followed template now instead of waiting for the next poll
+   */
+  async pollNow(): Promise<void> {
+    if (!this.fetchTemplateFn || this.polling) return;
+    this.polling = true;
+    let changed = false;
+    try {
+      const ids = this.getWatchedIds();
+      for (let i = 0; i < ids.length; i++) {
+        try {
+          const template = await this.fetchTemplateFn(ids[i]!);
+          changed = this.applyTemplate(template) || changed;
+        } catch (err) {
+          console.error(`Error polling status of template ${ids[i]}:`, err);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    // Back off while nothing happens, Meta reviews can take minutes to a day
+    this.intervalMs = changed
+      ? this.getStartInterval()
+      : Math.min(this.intervalMs * this.backoffFactor, this.maxIntervalMs);
+    this.schedule();
+  }
+
+  private applyUpdate = (update: TemplateStatusUpdate): void => {
+    const current = this.watched[update.id];
+    if (!current) return;
+    this.applyTemplate(
+      { ...current, status: update.status, rejected_reason: update.reason ?? current.rejected_reason },
+      update.reason
+    );
+  };
+
+  /**
+   * Compare with the followed state, report a change and stop following once the review is done
+   */
+  private applyTemplate(template: MessageTemplate, reason?: string): boolean {
+    const current = this.watched[template.id];
+    if (!current || current.status === template.status) return false;
+
+    if (WATCHED_STATUSES.includes(template.status)) {
+      this.watched[template.id] = template;
+    } else {
+      this.unwatch(template.id);
+    }
+
+    const change: TemplateStatusChange = {
+      template: { ...current, ...template },
+      previousStatus: current.status,
+      status: template.status,
+      reason: reason ?? (template.rejected_reason && template.rejected_reason !== 'NONE' ? template.rejected_reason : undefined),
+    };
+    this.listeners.slice().forEach((listener) => {
+      try {
+        listener(change);
+      } catch (err) {
+        console.error('Error in template status listener:', err);
+      }
+    });
+    return true;
+  }
+
+  private connectSource(): void {
+    if (this.source && !this.unsubscribeSource && this.listeners.length > 0) {
+      this.unsubscribeSource = this.source.subscribe(this.applyUpdate);
+    }
+  }
+
+  // With a push source polling is only a safety net for missed updates
+  private getStartInterval(): number {
+    return this.source ? this.maxIntervalMs : this.initialIntervalMs;
+  }
+
+  private resetBackoff(): void {
+    this.intervalMs = this.getStartInterval();
+    this.schedule();
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    if (!this.fetchTemplateFn || this.listeners.length === 0 || this.getWatchedIds().length === 0) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pollNow();
+    }, this.intervalMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// Export a singleton instance
+export const templateStatusWatcher = new TemplateStatusWatcher();
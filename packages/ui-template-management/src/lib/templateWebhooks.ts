@@ -0,0 +1,111 @@
+/**
+ * Template Webhook Utilities
+ * Turns Meta's template webhooks into typed events and applies them to loaded templates
+ */
+
+import type { MessageTemplate, TemplateStatus } from '../types/templateTypes';
+import type {
+  MessageTemplateQualityUpdateValue,
+  MessageTemplateStatusUpdateValue,
+  TemplateCategoryUpdateValue,
+  TemplateStatusEventName,
+  TemplateWebhookEvent,
+  WhatsAppWebhookEntry,
+  WhatsAppWebhookPayload,
+} from '../types/webhookTypes';
+
+const toStatus = (event: TemplateStatusEventName): TemplateStatus | undefined => {
+  if (event === 'REINSTATED') return 'APPROVED';
+  if (event === 'FLAGGED') return undefined;
+  return event;
+};
+
+const baseEvent = (entry: WhatsAppWebhookEntry, value: { message_template_id: number | string; message_template_name: string; message_template_language: string }) => ({
+  wabaId: String(entry.id),
+  templateId: String(value.message_template_id),
+  name: value.message_template_name,
+  language: value.message_template_language,
+  timestamp: entry.time,
+});
+
+/**
+ * Parse a webhook body into template events. Changes for other fields (messages, account updates, ...)
+ * and changes without a template ID are skipped.
+ */
+export function parseTemplateWebhook(payload: WhatsAppWebhookPayload): TemplateWebhookEvent[] {
+  const events: TemplateWebhookEvent[] = [];
+  if (!payload || payload.object !== 'whatsapp_business_account' || !Array.isArray(payload.entry)) {
+    return events;
+  }
+
+  payload.entry.forEach((entry) => {
+    (entry.changes || []).forEach((change) => {
+      const value = change.value as { message_template_id?: number | string } | null | undefined;
+      if (!value || value.message_template_id === undefined) return;
+
+      switch (change.field) {
+        case 'message_template_status_update': {
+          const status = value as MessageTemplateStatusUpdateValue;
+          events.push({
+            type: 'message_template_status_update',
+            ...baseEvent(entry, status),
+            event: status.event,
+            status: toStatus(status.event),
+            reason: status.reason && status.reason !== 'NONE' ? status.reason : undefined,
+            otherInfo: status.other_info,
+          });
+          break;
+        }
+        case 'template_category_update': {
+          const category = value as TemplateCategoryUpdateValue;
+          events.push({
+            type: 'template_category_update',
+            ...baseEvent(entry, category),
+            previousCategory: category.previous_category,
+            newCategory: category.new_category,
+            correctCategory: category.correct_category,
+          });
+          break;
+        }
+        case 'message_template_quality_update': {
+          const quality = value as MessageTemplateQualityUpdateValue;
+          events.push({
+            type: 'message_template_quality_update',
+            ...baseEvent(entry, quality),
+            previousQualityScore: quality.previous_quality_score,
+            newQualityScore: quality.new_quality_score,
+          });
+          break;
+        }
+      }
+    });
+  });
+
+  return events;
+}
+
+/**
+ * Template with the event applied, or the same template when the event is for another one
+ */
+export function applyTemplateWebhookEvent(template: MessageTemplate, event: TemplateWebhookEvent): MessageTemplate {
+  if (template.id !== event.templateId) return template;
+
+  switch (event.type) {
+    case 'message_template_status_update':
+      if (!event.status) return template;
+      return {
+        ...template,
+        status: event.status,
+        rejected_reason: event.status === 'REJECTED' ? event.reason || template.rejected_reason : 'NONE',
+      };
+    case 'template_category_update':
+      // A correct_category notice only announces a change, the category stays until new_category arrives
+      if (!event.newCategory) return template;
+      return { ...template, category: event.newCategory, previous_category: event.previousCategory };
+    case 'message_template_quality_update':
+      return {
+        ...template,
+        quality_score: { ...template.quality_score, score: event.newQualityScore, date: event.timestamp },
+      };
+  }
+}
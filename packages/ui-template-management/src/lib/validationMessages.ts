@@ -0,0 +1,167 @@
+/**
+ * Validation Messages
+ * English messages of the template validator, keyed by error code with {param} placeholders. Pass a translated
+ * set (the validation section of the dictionary) to getErrorMessage to show them in another language.
+ * Codes with several causes also have keys like OTP_INVALID_PACKAGE_NAME.TOO_LONG, a translation of the code alone covers all of them.
+ * The RESULT keys are the summary lines of formatValidationResult.
+ */
+
+export type ValidationMessageParams = Record<string, string | number>;
+
+export type ValidationMessages = Record<string, string>;
+
+export const DEFAULT_VALIDATION_MESSAGES: ValidationMessages = {
+  // Result summary
+  'RESULT.PASSED': 'Template validation passed!',
+  'RESULT.FIX_ISSUES': 'Please fix the following issues:',
+
+  // Template
+  MISSING_NAME: 'Template name is required',
+  NAME_TOO_SHORT: 'Template name must be at least {min} character',
+  NAME_TOO_LONG: 'Template name must not exceed {max} characters',
+  INVALID_NAME_CHARS: 'Template name can only contain lowercase letters, numbers, and underscores',
+  MISSING_LANGUAGE: 'Language is required',
+  UNSUPPORTED_LANGUAGE: "Language '{language}' is not supported by Meta",
+  INVALID_CATEGORY: 'Category must be MARKETING, UTILITY, or AUTHENTICATION',
+
+  // Categories
+  AUTH_MISSING_BODY: 'AUTHENTICATION templates must have a body component',
+  AUTH_MISSING_BUTTON: 'AUTHENTICATION templates must have exactly one button of OTP type',
+  AUTH_MULTIPLE_BUTTONS: 'AUTHENTICATION templates must have exactly one button, not multiple',
+  AUTH_NO_OTP_BUTTON: 'AUTHENTICATION templates must have exactly one OTP button',
+  AUTH_MULTIPLE_OTP_BUTTONS: 'AUTHENTICATION templates must have exactly one OTP button',
+  OTP_MISSING_TYPE: 'OTP button must specify otp_type (one_tap, zero_tap, or copy_code)',
+  INVALID_OTP_TYPE: 'OTP button type must be one of: {types}',
+  OTP_MISSING_PACKAGE_NAME: 'Supported app {app}: Package name is required',
+  OTP_INVALID_PACKAGE_NAME: 'Supported app {app}: Invalid package name format',
+  'OTP_INVALID_PACKAGE_NAME.TOO_LONG': 'Supported app {app}: Package name must not exceed {max} characters',
+  'OTP_INVALID_PACKAGE_NAME.INVALID_CHARACTERS': 'Supported app {app}: Package name can only contain letters, numbers, underscores, and periods',
+  'OTP_INVALID_PACKAGE_NAME.TOO_FEW_SEGMENTS': 'Supported app {app}: Package name must have at least two segments separated by a dot (e.g., com.example.app)',
+  'OTP_INVALID_PACKAGE_NAME.SEGMENT_START': 'Supported app {app}: Each segment of the package name must start with a letter',
+  OTP_MISSING_SIGNATURE_HASH: 'Supported app {app}: Signature hash is required',
+  OTP_INVALID_SIGNATURE_HASH: 'Supported app {app}: Invalid signature hash',
+  'OTP_INVALID_SIGNATURE_HASH.LENGTH': 'Supported app {app}: Signature hash must be exactly {length} characters',
+  'OTP_INVALID_SIGNATURE_HASH.INVALID_CHARACTERS': 'Supported app {app}: Signature hash contains invalid characters. Use A-Z, a-z, 0-9, +, /, or =',
+  ZERO_TAP_TERMS_NOT_ACCEPTED: 'Zero-tap OTP buttons require accepting the terms and conditions',
+  AUTH_HEADER_WARNING: 'AUTHENTICATION templates typically do not include header components',
+  MARKETING_MISSING_BODY: 'MARKETING templates must have a body component',
+  MARKETING_TOO_MANY_BUTTONS: 'MARKETING templates can have a maximum of {max} buttons',
+  UTILITY_MISSING_BODY: 'UTILITY templates must have a body component',
+  UTILITY_TOO_MANY_BUTTONS: 'UTILITY templates can have a maximum of {max} buttons',
+
+  // Components
+  MISSING_COMPONENTS: 'Template must have at least one component',
+  INVALID_COMPONENT_TYPE: 'Invalid component type: {type}',
+  HEADER_MISSING_FORMAT: 'Header component must specify format',
+  INVALID_HEADER_FORMAT: 'Invalid header format: {format}',
+  HEADER_MISSING_TEXT: 'Text header must have text content',
+  HEADER_TEXT_TOO_LONG: 'Header text must not exceed {max} characters',
+  HEADER_MISSING_VARIABLE_EXAMPLE: 'Header text contains a variable ({{1}}) but example value is required. Please provide an example value.',
+  HEADER_MISSING_MEDIA_EXAMPLE: '{format} header must have a media file',
+  BODY_MISSING_TEXT: 'Body component must have text content',
+  BODY_TEXT_TOO_LONG: 'Body text must not exceed {max} characters',
+  BODY_MISSING_VARIABLE_EXAMPLES: 'Body text contains variables ({{1}}, {{2}}, etc.) but example values are required. Please provide example values for all variables.',
+  BODY_INCOMPLETE_VARIABLE_EXAMPLES: 'Body text contains {required} variable(s) but only {provided} example value(s) provided. Please provide example values for all variables.',
+  BODY_MISSING_NAMED_VARIABLE_EXAMPLES: 'Body text contains named variables ({{variable_name}}, etc.) but example values are required. Please provide example values for all variables.',
+  BODY_INCOMPLETE_NAMED_VARIABLE_EXAMPLES: 'Body text contains variables ({variables}) but example values are missing. Please provide example values for all variables.',
+  BODY_EMPTY_NAMED_VARIABLE_EXAMPLES: 'Example values are required for all variables. Please fill in example values for: {variables}',
+  FOOTER_MISSING_TEXT: 'Footer component must have text content',
+  FOOTER_TEXT_TOO_LONG: 'Footer text must not exceed {max} characters',
+  BUTTONS_MISSING_BUTTONS: 'Buttons component must have at least one button',
+
+  // Buttons
+  BUTTON_MISSING_TYPE: 'Button must specify type',
+  INVALID_BUTTON_TYPE: 'Invalid button type: {type}',
+  BUTTON_MISSING_TEXT: 'Button must have text',
+  BUTTON_TEXT_TOO_LONG: 'Button text must not exceed {max} characters',
+  URL_BUTTON_MISSING_URL: 'URL button must have url',
+  URL_TOO_LONG: 'URL must not exceed {max} characters',
+  URL_INVALID_FORMAT: 'Invalid URL format. URL must start with http:// or https://',
+  URL_INVALID_DYNAMIC_FORMAT: 'Dynamic URL must have a valid base URL before {{1}}. Example: https://example.com/{{1}}',
+  URL_INVALID_DYNAMIC_BASE: 'Dynamic URL base must start with http:// or https://. Example: https://example.com/{{1}}',
+  'URL_INVALID_DYNAMIC_BASE.INCOMPLETE': 'Invalid dynamic URL base. Make sure the URL before {{1}} is valid.',
+  URL_MISSING_EXAMPLE_VALUE: 'Example value is required for dynamic URLs. Please provide an example value for the {{1}} parameter.',
+  URL_INVALID_EXAMPLE_FORMAT: 'Example value should not include http:// or https://. Enter only the dynamic part (e.g., "product-123" for https://example.com/{{1}}).',
+  URL_INVALID_EXAMPLE_FULL: 'The full URL with your example value is invalid. Check that the example value creates a valid URL when combined with the base URL.',
+  PHONE_BUTTON_MISSING_NUMBER: 'Phone number button must have phone_number',
+  PHONE_NUMBER_TOO_LONG: 'Phone number must not exceed {max} characters',
+  COPY_CODE_MISSING_EXAMPLE: 'Copy code button must have an example offer code',
+  COPY_CODE_EXAMPLE_TOO_LONG: 'Offer code must not exceed {max} characters',
+  FLOW_BUTTON_MISSING_FLOW: 'Flow button must have a flow_id or flow_json',
+  FLOW_BUTTON_MULTIPLE_SOURCES: 'Flow button must have either flow_id or flow_json, not both',
+  FLOW_INVALID_JSON: 'flow_json must be valid JSON',
+  FLOW_INVALID_ACTION: 'Invalid flow_action: {action}',
+  FLOW_MISSING_NAVIGATE_SCREEN: 'Flow button with navigate action must specify navigate_screen',
+  DUPLICATE_BUTTON_TYPES: 'Each button in a component must have a unique type',
+  COPY_CODE_TOO_MANY: 'Templates can have only one copy code button',
+  FLOW_TOO_MANY: 'Templates can have only one flow button',
+  URL_BUTTONS_TOO_MANY: 'Templates can have a maximum of {max} URL button(s)',
+  PHONE_BUTTONS_TOO_MANY: 'Templates can have a maximum of {max} phone number button(s)',
+  BUTTONS_NOT_GROUPED: 'Buttons of the same type must be grouped together. Example: [QR, QR, URL, URL, CALL] is valid, but [QR, URL, QR] is invalid.',
+
+  // Carousel
+  CAROUSEL_MISSING_CARDS: 'Carousel must have at least one card',
+  CAROUSEL_TOO_FEW_CARDS: 'Carousel must have at least {min} cards',
+  CAROUSEL_TOO_MANY_CARDS: 'Carousel can have a maximum of {max} cards',
+  CAROUSEL_CARD_MISSING_HEADER: 'Card {card} must have a media header',
+  CAROUSEL_CARD_INVALID_HEADER_FORMAT: 'Card {card} header must be an image, video or product',
+  CAROUSEL_CARD_MISSING_BODY: 'Card {card} must have body text',
+  CAROUSEL_CARD_BODY_TOO_LONG: 'Card {card} body text must not exceed {max} characters',
+  CAROUSEL_CARD_MISSING_BUTTONS: 'Card {card} must have at least {min} button',
+  CAROUSEL_CARD_TOO_MANY_BUTTONS: 'Card {card} can have a maximum of {max} buttons',
+  CAROUSEL_MIXED_HEADER_FORMATS: 'All carousel cards must use the same header format',
+  CAROUSEL_BUTTONS_MISMATCH: 'All carousel cards must have the same number and types of buttons in the same order',
+  CAROUSEL_UNSUPPORTED_COMPONENT: 'Carousel templates cannot have a {component} component. Add it to the cards instead.',
+
+  // Limited-time offer
+  LTO_MISSING_TEXT: 'Limited-time offer must have offer text',
+  LTO_TEXT_TOO_LONG: 'Offer text must not exceed {max} characters',
+  LTO_INVALID_EXPIRATION: 'has_expiration must be true or false',
+  LTO_INVALID_CATEGORY: 'Limited-time offers are only available for MARKETING templates',
+  LTO_FOOTER_NOT_ALLOWED: 'Limited-time offer templates cannot have a footer',
+  LTO_INVALID_HEADER_FORMAT: 'Limited-time offer headers must be an image or a video',
+  LTO_BODY_TOO_LONG: 'Limited-time offer body text must not exceed {max} characters',
+  LTO_MISSING_COPY_CODE_BUTTON: 'Limited-time offer templates must have a copy code button with the offer code',
+  LTO_MISSING_URL_BUTTON: 'Limited-time offer templates must have a URL button',
+
+  // Call permission request
+  CALL_PERMISSION_INVALID_CATEGORY: 'Call permission requests are only available for MARKETING and UTILITY templates',
+  CALL_PERMISSION_DUPLICATE: 'Templates can have only one call permission request',
+  CALL_PERMISSION_UNSUPPORTED_COMPONENT: 'Call permission request templates cannot have a {component} component',
+
+  // Catalog and product templates
+  COMMERCE_INVALID_CATEGORY: 'Catalog and product templates are only available for MARKETING templates',
+  COMMERCE_TOO_MANY_BUTTONS: '{type} templates can only have one {type} button',
+  CATALOG_HEADER_NOT_ALLOWED: 'Catalog templates cannot have a header',
+  SPM_MISSING_PRODUCT_HEADER: 'Single-product templates must have a product header',
+  MPM_MISSING_TEXT_HEADER: 'Multi-product templates must have a text header',
+
+  // House rules, see customValidationRules
+  BANNED_WORD: '"{word}" is not allowed in templates',
+  FOOTER_REQUIRED: 'Templates must have a footer',
+  'FOOTER_REQUIRED.TEXT': 'Templates must have the footer "{text}"',
+  'FOOTER_REQUIRED.MISMATCH': 'Footer must read "{text}"',
+  URL_DOMAIN_NOT_ALLOWED: 'Links must point to {domains}',
+};
+
+/**
+ * Fill the {param} placeholders of a message. Unknown placeholders and template variables like {{1}} are left as they are.
+ */
+export function interpolateValidationMessage(message: string, params: ValidationMessageParams = {}): string {
+  // Braces are matched greedily so {{1}} is seen whole and skipped
+  return message.replace(/\{+(\w+)\}+/g, (placeholder, name: string) =>
+    placeholder === `{${name}}` && Object.prototype.hasOwnProperty.call(params, name) ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * The message of an error in the given messages, tried by its message key and then by its code.
+ * Keeps the English message when neither is translated.
+ */
+export function localizeValidationMessage(
+  error: { code: string; message: string; messageKey?: string; params?: ValidationMessageParams },
+  messages?: Partial<ValidationMessages>
+): string {
+  const message = (error.messageKey && messages?.[error.messageKey]) || messages?.[error.code];
+  return message ? interpolateValidationMessage(message, error.params) : error.message;
+}
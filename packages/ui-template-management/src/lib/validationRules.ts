@@ -0,0 +1,258 @@
+/**
+ * Validation rule engine
+ * Template validation is a registry of rules, one per error code. A rule set bundles the rules with the limits they
+ * read, so consumers can turn rules off, change limits or add house rules without forking the built-in Meta rules.
+ */
+
+import type { CreateTemplatePayload } from '../types/templateTypes';
+import { fieldPath } from './fieldPaths';
+import type { ValidationMessageParams } from './validationMessages';
+
+// #region Types
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type TemplateCategory = CreateTemplatePayload['category'];
+
+export interface ValidationLimit {
+  min: number;
+  max: number;
+}
+
+export interface ValidationLimits {
+  template_name: ValidationLimit;
+  header_text: ValidationLimit;
+  body_text: ValidationLimit;
+  footer_text: ValidationLimit;
+  button_text: ValidationLimit;
+  url: ValidationLimit;
+  phone_number: ValidationLimit;
+  copy_code_example: ValidationLimit;
+  card_body_text: ValidationLimit;
+  offer_text: ValidationLimit;
+  offer_body_text: ValidationLimit;
+  carousel_cards: ValidationLimit;
+  carousel_card_buttons: ValidationLimit;
+  url_buttons: ValidationLimit;
+  phone_number_buttons: ValidationLimit;
+  marketing_buttons: ValidationLimit;
+  utility_buttons: ValidationLimit;
+}
+
+export type ValidationLimitOverrides = { [K in keyof ValidationLimits]?: Partial<ValidationLimit> };
+
+/**
+ * Button as rules see it. Rules run on unchecked input, so every field is optional and loosely typed.
+ */
+export interface RuleButton {
+  type?: string;
+  text?: string;
+  url?: string;
+  phone_number?: string;
+  example?: string | string[];
+  otp_type?: string;
+  autofill_text?: string;
+  zero_tap_terms_accepted?: boolean;
+  supported_apps?: { package_name?: string; signature_hash?: string }[];
+  flow_id?: string | number;
+  flow_json?: string;
+  flow_action?: string;
+  navigate_screen?: string;
+}
+
+/**
+ * Component as rules see it, top-level or inside a carousel card
+ */
+export interface RuleComponent {
+  type: string;
+  format?: string;
+  text?: string;
+  example?: {
+    header_text?: string[];
+    header_handle?: string[];
+    body_text?: string[][];
+    body_text_named_params?: { param_name: string; example?: string }[];
+  };
+  add_security_recommendation?: boolean;
+  code_expiration_minutes?: number;
+  buttons?: RuleButton[];
+  cards?: { components?: RuleComponent[] }[];
+  limited_time_offer?: { text?: string; has_expiration?: unknown };
+}
+
+export interface LocatedComponent {
+  field: string;
+  component: RuleComponent;
+  inCard: boolean;
+}
+
+export interface LocatedButton {
+  field: string;
+  button: RuleButton;
+  inCard: boolean;
+}
+
+export interface LocatedCard {
+  field: string;
+  index: number;
+  carouselField: string;
+  header?: RuleComponent;
+  body?: RuleComponent;
+  buttons: RuleButton[];
+}
+
+/**
+ * What a rule gets to look at. The located lists cover carousel cards too, with the field path of each item,
+ * so a body rule checks top-level bodies and card bodies alike.
+ */
+export interface ValidationContext {
+  payload: CreateTemplatePayload;
+  category: string;
+  limits: ValidationLimits;
+  components: RuleComponent[];
+  headers: LocatedComponent[];
+  bodies: LocatedComponent[];
+  footers: LocatedComponent[];
+  buttonComponents: LocatedComponent[];
+  buttons: LocatedButton[];
+  cards: LocatedCard[];
+}
+
+export interface RuleViolation {
+  field: string; // Field path, see fieldPaths
+  message?: string; // Defaults to the English message of messageKey, see validationMessages
+  messageKey?: string; // Defaults to the rule's code
+  params?: ValidationMessageParams; // Values of the {param} placeholders of the message
+}
+
+export interface ValidationRule {
+  code: string;
+  severity: ValidationSeverity;
+  userFacing: boolean; // Technical rules catch payloads the editor can't produce and stay out of userErrors
+  categories?: TemplateCategory[]; // Runs for every category when left out
+  validate: (context: ValidationContext) => RuleViolation[];
+}
+
+export type ValidationRuleOverride = Partial<Pick<ValidationRule, 'severity' | 'userFacing' | 'categories'>>;
+
+export interface ValidationRuleSet {
+  rules: ValidationRule[];
+  limits: ValidationLimits;
+}
+
+export interface ValidationRuleSetOptions {
+  disable?: string[]; // Codes of rules to turn off
+  limits?: ValidationLimitOverrides;
+  overrides?: Record<string, ValidationRuleOverride>; // Severity, userFacing or categories per code
+  rules?: ValidationRule[]; // Added after the base rules, a rule with the code of a base rule replaces it
+}
+
+// #endregion
+
+// #region Helpers
+
+/**
+ * A violation worded by the message catalog, see validationMessages
+ */
+export const violation = (field: string, params?: ValidationMessageParams, messageKey?: string): RuleViolation => ({
+  field,
+  ...(params && { params }),
+  ...(messageKey && { messageKey }),
+});
+
+export const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim().length === 0;
+
+/**
+ * Path of a top-level component, components are addressed by type: components.BUTTONS
+ */
+export const componentField = (type: unknown): string => fieldPath('components', String(type));
+
+export const appliesTo = (rule: ValidationRule, category: string): boolean =>
+  !rule.categories || rule.categories.includes(category as TemplateCategory);
+
+/**
+ * Collect the components, cards and buttons of a payload with the field path each of them is reported under.
+ * Rules append the exact property, so a URL error on the second button lands on components.BUTTONS.buttons[1].url.
+ */
+export function buildValidationContext(payload: CreateTemplatePayload, limits: ValidationLimits): ValidationContext {
+  const components = (Array.isArray(payload.components) ? payload.components : []) as unknown as RuleComponent[];
+  const context: ValidationContext = {
+    payload,
+    category: payload.category,
+    limits,
+    components,
+    headers: [],
+    bodies: [],
+    footers: [],
+    buttonComponents: [],
+    buttons: [],
+    cards: [],
+  };
+
+  components.forEach((component) => {
+    const field = componentField(component?.type);
+    switch (component?.type) {
+      case 'HEADER':
+        context.headers.push({ field, component, inCard: false });
+        break;
+      case 'BODY':
+        context.bodies.push({ field, component, inCard: false });
+        break;
+      case 'FOOTER':
+        context.footers.push({ field, component, inCard: false });
+        break;
+      case 'BUTTONS':
+        context.buttonComponents.push({ field, component, inCard: false });
+        (component.buttons || []).forEach((button, buttonIndex) => {
+          context.buttons.push({ field: fieldPath(field, 'buttons', buttonIndex), button, inCard: false });
+        });
+        break;
+      case 'CAROUSEL':
+        (component.cards || []).forEach((card, cardIndex) => {
+          const cardField = fieldPath(field, 'cards', cardIndex);
+          const cardComponents = card?.components || [];
+          const header = cardComponents.find(c => c.type === 'HEADER');
+          const body = cardComponents.find(c => c.type === 'BODY');
+          const buttons = cardComponents.find(c => c.type === 'BUTTONS')?.buttons || [];
+
+          context.cards.push({ field: cardField, index: cardIndex, carouselField: field, header, body, buttons });
+          // Card headers in a format cards don't allow are reported by the carousel rules only
+          if (header && ['IMAGE', 'VIDEO', 'PRODUCT'].includes(header.format || '')) {
+            context.headers.push({ field: fieldPath(cardField, 'components', 'HEADER'), component: header, inCard: true });
+          }
+          if (body) {
+            context.bodies.push({ field: fieldPath(cardField, 'components', 'BODY'), component: body, inCard: true });
+          }
+          buttons.forEach((button, buttonIndex) => {
+            context.buttons.push({ field: fieldPath(cardField, 'components', 'BUTTONS', 'buttons', buttonIndex), button, inCard: true });
+          });
+        });
+        break;
+    }
+  });
+
+  return context;
+}
+
+/**
+ * Derive a rule set from a base set: drop disabled rules, apply overrides and limits, then add the custom rules
+ */
+export function applyRuleSetOptions(base: ValidationRuleSet, options: ValidationRuleSetOptions = {}): ValidationRuleSet {
+  const disabled = new Set(options.disable || []);
+  const custom = options.rules || [];
+  const replaced = new Set(custom.map(rule => rule.code));
+
+  const rules = [...base.rules.filter(rule => !replaced.has(rule.code)), ...custom]
+    .filter(rule => !disabled.has(rule.code))
+    .map(rule => (options.overrides?.[rule.code] ? { ...rule, ...options.overrides[rule.code] } : rule));
+
+  const limits = { ...base.limits };
+  (Object.keys(options.limits || {}) as (keyof ValidationLimits)[]).forEach(key => {
+    limits[key] = { ...base.limits[key], ...options.limits![key] };
+  });
+
+  return { rules, limits };
+}
+
+// #endregion
@@ -23,7 +23,26 @@ export interface CopyCodeButton {
   example: string;
 }
 
-export type TemplateButton = UrlButton | PhoneNumberButton | QuickReplyButton | CopyCodeButton;
+export type FlowAction = 'navigate' | 'data_exchange';
+
+export interface FlowButton {
+  type: 'FLOW';
+  text: string;
+  // Exactly one of flow_id (published Flow) or flow_json (inline Flow definition)
+  flow_id?: string;
+  flow_json?: string;
+  flow_action?: FlowAction;
+  navigate_screen?: string; // First screen, required when flow_action is navigate
+}
+
+export type TemplateButton = UrlButton | PhoneNumberButton | QuickReplyButton | CopyCodeButton | FlowButton;
+
+// Flows available to the WhatsApp Business Account, used by the Flow picker
+export interface WhatsAppFlow {
+  id: string;
+  name: string;
+  status?: string;
+}
 
 // Components
 export interface HeaderTextComponent {
@@ -98,6 +117,7 @@ export interface MediaCarouselCard {
         header_handle: [string];
       };
     }
+    | BodyComponent
     | {
       type: 'BUTTONS';
       buttons: MediaCarouselButton[];
@@ -116,6 +136,7 @@ export type ProductCarouselButton = SPMButton | UrlButton;
 export interface ProductCarouselCard {
   components: (
     | HeaderProductComponent
+    | BodyComponent
     | {
       type: 'BUTTONS';
       buttons: ProductCarouselButton[];
@@ -135,7 +156,8 @@ export type TemplateComponent =
   | FooterComponent
   | ButtonsComponent
   | LimitedTimeOfferComponent
-  | CarouselComponent;
+  | CarouselComponent
+  | CallPermissionRequestComponent;
 
 // Main Template Interface
 export interface CustomMarketingTemplate {
@@ -161,6 +183,7 @@ export interface CatalogTemplate {
   name: string;
   language: string;
   category: 'MARKETING';
+  parameter_format?: string;
   components: CatalogTemplateComponent[];
 }
 
@@ -250,6 +273,7 @@ export interface MPMTemplate {
   name: string;
   language: string;
   category: 'MARKETING';
+  parameter_format?: string;
   components: MPMTemplateComponent[];
 }
 
@@ -263,6 +287,7 @@ export interface SPMTemplate {
   name: string;
   language: string;
   category: 'MARKETING';
+  parameter_format?: string;
   components: SPMTemplateComponent[];
 }
 
@@ -306,6 +331,7 @@ export interface ResponseUrlButton {
   type: 'URL';
   text: string;
   url: string;
+  example?: string[];
 }
 
 export interface ResponsePhoneNumberButton {
@@ -327,12 +353,28 @@ export interface ResponseFlowButton {
   navigate_screen: string;
 }
 
+export interface ResponseCatalogButton {
+  type: 'CATALOG';
+  text: string;
+}
+
 export interface ResponseSPMButton {
   type: 'SPM';
   text: string;
 }
 
-export type ResponseButton = ResponseUrlButton | ResponsePhoneNumberButton | ResponseQuickReplyButton | ResponseFlowButton | ResponseSPMButton;
+export interface ResponseMPMButton {
+  type: 'MPM';
+  text: string;
+}
+
+export interface ResponseCopyCodeButton {
+  type: 'COPY_CODE';
+  text: string;
+  example?: string | string[];
+}
+
+export type ResponseButton = ResponseUrlButton | ResponsePhoneNumberButton | ResponseQuickReplyButton | ResponseFlowButton | ResponseCatalogButton | ResponseSPMButton | ResponseMPMButton | ResponseCopyCodeButton;
 
 interface ResponseHeaderTextComponent {
   type: 'HEADER';
@@ -392,7 +434,7 @@ export interface ResponseButtonsComponent {
 }
 
 export interface ResponseCarouselCard {
-  components: (ResponseHeaderComponent | ResponseButtonsComponent)[];
+  components: (ResponseHeaderComponent | ResponseBodyComponent | ResponseButtonsComponent)[];
 }
 
 export interface ResponseCarouselComponent {
@@ -400,26 +442,87 @@ export interface ResponseCarouselComponent {
   cards: ResponseCarouselCard[];
 }
 
+export interface ResponseLimitedTimeOfferComponent {
+  type: 'LIMITED_TIME_OFFER';
+  limited_time_offer: {
+    text: string;
+    has_expiration?: boolean;
+  };
+}
+
+export interface ResponseCallPermissionRequestComponent {
+  type: 'CALL_PERMISSION_REQUEST';
+}
+
 export type ResponseComponent =
   | ResponseHeaderComponent
   | ResponseBodyComponent
   | ResponseFooterComponent
   | ResponseButtonsComponent
-  | ResponseCarouselComponent;
+  | ResponseCarouselComponent
+  | ResponseLimitedTimeOfferComponent
+  | ResponseCallPermissionRequestComponent;
+
+export type TemplateStatus =
+  | "APPROVED"
+  | "PENDING"
+  | "REJECTED"
+  | "PAUSED"
+  | "DISABLED"
+  | "IN_APPEAL"
+  | "LIMIT_EXCEEDED"
+  | "PENDING_DELETION"
+  | "DELETED"
+  | "ARCHIVED";
+
+export type TemplateCategory = "UTILITY" | "MARKETING" | "AUTHENTICATION";
+
+// Reason Meta gives for a rejection, NONE when the template isn't rejected
+export type TemplateRejectedReason =
+  | "ABUSIVE_CONTENT"
+  | "INCORRECT_CATEGORY"
+  | "INVALID_FORMAT"
+  | "SCAM"
+  | "PROMOTIONAL"
+  | "TAG_CONTENT_MISMATCH"
+  | "NONE"
+  | (string & {});
+
+export type TemplateQualityRating = "GREEN" | "YELLOW" | "RED" | "UNKNOWN";
+
+export interface TemplateQualityScore {
+  score: TemplateQualityRating;
+  date?: number; // Unix timestamp of the last rating update
+  reasons?: string[];
+}
 
 export interface MessageTemplate {
   id: string;
   name: string;
   components?: ResponseComponent[];
   language: string;
-  status: "APPROVED" | "PENDING" | "REJECTED";
-  category: "UTILITY" | "MARKETING" | "AUTHENTICATION";
+  status: TemplateStatus;
+  category: TemplateCategory;
   message_send_ttl_seconds?: number;
   parameter_format?: "named" | "positional";
   sub_category?: string;
+  rejected_reason?: TemplateRejectedReason;
+  quality_score?: TemplateQualityScore;
+  previous_category?: TemplateCategory; // Set when Meta re-categorised the template
 }
 
 export interface GetAllTemplatesResponse {
   data: MessageTemplate[];
   paging?: Paging;
-}
\ No newline at end of file
+}
+/**
+ * Server-side filters for the template list, mapped to the Graph API's query parameters.
+ * Lists are sent comma separated, so one request can match several statuses or languages.
+ */
+export interface TemplateFilters {
+  name?: string; // Templates whose name contains this text
+  status?: TemplateStatus | TemplateStatus[];
+  category?: TemplateCategory | TemplateCategory[];
+  language?: string | string[];
+  quality_score?: TemplateQualityRating | TemplateQualityRating[];
+}
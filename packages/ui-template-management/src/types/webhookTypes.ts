@@ -0,0 +1,91 @@
+import type { TemplateCategory, TemplateQualityRating, TemplateStatus } from "./templateTypes";
+
+// #region RAW WEBHOOK PAYLOADS
+// Body Meta posts to the webhook callback URL for the whatsapp_business_account object
+export interface WhatsAppWebhookPayload {
+  object: "whatsapp_business_account" | (string & {});
+  entry: WhatsAppWebhookEntry[];
+}
+
+export interface WhatsAppWebhookEntry {
+  id: string; // WABA ID
+  time: number; // Unix timestamp
+  changes: WhatsAppWebhookChange[];
+}
+
+export type TemplateWebhookField =
+  | "message_template_status_update"
+  | "template_category_update"
+  | "message_template_quality_update";
+
+export interface WhatsAppWebhookChange {
+  field: TemplateWebhookField | (string & {});
+  value: unknown;
+}
+
+// Status events include FLAGGED and REINSTATED, which are not template statuses themselves
+export type TemplateStatusEventName = TemplateStatus | "FLAGGED" | "REINSTATED";
+
+export interface MessageTemplateStatusUpdateValue {
+  event: TemplateStatusEventName;
+  message_template_id: number | string;
+  message_template_name: string;
+  message_template_language: string;
+  reason: string | null;
+  disable_info?: { disable_date: string };
+  other_info?: { title: string; description: string };
+}
+
+export interface TemplateCategoryUpdateValue {
+  message_template_id: number | string;
+  message_template_name: string;
+  message_template_language: string;
+  previous_category?: TemplateCategory;
+  new_category?: TemplateCategory;
+  correct_category?: TemplateCategory; // Sent ahead of an automatic re-categorisation
+}
+
+export interface MessageTemplateQualityUpdateValue {
+  message_template_id: number | string;
+  message_template_name: string;
+  message_template_language: string;
+  previous_quality_score: TemplateQualityRating;
+  new_quality_score: TemplateQualityRating;
+}
+// #endregion
+
+// #region PARSED EVENTS
+interface TemplateWebhookEventBase {
+  wabaId: string;
+  templateId: string;
+  name: string;
+  language: string;
+  timestamp: number; // Unix timestamp of the webhook entry
+}
+
+export interface TemplateStatusUpdateEvent extends TemplateWebhookEventBase {
+  type: "message_template_status_update";
+  event: TemplateStatusEventName;
+  status?: TemplateStatus; // Status the template has after the event, unset for FLAGGED which doesn't change it
+  reason?: string;
+  otherInfo?: { title: string; description: string };
+}
+
+export interface TemplateCategoryUpdateEvent extends TemplateWebhookEventBase {
+  type: "template_category_update";
+  previousCategory?: TemplateCategory;
+  newCategory?: TemplateCategory;
+  correctCategory?: TemplateCategory;
+}
+
+export interface TemplateQualityUpdateEvent extends TemplateWebhookEventBase {
+  type: "message_template_quality_update";
+  previousQualityScore: TemplateQualityRating;
+  newQualityScore: TemplateQualityRating;
+}
+
+export type TemplateWebhookEvent =
+  | TemplateStatusUpdateEvent
+  | TemplateCategoryUpdateEvent
+  | TemplateQualityUpdateEvent;
+// #endregion